@@ -154,4 +154,30 @@ self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
-});
\ No newline at end of file
+});
+
+// Commute alert buttons are handled by the app; a click on the notification itself opens it
+self.addEventListener('notificationclick', (event) => {
+  const { commuteId } = event.notification.data || {};
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (commuteId && (event.action === 'snooze' || event.action === 'dismiss')) {
+        clients.forEach((client) => {
+          client.postMessage({
+            type: event.action === 'snooze' ? 'COMMUTE_ALERT_SNOOZE' : 'COMMUTE_ALERT_DISMISS',
+            commuteId: commuteId
+          });
+        });
+        return;
+      }
+
+      if (clients.length > 0) {
+        return clients[0].focus();
+      }
+      // The app lives at the service worker's scope, under the site's base path
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
@@ -0,0 +1,96 @@
+/**
+ * Script to precompute the track geometry the app needs from the raw railway data
+ * Writes compact per-route polylines for the position engine, the chainage of every station measured
+ * along the matched track and the track features drawn on the map
+ *
+ * Usage:
+ *   node scripts/build-route-geometry.js
+ */
+import fs from 'fs';
+import path from 'path';
+import { projectRoot, withSourceModules } from './source-loader.js';
+
+const dataDir = path.join(projectRoot, 'src/data');
+
+/**
+ * Match the track to every route with the simple calculator, which the app used to do on every load
+ */
+async function matchRoutes(SimpleRouteCalculator, stations, routes) {
+  const calculator = new SimpleRouteCalculator();
+
+  // The calculator reports every processed feature - keep the script output readable
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await calculator.initialize(stations);
+    routes.forEach(route => calculator.calculateRoutePattern(route));
+  } finally {
+    console.log = log;
+  }
+
+  return calculator;
+}
+
+function writeJson(fileName, data, space) {
+  const outputPath = path.join(dataDir, fileName);
+  const content = JSON.stringify(data, null, space);
+  fs.writeFileSync(outputPath, content);
+  console.log(`  Wrote src/data/${fileName} (${(content.length / 1024).toFixed(1)} KB)`);
+}
+
+async function buildRouteGeometry() {
+  console.log('Building route geometry...');
+
+  await withSourceModules(
+    [
+      '/src/utils/simpleRouteCalculator.ts',
+      '/src/utils/routeGeometryArtifact.ts',
+      '/src/utils/trackDisplay.ts',
+      '/src/utils/linearReferencing.ts',
+      '/src/data/stations.ts',
+      '/src/data/routes.ts'
+    ],
+    async (routeCalculator, artifact, trackDisplay, linearReferencing, stationData, routeData) => {
+      const { stations } = stationData;
+      const { routes } = routeData;
+
+      const calculator = await matchRoutes(routeCalculator.SimpleRouteCalculator, stations, routes);
+
+      const encodedRoutes = [];
+      for (const route of routes) {
+        const info = calculator.getRouteInfo(route.id);
+        if (!info) throw new Error(`No track matched for route ${route.id}`);
+
+        const encoded = artifact.encodeRouteGeometry(route.id, route.stations, info.segments);
+        encodedRoutes.push(encoded);
+        console.log(`  ${route.id}: ${encoded.legs.length} legs, ${(encoded.stationOffsets[encoded.stationOffsets.length - 1] / 1000).toFixed(1)} km`);
+      }
+
+      writeJson('route-geometry.json', {
+        version: artifact.ROUTE_GEOMETRY_VERSION,
+        excludedFeatures: calculator.getExclusions().names,
+        routes: encodedRoutes
+      });
+
+      const chainages = linearReferencing.measureStationChainages(encodedRoutes.map(artifact.decodeRouteGeometry));
+      const unmeasured = stations.filter(station => chainages[station.id] === undefined);
+      if (unmeasured.length > 0) {
+        throw new Error(`No chainage measured for ${unmeasured.map(station => station.name).join(', ')}`);
+      }
+      const lineLength = Math.max(...Object.values(chainages));
+      console.log(`  Station chainages: ${stations.length} stations over ${lineLength.toFixed(2)} km`);
+      writeJson('station-chainages.json', chainages, 2);
+
+      const rawGeometry = JSON.parse(fs.readFileSync(path.join(dataDir, 'marmaray-track-geometry.json'), 'utf-8'));
+      const display = trackDisplay.buildTrackDisplay(rawGeometry);
+      console.log(`  Map tracks: ${display.features.length} of ${rawGeometry.features.length} railway features`);
+      writeJson('track-display.json', display);
+    }
+  );
+}
+
+// Run the script
+buildRouteGeometry().catch(error => {
+  console.error('Error building route geometry:', error);
+  process.exitCode = 1;
+});
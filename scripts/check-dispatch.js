@@ -0,0 +1,124 @@
+/**
+ * Script to check that the block-section model keeps trains on the same track apart
+ * Dispatches every service day in the range without disruptions and fails if two trains are
+ * in the same block section at once: the line between two stations or a platform
+ *
+ * Usage:
+ *   node scripts/check-dispatch.js [--from 2026-10-19] [--days 14]
+ */
+import { withSourceModules } from './source-loader.js';
+
+function parseArgs(argv) {
+  const args = { from: new Date(), days: 14 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--from': args.from = new Date(`${argv[++i]}T00:00:00`); break;
+      case '--days': args.days = Number(argv[++i]); break;
+      default: throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+
+  if (Number.isNaN(args.from.getTime())) throw new Error('--from must be a date as YYYY-MM-DD');
+  args.from.setHours(0, 0, 0, 0);
+  return args;
+}
+
+/**
+ * When each trip is in each block, keyed like the delay model: the track, then the platform or
+ * the line towards a station
+ */
+function getOccupations(trips, getStationChainage) {
+  const occupations = new Map();
+  const occupy = (key, tripId, from, to) => {
+    if (!occupations.has(key)) occupations.set(key, []);
+    occupations.get(key).push({ tripId, from, to });
+  };
+
+  for (const trip of trips) {
+    const { stops } = trip;
+    const first = getStationChainage(stops[0].stationId) ?? 0;
+    const last = getStationChainage(stops[stops.length - 1].stationId) ?? 0;
+    const track = last > first ? 'east' : 'west';
+
+    stops.forEach((stop, index) => {
+      occupy(`${track}:platform:${stop.stationId}`, trip.id, stop.arrivalTime, stop.departureTime);
+      const next = stops[index + 1];
+      if (next) occupy(`${track}:line:${next.stationId}`, trip.id, stop.departureTime, next.arrivalTime);
+    });
+  }
+
+  return occupations;
+}
+
+/**
+ * Pairs of trips in the same block at the same time; a train may enter as the one ahead leaves
+ */
+function findConflicts(occupations) {
+  const conflicts = [];
+
+  for (const [block, entries] of occupations) {
+    entries.sort((a, b) => a.from - b.from || a.to - b.to);
+    let ahead = null;
+    for (const entry of entries) {
+      if (ahead && entry.from < ahead.to) {
+        conflicts.push({ block, ahead, behind: entry });
+      }
+      if (!ahead || entry.to > ahead.to) ahead = entry;
+    }
+  }
+
+  return conflicts;
+}
+
+async function checkDispatch() {
+  const args = parseArgs(process.argv.slice(2));
+
+  await withSourceModules(
+    [
+      '/src/utils/timetableEngine.ts',
+      '/src/utils/delayModel.ts',
+      '/src/utils/serviceCalendar.ts',
+      '/src/utils/linearReferencing.ts'
+    ],
+    async (timetableEngine, delayModel, serviceCalendar, linearReferencing) => {
+      delayModel.setDisruptions([]);
+      let totalConflicts = 0;
+
+      for (let dayOffset = 0; dayOffset < args.days; dayOffset++) {
+        const serviceDate = new Date(args.from);
+        serviceDate.setDate(serviceDate.getDate() + dayOffset);
+
+        const serviceDay = serviceCalendar.getServiceDay(serviceDate);
+        const trips = timetableEngine.getTripsForServiceDate(serviceDate);
+        const conflicts = findConflicts(getOccupations(trips, linearReferencing.getStationChainage));
+
+        // Holds from the signalling show up as delays
+        const delays = trips.map(trip => Math.max(0, ...trip.stops.map(stop => stop.delay ?? 0)));
+        const held = delays.filter(delay => delay > 0);
+
+        console.log(
+          `  ${serviceCalendar.formatDateKey(serviceDate)} ${serviceDay.services.join(' + ') || 'no service'}: ` +
+          `${trips.length} trips, ${held.length} held (up to ${Math.round(Math.max(0, ...held) / 60)} min), ` +
+          `${conflicts.length} block conflicts`
+        );
+        conflicts.slice(0, 5).forEach(({ block, ahead, behind }) => {
+          console.error(`    ❌ ${behind.tripId} enters ${block} before ${ahead.tripId} has left`);
+        });
+        totalConflicts += conflicts.length;
+      }
+
+      console.log(`Dispatch: ${totalConflicts} block conflicts in ${args.days} undisrupted days`);
+      if (totalConflicts > 0) {
+        process.exitCode = 1;
+      }
+    }
+  );
+}
+
+// Run the script
+checkDispatch().catch(error => {
+  console.error('Error checking the dispatched timetable:', error);
+  process.exitCode = 1;
+});
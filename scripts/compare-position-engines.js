@@ -0,0 +1,107 @@
+/**
+ * Script to compare where two position engines place trains, by default simple and graph
+ * Prints the segments that differ most, and a summary per route
+ *
+ * Usage:
+ *   node scripts/compare-position-engines.js [--engines simple,graph] [--samples 20] [--top 15] [--json out.json]
+ */
+import fs from 'fs';
+import path from 'path';
+import { withSourceModules } from './source-loader.js';
+
+function parseArgs(argv) {
+  const args = { engines: ['simple', 'graph'], samples: 20, top: 15, json: undefined };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--engines': args.engines = argv[++i].split(','); break;
+      case '--samples': args.samples = Number(argv[++i]); break;
+      case '--top': args.top = Number(argv[++i]); break;
+      case '--json': args.json = path.resolve(argv[++i]); break;
+      default: throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Initialize an engine with every route pattern
+ */
+async function createEngine(positionEngine, type, stations, routes) {
+  // The engines report every processed feature and missing path - keep the script output readable
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    const engine = await positionEngine.createPositionEngine(type);
+    await engine.initialize(stations);
+    routes.forEach(route => engine.calculateRoutePattern(route));
+    return engine;
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+async function compareEngines() {
+  const args = parseArgs(process.argv.slice(2));
+
+  await withSourceModules(
+    [
+      '/src/utils/positionEngine.ts',
+      '/src/utils/positionEngineComparison.ts',
+      '/src/data/stations.ts',
+      '/src/data/routes.ts'
+    ],
+    async (positionEngine, comparison, stationData, routeData) => {
+      const { stations } = stationData;
+      const { routes } = routeData;
+      const stationName = id => stations.find(s => s.id === id)?.name ?? id;
+
+      const [engineA, engineB] = args.engines;
+      const a = await createEngine(positionEngine, engineA, stations, routes);
+      const b = await createEngine(positionEngine, engineB, stations, routes);
+
+      const results = comparison.compareEngines(a, b, routes, args.samples);
+
+      console.log(`${engineA} vs ${engineB}, largest differences (of ${results.length} segments, ${args.samples} samples each):`);
+      const sorted = [...results].sort((a, b) => b.maxDistance - a.maxDistance);
+      for (const result of sorted.slice(0, args.top)) {
+        const missing = result.missing.length > 0 ? `  no position from ${result.missing.join(', ')}` : '';
+        console.log(
+          `  ${result.routeId.padEnd(17)} ${`${stationName(result.fromStationId)} → ${stationName(result.toStationId)}`.padEnd(34)}` +
+          ` mean ${result.meanDistance.toFixed(0).padStart(5)} m  max ${result.maxDistance.toFixed(0).padStart(5)} m` +
+          `  bearing mean ${result.meanBearingDifference.toFixed(1).padStart(5)}°  max ${result.maxBearingDifference.toFixed(1).padStart(5)}°${missing}`
+        );
+      }
+
+      console.log('Per route:');
+      for (const route of routes) {
+        const routeResults = results.filter(result => result.routeId === route.id);
+        const compared = routeResults.filter(result => result.samples > 0);
+        const meanDistance = compared.reduce((sum, result) => sum + result.meanDistance, 0) / Math.max(1, compared.length);
+        const maxDistance = Math.max(0, ...compared.map(result => result.maxDistance));
+        const meanBearing = compared.reduce((sum, result) => sum + result.meanBearingDifference, 0) / Math.max(1, compared.length);
+        console.log(
+          `  ${route.id.padEnd(17)} ${compared.length}/${routeResults.length} segments compared,` +
+          ` mean ${meanDistance.toFixed(0)} m, max ${maxDistance.toFixed(0)} m, bearing mean ${meanBearing.toFixed(1)}°`
+        );
+      }
+
+      if (args.json) {
+        fs.mkdirSync(path.dirname(args.json), { recursive: true });
+        fs.writeFileSync(args.json, JSON.stringify(results, null, 2));
+        console.log(`Wrote ${args.json}`);
+      }
+    }
+  );
+}
+
+// Run the script
+compareEngines().catch(error => {
+  console.error('Error comparing position engines:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,189 @@
+/**
+ * Script to publish Rayda's network as a GTFS static feed
+ * Validates the feed and checks that importing it back reproduces src/data
+ *
+ * Usage:
+ *   node scripts/export-gtfs.js [--out dist/rayda-gtfs.zip] [--start YYYY-MM-DD] [--end YYYY-MM-DD]
+ */
+import fs from 'fs';
+import path from 'path';
+import { projectRoot, withSourceModules } from './source-loader.js';
+
+// Station distances are re-derived from the exported chainage, so allow small drift
+const DISTANCE_TOLERANCE_KM = 0.5;
+
+function parseArgs(argv) {
+  const args = {
+    out: path.join(projectRoot, 'dist/rayda-gtfs.zip'),
+    startDate: undefined,
+    endDate: undefined
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--out': args.out = path.resolve(argv[++i]); break;
+      case '--start': args.startDate = new Date(`${argv[++i]}T12:00:00`); break;
+      case '--end': args.endDate = new Date(`${argv[++i]}T12:00:00`); break;
+      default: throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Forward track geometry for every route, taken from the same calculator the map uses
+ */
+async function buildRouteShapes(SimpleRouteCalculator, stations, routes) {
+  const calculator = new SimpleRouteCalculator();
+
+  // The calculator reports every processed feature - keep the script output readable
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await calculator.initialize(stations);
+    routes.forEach(route => calculator.calculateRoutePattern(route));
+  } finally {
+    console.log = log;
+  }
+
+  const shapes = {};
+  for (const route of routes) {
+    const info = calculator.getRouteInfo(route.id);
+    if (!info) continue;
+
+    const points = [];
+    for (const segment of info.segments) {
+      for (const { lng, lat } of segment.trackPath) {
+        const last = points[points.length - 1];
+        if (!last || last[0] !== lng || last[1] !== lat) points.push([lng, lat]);
+      }
+    }
+    if (points.length >= 2) shapes[route.id] = points;
+  }
+
+  return shapes;
+}
+
+/**
+ * Compare re-imported data with the source data, returning a list of differences
+ */
+function compareRoundTrip(source, imported, getStationChainage) {
+  const differences = [];
+
+  const importedStations = new Map(imported.stations.map(s => [s.id, s]));
+  for (const station of source.stations) {
+    const copy = importedStations.get(station.id);
+    if (!copy) {
+      differences.push(`Station ${station.id} (${station.name}) missing after import`);
+      continue;
+    }
+    if (copy.name !== station.name) {
+      differences.push(`Station ${station.id}: name "${station.name}" imported as "${copy.name}"`);
+    }
+    if (Math.abs(copy.coordinates[0] - station.coordinates[0]) > 1e-5 ||
+        Math.abs(copy.coordinates[1] - station.coordinates[1]) > 1e-5) {
+      differences.push(`Station ${station.id}: coordinates changed`);
+    }
+    const chainage = getStationChainage(station.id);
+    if (chainage !== null && Math.abs(copy.distanceFromStart - chainage) > DISTANCE_TOLERANCE_KM) {
+      differences.push(`Station ${station.id}: chainage ${chainage} km imported as ${copy.distanceFromStart} km`);
+    }
+  }
+
+  const importedRoutes = new Map(imported.routes.map(r => [r.id, r]));
+  for (const route of source.routes) {
+    const copy = importedRoutes.get(route.id);
+    if (!copy) {
+      differences.push(`Route ${route.id} missing after import`);
+      continue;
+    }
+    if (copy.stations.join('>') !== route.stations.join('>')) {
+      differences.push(`Route ${route.id}: station sequence changed`);
+    }
+    if (copy.frequency !== route.frequency) {
+      differences.push(`Route ${route.id}: frequency ${route.frequency} imported as ${copy.frequency}`);
+    }
+    if (copy.color !== route.color || copy.name !== route.name) {
+      differences.push(`Route ${route.id}: name or color changed`);
+    }
+  }
+
+  const importedTimes = new Map(imported.interStationTimes.map(t => [`${t.fromStationId}>${t.toStationId}`, t.time]));
+  for (const { fromStationId, toStationId, time } of source.interStationTimes) {
+    const copy = importedTimes.get(`${fromStationId}>${toStationId}`);
+    if (copy !== undefined && copy !== time) {
+      differences.push(`Travel time ${fromStationId} → ${toStationId}: ${time}s imported as ${copy}s`);
+    }
+  }
+
+  return differences;
+}
+
+async function exportGtfs() {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log('Exporting GTFS feed...');
+
+  await withSourceModules(
+    [
+      '/src/utils/gtfsExporter.ts',
+      '/src/utils/gtfsValidator.ts',
+      '/src/utils/gtfsImporter.ts',
+      '/src/utils/simpleRouteCalculator.ts',
+      '/src/utils/linearReferencing.ts',
+      '/src/data/stations.ts',
+      '/src/data/routes.ts',
+      '/src/data/interStationTimes.ts'
+    ],
+    async (gtfsExporter, gtfsValidator, gtfsImporter, routeCalculator, linearReferencing, stationData, routeData, timeData) => {
+      const source = {
+        stations: stationData.stations,
+        routes: routeData.routes,
+        interStationTimes: timeData.interStationTimes
+      };
+
+      const routeShapes = await buildRouteShapes(routeCalculator.SimpleRouteCalculator, source.stations, source.routes);
+      console.log(`  Track geometry for ${Object.keys(routeShapes).length}/${source.routes.length} routes`);
+
+      const zipData = gtfsExporter.exportGtfsFeed({
+        ...source,
+        routeShapes,
+        startDate: args.startDate,
+        endDate: args.endDate
+      });
+
+      // Validate the feed exactly as a consumer would read it
+      const tables = await gtfsImporter.readGtfsTables(zipData, 'utf-8');
+      const { errors, warnings } = gtfsValidator.validateGtfsTables(tables);
+      warnings.forEach(warning => console.warn(`  ⚠️ ${warning}`));
+      errors.forEach(error => console.error(`  ❌ ${error}`));
+      console.log(`  Validation: ${errors.length} errors, ${warnings.length} warnings`);
+
+      // Round trip through the importer
+      const imported = await gtfsImporter.importGtfsFeed(zipData, {
+        encoding: 'utf-8',
+        minTripsPerPattern: 1,
+        knownRoutes: source.routes
+      });
+      const differences = compareRoundTrip(source, imported, linearReferencing.getStationChainage);
+      differences.forEach(difference => console.error(`  ❌ ${difference}`));
+      console.log(`  Round trip: ${differences.length} differences`);
+
+      fs.mkdirSync(path.dirname(args.out), { recursive: true });
+      fs.writeFileSync(args.out, zipData);
+      console.log(`Wrote ${args.out} (${(zipData.length / 1024).toFixed(1)} KB)`);
+
+      if (errors.length > 0 || differences.length > 0) {
+        process.exitCode = 1;
+      }
+    }
+  );
+}
+
+// Run the script
+exportGtfs().catch(error => {
+  console.error('Error exporting GTFS feed:', error);
+  process.exitCode = 1;
+});
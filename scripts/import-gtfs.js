@@ -0,0 +1,161 @@
+/**
+ * Script to regenerate Marmaray stations, routes and inter-station times from a GTFS feed
+ * Reads a local GTFS zip (e.g. the IMM feed) and rewrites the data modules in src/data
+ *
+ * Usage:
+ *   node scripts/import-gtfs.js <gtfs.zip> [--route MARMARAY] [--encoding auto|iso-8859-9|utf-8]
+ *                               [--date YYYY-MM-DD] [--min-trips 5] [--shape-dist-unit auto|km|m]
+ *                               [--out-dir src/data] [--dry-run]
+ */
+import fs from 'fs';
+import path from 'path';
+import { projectRoot, withSourceModules } from './source-loader.js';
+
+function parseArgs(argv) {
+  const args = {
+    zipPath: null,
+    route: 'MARMARAY',
+    encoding: 'auto',
+    date: null,
+    minTrips: 5,
+    shapeDistUnit: 'auto',
+    outDir: path.join(projectRoot, 'src/data'),
+    dryRun: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--route': args.route = argv[++i]; break;
+      case '--encoding': args.encoding = argv[++i]; break;
+      case '--date': args.date = new Date(`${argv[++i]}T12:00:00`); break;
+      case '--min-trips': args.minTrips = Number(argv[++i]); break;
+      case '--shape-dist-unit': args.shapeDistUnit = argv[++i]; break;
+      case '--out-dir': args.outDir = path.resolve(argv[++i]); break;
+      case '--dry-run': args.dryRun = true; break;
+      default: args.zipPath = arg;
+    }
+  }
+
+  if (!args.zipPath) {
+    throw new Error('Usage: node scripts/import-gtfs.js <gtfs.zip> [--route MARMARAY] [--dry-run]');
+  }
+
+  return args;
+}
+
+function renderStations(stations, originName) {
+  const sorted = [...stations].sort((a, b) => Number(a.id) - Number(b.id) || a.id.localeCompare(b.id));
+  const entries = sorted.map(station => `  {
+    id: '${station.id}',
+    name: '${station.name.replace(/'/g, "\\'")}',
+    coordinates: [${station.coordinates[0]}, ${station.coordinates[1]}], // [longitude, latitude]
+    distanceFromStart: ${station.distanceFromStart.toFixed(2)} // km from ${originName}
+  }`);
+
+  return `import type { Station } from '../types';
+
+// Marmaray station data from Istanbul Metropolitan Municipality GTFS
+// All ${stations.length} stations, generated by scripts/import-gtfs.js - do not edit by hand
+// Data extracted with Turkish character support using ISO-8859-9 encoding
+export const stations: Station[] = [
+${entries.join(',\n')}
+];
+`;
+}
+
+function renderRoutes(routes, stationNames) {
+  const entries = routes.map(route => {
+    const stationLines = route.stations.map((stationId, index) => {
+      const comma = index < route.stations.length - 1 ? ',' : ' ';
+      return `      '${stationId}'${comma} // ${stationNames.get(stationId)}`;
+    });
+
+    return `  {
+    id: '${route.id}',
+    name: '${route.name.replace(/'/g, "\\'")}',
+    termini: ['${route.termini[0]}', '${route.termini[1]}'], // ${stationNames.get(route.termini[0])} to ${stationNames.get(route.termini[1])}
+    frequency: ${route.frequency}, // Every ${route.frequency} minutes
+    stations: [
+${stationLines.join('\n')}
+    ],
+    color: '${route.color}'
+  }`;
+  });
+
+  return `import type { Route } from '../types';
+
+// Marmaray route patterns based on official service data
+// Source: Istanbul Metropolitan Municipality GTFS, generated by scripts/import-gtfs.js
+export const routes: Route[] = [
+${entries.join(',\n')}
+];
+`;
+}
+
+function renderInterStationTimes(times, stationNames) {
+  const entries = times.map(({ fromStationId, toStationId, time }) => {
+    const minutes = Math.round((time / 60) * 10) / 10;
+    return `  { fromStationId: '${fromStationId}', toStationId: '${toStationId}', time: ${time} }, // ${stationNames.get(fromStationId)} → ${stationNames.get(toStationId)}: ${minutes} min`;
+  });
+
+  return `import type { InterStationTime } from '../types';
+
+// Inter-station travel times from Istanbul Metropolitan Municipality GTFS stop_times.txt
+// Median running time over all trips, generated by scripts/import-gtfs.js - do not edit by hand
+export const interStationTimes: InterStationTime[] = [
+${entries.join('\n')}
+];
+`;
+}
+
+async function importGtfs() {
+  const args = parseArgs(process.argv.slice(2));
+  const zipData = new Uint8Array(fs.readFileSync(args.zipPath));
+
+  console.log(`Importing GTFS feed from ${args.zipPath}...`);
+
+  await withSourceModules(
+    ['/src/utils/gtfsImporter.ts', '/src/data/routes.ts'],
+    async (gtfsImporter, currentData) => {
+      const result = await gtfsImporter.importGtfsFeed(zipData, {
+        encoding: args.encoding,
+        routeFilter: args.route,
+        serviceDate: args.date ?? undefined,
+        minTripsPerPattern: args.minTrips,
+        shapeDistUnit: args.shapeDistUnit,
+        knownRoutes: currentData.routes
+      });
+
+      result.report.forEach(line => console.log(`  ${line}`));
+
+      const stationNames = new Map(result.stations.map(s => [s.id, s.name]));
+      const longestRoute = result.routes.reduce((a, b) => (b.stations.length > a.stations.length ? b : a));
+      const originName = stationNames.get(longestRoute.termini[0]);
+
+      const outputs = {
+        'stations.ts': renderStations(result.stations, originName),
+        'routes.ts': renderRoutes(result.routes, stationNames),
+        'interStationTimes.ts': renderInterStationTimes(result.interStationTimes, stationNames)
+      };
+
+      if (args.dryRun) {
+        console.log('Dry run - no files written');
+        return;
+      }
+
+      fs.mkdirSync(args.outDir, { recursive: true });
+      for (const [fileName, content] of Object.entries(outputs)) {
+        const outputPath = path.join(args.outDir, fileName);
+        fs.writeFileSync(outputPath, content);
+        console.log(`Wrote ${outputPath}`);
+      }
+    }
+  );
+}
+
+// Run the script
+importGtfs().catch(error => {
+  console.error('Error importing GTFS feed:', error);
+  process.exitCode = 1;
+});
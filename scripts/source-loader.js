@@ -0,0 +1,37 @@
+/**
+ * Helper for data scripts that need the app's TypeScript modules
+ * Uses Vite's SSR module loader so scripts share the exact code the app runs
+ */
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const projectRoot = path.join(__dirname, '..');
+
+/**
+ * Load one or more modules from src/ (paths relative to the project root)
+ * and run the callback with them before shutting the loader down
+ */
+export async function withSourceModules(modulePaths, callback) {
+  const server = await createServer({
+    root: projectRoot,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+
+  try {
+    const modules = [];
+    for (const modulePath of modulePaths) {
+      modules.push(await server.ssrLoadModule(modulePath));
+    }
+    return await callback(...modules);
+  } finally {
+    await server.close();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Script to check the raw railway geometry with the excluded segments applied
+ * Reports disconnected track, gaps between consecutive stations, stations far from the track,
+ * ways mapped twice and dead ends, and can write the full report as JSON for review
+ *
+ * Usage:
+ *   node scripts/validate-track.js [--geometry src/data/marmaray-track-geometry.json] [--gap-tolerance 50]
+ *                                  [--max-station-offset 200] [--json out.json]
+ */
+import fs from 'fs';
+import path from 'path';
+import { projectRoot, withSourceModules } from './source-loader.js';
+
+function parseArgs(argv) {
+  const args = {
+    geometry: path.join(projectRoot, 'src/data/marmaray-track-geometry.json'),
+    options: {},
+    json: undefined
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--geometry': args.geometry = path.resolve(argv[++i]); break;
+      case '--gap-tolerance': args.options.gapTolerance = Number(argv[++i]); break;
+      case '--max-station-offset': args.options.maxStationOffset = Number(argv[++i]); break;
+      case '--json': args.json = path.resolve(argv[++i]); break;
+      default: throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+async function validateTrack() {
+  const args = parseArgs(process.argv.slice(2));
+  const geometry = JSON.parse(fs.readFileSync(args.geometry, 'utf-8'));
+
+  await withSourceModules(
+    [
+      '/src/utils/trackValidation.ts',
+      '/src/data/stations.ts',
+      '/src/data/routes.ts'
+    ],
+    async (trackValidation, stationData, routeData) => {
+      const { stations } = stationData;
+      const { routes } = routeData;
+
+      console.log(`Validating ${path.relative(projectRoot, args.geometry)}...`);
+
+      // The track processor reports every station it maps - keep the script output readable
+      const log = console.log;
+      const warn = console.warn;
+      console.log = () => {};
+      console.warn = () => {};
+      let report;
+      try {
+        report = await trackValidation.validateTrackGeometry(geometry, stations, routes, args.options);
+      } finally {
+        console.log = log;
+        console.warn = warn;
+      }
+
+      const { summary } = report;
+      console.log(
+        `  ${summary.features} features, ${summary.excludedFeatures} excluded: ` +
+        `${summary.nodes} nodes, ${summary.edges} edges, ${summary.length.toFixed(1)} km in ${summary.components} components`
+      );
+      const main = report.components[0];
+      if (main) {
+        console.log(`  Main component: ${main.length.toFixed(1)} km, ${main.stations.length}/${stations.length} stations`);
+      }
+      console.log(
+        `  ${report.stationGaps.length} station gaps, ${report.stationsOffTrack.length} stations off the track, ` +
+        `${report.duplicateWays.length} duplicated ways, ${report.deadEnds.length} dead ends`
+      );
+
+      report.warnings.forEach(warning => console.warn(`  ⚠️ ${warning}`));
+      report.errors.forEach(error => console.error(`  ❌ ${error}`));
+      console.log(`  Validation: ${report.errors.length} errors, ${report.warnings.length} warnings`);
+
+      if (args.json) {
+        fs.mkdirSync(path.dirname(args.json), { recursive: true });
+        fs.writeFileSync(args.json, JSON.stringify(report, null, 2));
+        console.log(`Wrote ${args.json}`);
+      }
+
+      if (report.errors.length > 0) {
+        process.exitCode = 1;
+      }
+    }
+  );
+}
+
+// Run the script
+validateTrack().catch(error => {
+  console.error('Error validating track geometry:', error);
+  process.exitCode = 1;
+});
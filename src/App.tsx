@@ -2,10 +2,16 @@ import LazyMap from './components/LazyMap';
 import StatusBar from './components/StatusBar';
 import StationSelector from './components/StationSelector';
 import RoutePlanner from './components/RoutePlanner';
+import CommuteAlerts from './components/CommuteAlerts';
+import DepartureBoard from './components/DepartureBoard';
+import TimetableSheet from './components/TimetableSheet';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { useDeepLinks } from './hooks/useDeepLinks';
 import './App.css';
 
 function App() {
+  useDeepLinks();
+
   return (
     <LanguageProvider>
       <div className="h-screen flex flex-col bg-gray-900">
@@ -19,6 +25,9 @@ function App() {
           {/* Overlay Components */}
           <StationSelector />
           <RoutePlanner />
+          <CommuteAlerts />
+          <DepartureBoard />
+          <TimetableSheet />
         </div>
       </div>
     </LanguageProvider>
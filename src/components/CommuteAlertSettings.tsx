@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { usePreferencesStore, type CommuteAlert, type SavedCommute } from '../stores/preferencesStore';
+import { getSimulationTime } from '../stores/clockStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { planCommuteDeparture } from '../utils/commuteAlerts';
+import { formatArrivalTime } from '../utils/timetableCalculations';
+import { getNotificationSupport, requestNotificationPermission } from '../utils/notifications';
+
+const WEEK = [1, 2, 3, 4, 5, 6, 0]; // Monday first, as Date.getDay()
+const LEAD_MINUTES = [5, 10, 15, 20, 30];
+
+const defaultAlert = (commute: SavedCommute): CommuteAlert => ({
+  enabled: false,
+  days: [1, 2, 3, 4, 5],
+  time: commute.arriveBy ?? '08:00',
+  leadMinutes: 10,
+  walkMinutes: typeof commute.from === 'string' ? 5 : 0
+});
+
+// Weekdays, time, lead time and walk from home for a commute's reminder to leave
+const CommuteAlertSettings = ({ commute }: { commute: SavedCommute }) => {
+  const { t, language } = useLanguage();
+  const { setCommuteAlert } = usePreferencesStore();
+  const [notifications, setNotifications] = useState(getNotificationSupport);
+  const alert = commute.alert ?? defaultAlert(commute);
+
+  const update = (changes: Partial<CommuteAlert>) => {
+    setCommuteAlert(commute.id, { ...alert, ...changes });
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    update({ enabled });
+    if (enabled) setNotifications(await requestNotificationPermission());
+  };
+
+  const toggleDay = (day: number) => {
+    update({ days: alert.days.includes(day) ? alert.days.filter(d => d !== day) : [...alert.days, day] });
+  };
+
+  // Short weekday names in the current language; 4 January 2026 is a Sunday
+  const dayName = (day: number) =>
+    new Date(2026, 0, 4 + day).toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-GB', { weekday: 'short' });
+
+  const departure = alert.enabled ? planCommuteDeparture({ ...commute, alert }, getSimulationTime()) : null;
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2 text-xs text-gray-700">
+      <label className="flex items-center space-x-2">
+        <input type="checkbox" checked={alert.enabled} onChange={(e) => handleEnabledChange(e.target.checked)} />
+        <span className="font-medium">{t('remindMeToLeave')}</span>
+      </label>
+
+      <div className="flex flex-wrap gap-1">
+        {WEEK.map(day => (
+          <button
+            key={day}
+            onClick={() => toggleDay(day)}
+            className={`px-2 py-1 rounded ${alert.days.includes(day) ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300'}`}
+          >
+            {dayName(day)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="block mb-1">{commute.arriveBy ? t('arriveBy') : t('leaveAfter')}</span>
+          <input
+            type="time"
+            value={alert.time}
+            onChange={(e) => e.target.value && update({ time: e.target.value })}
+            className="w-full px-1 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="block mb-1">{t('remindBefore')}</span>
+          <select
+            value={alert.leadMinutes}
+            onChange={(e) => update({ leadMinutes: Number(e.target.value) })}
+            className="w-full px-1 py-1 border border-gray-300 rounded"
+          >
+            {LEAD_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} {t('min')}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block mb-1">{t('walkFromHome')}</span>
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={alert.walkMinutes}
+            onChange={(e) => update({ walkMinutes: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-full px-1 py-1 border border-gray-300 rounded"
+          />
+        </label>
+      </div>
+
+      {departure && (
+        <p className="text-blue-800">
+          {t('leaveAt')} {departure.leaveAt.toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-GB', { weekday: 'short' })}{' '}
+          {formatArrivalTime(departure.leaveAt)}
+        </p>
+      )}
+      {alert.enabled && notifications !== 'granted' && (
+        <p className="text-amber-700">{t('notificationsOff')}</p>
+      )}
+    </div>
+  );
+};
+
+export default CommuteAlertSettings;
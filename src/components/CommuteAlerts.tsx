@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react';
+import { Bell, X } from 'lucide-react';
+import { useCommuteAlertStore } from '../stores/commuteAlertStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatArrivalTime } from '../utils/timetableCalculations';
+import { showNotification } from '../utils/notifications';
+
+const SNOOZE_MINUTES = 5;
+
+// Reminders to leave for saved commutes, as notifications and on the page
+const CommuteAlerts = () => {
+  const { t } = useLanguage();
+  const { activeAlerts, startChecking, stopChecking, snooze, dismiss } = useCommuteAlertStore();
+  // The store subscription is set up once, so it reads the current language through a ref
+  const translateRef = useRef(t);
+  useEffect(() => {
+    translateRef.current = t;
+  }, [t]);
+
+  useEffect(() => {
+    startChecking();
+    return stopChecking;
+  }, [startChecking, stopChecking]);
+
+  // Notify about each alert once, when it becomes due
+  useEffect(() => useCommuteAlertStore.subscribe((state, previous) => {
+    const t = translateRef.current;
+    for (const alert of state.activeAlerts.filter(alert => !previous.activeAlerts.includes(alert))) {
+      void showNotification({
+        tag: `commute-${alert.commuteId}`,
+        title: `${t('timeToLeave')}: ${alert.name}`,
+        body: `${t('leaveAt')} ${formatArrivalTime(alert.leaveAt)} • ${alert.trainName} ${formatArrivalTime(alert.trainDeparture)}`,
+        actions: [
+          { action: 'snooze', title: `${t('snooze')} ${SNOOZE_MINUTES} ${t('min')}` },
+          { action: 'dismiss', title: t('dismiss') }
+        ],
+        data: { commuteId: alert.commuteId }
+      });
+    }
+  }), []);
+
+  // Snooze and dismiss from the notification's buttons
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const { type, commuteId } = event.data ?? {};
+      if (type === 'COMMUTE_ALERT_SNOOZE') snooze(commuteId, SNOOZE_MINUTES);
+      if (type === 'COMMUTE_ALERT_DISMISS') dismiss(commuteId);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [snooze, dismiss]);
+
+  if (activeAlerts.length === 0) return null;
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-50 w-[90vw] max-w-sm space-y-2">
+      {activeAlerts.map(alert => (
+        <div key={alert.commuteId} className="bg-white border border-blue-200 rounded-lg shadow-lg p-3">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2">
+              <Bell className="w-4 h-4 mt-0.5 text-blue-600" />
+              <div>
+                <div className="text-sm font-semibold text-gray-900">{t('timeToLeave')}: {alert.name}</div>
+                <div className="text-xs text-gray-600">
+                  {t('leaveAt')} {formatArrivalTime(alert.leaveAt)} • {alert.trainName} {formatArrivalTime(alert.trainDeparture)}
+                </div>
+              </div>
+            </div>
+            <button onClick={() => dismiss(alert.commuteId)} className="p-1 text-gray-400 hover:text-gray-600" aria-label={t('dismiss')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => snooze(alert.commuteId, SNOOZE_MINUTES)}
+            className="mt-2 text-xs text-blue-700 hover:text-blue-800"
+          >
+            {t('snooze')} {SNOOZE_MINUTES} {t('min')}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CommuteAlerts;
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Maximize, Pause, Play, X } from 'lucide-react';
+import { stations } from '../data/stations';
+import { useTrainStore } from '../stores/trainStore';
+import { getSimulationTime } from '../stores/clockStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatArrivalTime, getDepartureBoard, type BoardDeparture, type DirectionBoard } from '../utils/timetableCalculations';
+import { getAbbreviatedDestination } from '../utils/trainNaming';
+import { updateDeepLink } from '../utils/deepLinks';
+
+const ROWS_PER_DIRECTION = 6;
+const ROTATE_SECONDS = 12;
+
+// The far end of the line in each direction, for the board headings
+const LINE_ENDS = { forward: 'Gebze', backward: 'Halkalı' } as const;
+
+const SERVICE_KEYS: Record<string, string> = {
+  'marmaray-full': 'fullLine',
+  'marmaray-short': 'shortService',
+  'marmaray-evening': 'eveningService'
+};
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const Countdown = ({ departure, now }: { departure: BoardDeparture; now: Date }) => {
+  const { t } = useLanguage();
+  const seconds = Math.round((departure.departureTime.getTime() - now.getTime()) / 1000);
+
+  if (seconds <= 0) return <span className="text-green-400">{t('departing')}</span>;
+  if (departure.arrivalTime <= now) return <span className="text-green-400">{t('trainPopupAtStation')}</span>;
+  return <span>{formatCountdown(seconds)}</span>;
+};
+
+// Full-screen platform display for one station, opened with the openDepartureBoard event
+const DepartureBoard = () => {
+  const { t } = useLanguage();
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [now, setNow] = useState(getSimulationTime);
+  const [board, setBoard] = useState<DirectionBoard[]>([]);
+  const [directionIndex, setDirectionIndex] = useState(0);
+  const [rotating, setRotating] = useState(true);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const lastUpdateRef = useRef<Date | null>(null);
+
+  const station = stations.find(s => s.id === stationId);
+
+  useEffect(() => {
+    const handleOpen = (event: CustomEvent) => {
+      setStationId(event.detail.stationId);
+      setDirectionIndex(0);
+    };
+
+    window.addEventListener('openDepartureBoard', handleOpen as EventListener);
+    return () => window.removeEventListener('openDepartureBoard', handleOpen as EventListener);
+  }, []);
+
+  // Count down every second and work the departures out again after 15 simulated seconds
+  useEffect(() => {
+    if (!stationId) return;
+
+    const update = () => {
+      const time = getSimulationTime();
+      setNow(time);
+      const lastUpdate = lastUpdateRef.current;
+      if (!lastUpdate || Math.abs(time.getTime() - lastUpdate.getTime()) >= 15000) {
+        lastUpdateRef.current = time;
+        setBoard(getDepartureBoard(stationId, useTrainStore.getState().trainPositions, ROWS_PER_DIRECTION, time));
+      }
+    };
+
+    lastUpdateRef.current = null;
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [stationId]);
+
+  useEffect(() => {
+    if (!stationId || !rotating) return;
+    const interval = setInterval(() => setDirectionIndex(index => index + 1), ROTATE_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [stationId, rotating]);
+
+  // Keep a wall screen from going to sleep while the board is shown
+  useEffect(() => {
+    if (!stationId || !('wakeLock' in navigator)) return;
+
+    let released = false;
+    let wakeLock: WakeLockSentinel | null = null;
+    navigator.wakeLock.request('screen')
+      .then(lock => {
+        if (released) {
+          void lock.release();
+        } else {
+          wakeLock = lock;
+        }
+      })
+      .catch(() => {
+        // Not allowed, e.g. when the page is hidden
+      });
+
+    return () => {
+      released = true;
+      void wakeLock?.release();
+    };
+  }, [stationId]);
+
+  useEffect(() => {
+    if (station) updateDeepLink({ board: station.id });
+  }, [station]);
+
+  const handleClose = useCallback(() => {
+    if (document.fullscreenElement) void document.exitFullscreen();
+    setStationId(null);
+    updateDeepLink({ board: undefined });
+  }, []);
+
+  // Escape leaves full screen first, then closes the board
+  useEffect(() => {
+    if (!stationId) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !document.fullscreenElement) handleClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stationId, handleClose]);
+
+  const toggleFullScreen = () => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+    } else {
+      void boardRef.current?.requestFullscreen();
+    }
+  };
+
+  if (!station) return null;
+
+  // Only rotate between directions with trains, e.g. one at a terminus
+  const directions = board.filter(direction => direction.departures.length > 0);
+  const shown = directions.length > 0 ? directions[directionIndex % directions.length] : null;
+
+  return (
+    <div ref={boardRef} className="fixed inset-0 z-[70] bg-black text-amber-400 font-mono flex flex-col select-none">
+      {/* Station and clock */}
+      <div className="flex items-center justify-between px-4 sm:px-8 py-3 sm:py-5 border-b border-gray-800">
+        <h2 className="text-2xl sm:text-5xl font-bold text-white truncate">{station.name}</h2>
+        <div className="flex items-center space-x-2 sm:space-x-4">
+          <span className="text-2xl sm:text-5xl text-white tabular-nums">
+            {now.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+          </span>
+          <button
+            onClick={() => setRotating(!rotating)}
+            className="p-2 text-gray-500 hover:text-white"
+            aria-label={rotating ? t('pauseRotation') : t('resumeRotation')}
+          >
+            {rotating ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button onClick={toggleFullScreen} className="p-2 text-gray-500 hover:text-white" aria-label={t('fullScreen')}>
+            <Maximize className="w-5 h-5" />
+          </button>
+          <button onClick={handleClose} className="p-2 text-gray-500 hover:text-white" aria-label={t('close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Directions */}
+      <div className="flex px-4 sm:px-8 pt-3 space-x-2">
+        {board.map(direction => (
+          <button
+            key={direction.direction}
+            onClick={() => setDirectionIndex(Math.max(0, directions.indexOf(direction)))}
+            disabled={direction.departures.length === 0}
+            className={`px-3 py-1 sm:text-xl rounded-t ${
+              direction === shown ? 'bg-amber-400 text-black font-bold' : 'text-gray-500 disabled:opacity-40'
+            }`}
+          >
+            {LINE_ENDS[direction.direction]} {direction.direction === 'forward' ? '▶' : '◀'}
+            <span className="ml-2 text-xs sm:text-sm font-normal">
+              {direction.direction === 'forward' ? t('eastbound') : t('westbound')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Departures */}
+      <div className="flex-1 overflow-hidden px-4 sm:px-8 border-t-2 border-amber-400">
+        {shown ? (
+          <table className="w-full text-lg sm:text-4xl">
+            <thead>
+              <tr className="text-left text-xs sm:text-lg text-gray-500">
+                <th className="py-2 font-normal">{t('departs')}</th>
+                <th className="py-2 font-normal">{t('destination')}</th>
+                <th className="py-2 font-normal hidden sm:table-cell" />
+                <th className="py-2 font-normal text-right" />
+              </tr>
+            </thead>
+            <tbody>
+              {shown.departures.map((departure, index) => (
+                <tr key={departure.trainId} className="border-t border-gray-800 align-top">
+                  <td className="py-2 sm:py-4 pr-4 tabular-nums">{formatArrivalTime(departure.departureTime)}</td>
+                  <td className="py-2 sm:py-4 pr-4">
+                    <span className="font-bold">{getAbbreviatedDestination(departure.finalDestination)}</span>
+                    <span className="ml-3 text-amber-200">{departure.finalDestination}</span>
+                    {index === 0 && (
+                      <div className="mt-1 text-xs sm:text-xl text-amber-200/80 leading-snug">
+                        {t('callingAt')}: {departure.callingAt.join(' • ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 sm:py-4 pr-4 hidden sm:table-cell text-base sm:text-2xl text-amber-200">
+                    {t(SERVICE_KEYS[departure.routeId] ?? departure.routeName)}
+                    {departure.delay >= 60 && (
+                      <div className="text-red-500">+{Math.round(departure.delay / 60)} {t('min')}</div>
+                    )}
+                  </td>
+                  <td className="py-2 sm:py-4 text-right tabular-nums whitespace-nowrap">
+                    <Countdown departure={departure} now={now} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="py-16 text-center text-2xl sm:text-4xl">{t('noDeparturesSoon')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DepartureBoard;
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { useExclusionStore } from '../stores/exclusionStore';
+import { diffExclusions, getCommittedExclusions, hasExclusionChanges, patchExclusionSource } from '../utils/exclusionPatch';
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Railway debug panel for editing the excluded railway features - development only
+const ExclusionEditor = () => {
+  const {
+    exclusions,
+    isPreviewing,
+    isPreviewCurrent,
+    previewError,
+    excludeFeatures,
+    includeFeatures,
+    resetExclusions,
+    previewExclusions,
+    closePreview
+  } = useExclusionStore();
+  const [entry, setEntry] = useState('');
+
+  // Leaving the debug tools ends the preview
+  useEffect(() => () => void closePreview(), [closePreview]);
+
+  const changes = diffExclusions(getCommittedExclusions(), exclusions);
+  const hasChanges = hasExclusionChanges(changes);
+
+  // Numbers are way ids, anything else is a feature name
+  const handleAdd = () => {
+    const value = entry.trim();
+    if (!value) return;
+    const ids = value.split(/[\s,]+/).map(Number);
+    if (ids.every(id => Number.isInteger(id) && id > 0)) {
+      excludeFeatures({ ids });
+    } else {
+      excludeFeatures({ names: [value] });
+    }
+    setEntry('');
+  };
+
+  const handleDownloadSource = async () => {
+    // Only the debug tools need the file's source, so it stays out of the bundle otherwise
+    const source = (await import('../data/excludedRailwaySegments.ts?raw')).default;
+    downloadFile('excludedRailwaySegments.ts', patchExclusionSource(source, changes), 'text/typescript;charset=utf-8');
+  };
+
+  const handleDownloadJson = () => {
+    downloadFile('railway-exclusions.json', JSON.stringify({ ...changes, exclusions }, null, 2), 'application/json');
+  };
+
+  const changeRows: { label: string; values: (string | number)[]; undo: (value: string | number) => void }[] = [
+    { label: 'Added IDs', values: changes.addedIds, undo: id => includeFeatures({ ids: [Number(id)] }) },
+    { label: 'Removed IDs', values: changes.removedIds, undo: id => excludeFeatures({ ids: [Number(id)] }) },
+    { label: 'Added names', values: changes.addedNames, undo: name => includeFeatures({ names: [String(name)] }) },
+    { label: 'Removed names', values: changes.removedNames, undo: name => excludeFeatures({ names: [String(name)] }) }
+  ];
+
+  return (
+    <div className="absolute bottom-20 right-4 bg-white border border-gray-300 rounded-lg shadow-lg p-4 w-80 max-h-96 overflow-y-auto z-20 text-xs">
+      <h3 className="font-bold text-sm mb-1">🚫 Excluded Railway Features</h3>
+      <div className="text-gray-600 mb-3">
+        {exclusions.ids.length} IDs, {exclusions.names.length} names
+        {hasChanges ? ' • edited' : ' • as committed'}
+        {!isPreviewCurrent && ' • not previewed'}
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <input
+          value={entry}
+          onChange={(e) => setEntry(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Way IDs or a name"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+        />
+        <button onClick={handleAdd} className="px-2 py-1 bg-red-500 text-white rounded">
+          Exclude
+        </button>
+      </div>
+
+      {changeRows.filter(row => row.values.length > 0).map(row => (
+        <div key={row.label} className="mb-2">
+          <div className="font-semibold text-gray-700">{row.label}</div>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {row.values.map(value => (
+              <button
+                key={value}
+                onClick={() => row.undo(value)}
+                title="Undo"
+                className="px-1.5 py-0.5 bg-gray-100 hover:bg-gray-200 rounded"
+              >
+                {value} ✕
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="mt-3 pt-2 border-t border-gray-200 space-y-2">
+        <button
+          onClick={() => void previewExclusions()}
+          disabled={isPreviewing}
+          className="w-full px-3 py-2 bg-orange-500 text-white rounded text-sm font-medium disabled:opacity-50"
+        >
+          {isPreviewing ? '⏳ Rebuilding track...' : '👁️ Preview Route'}
+        </button>
+        {previewError && (
+          <div className="text-red-600">Preview failed: {previewError}</div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={() => void handleDownloadSource()}
+            disabled={!hasChanges}
+            className="flex-1 px-2 py-1 bg-blue-600 text-white rounded disabled:opacity-50"
+          >
+            ⬇️ .ts file
+          </button>
+          <button
+            onClick={handleDownloadJson}
+            className="flex-1 px-2 py-1 bg-indigo-600 text-white rounded"
+          >
+            ⬇️ JSON
+          </button>
+          <button
+            onClick={resetExclusions}
+            disabled={!hasChanges}
+            className="flex-1 px-2 py-1 bg-gray-200 text-gray-700 rounded disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExclusionEditor;
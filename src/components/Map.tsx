@@ -1,22 +1,94 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 // Import our data
 import { stations } from '../data/stations';
+import { getStationConnections } from '../utils/transitConnections';
 import { useTrainStore } from '../stores/trainStore';
 import { useTimetableStore } from '../stores/timetableStore';
 import { useJourneyStore } from '../stores/journeyStore';
-import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
+import { useExclusionStore } from '../stores/exclusionStore';
+import { getSimulationTime, useClockStore } from '../stores/clockStore';
+import type { TrainPosition } from '../utils/trainSimulation';
+import type { PositionEngineType } from '../utils/positionEngine';
+import { parseDeepLink, parseServiceDate, updateDeepLink } from '../utils/deepLinks';
+import { formatDateKey } from '../utils/serviceCalendar';
+import { getServiceDate, getTripById, tripTimeToDate } from '../utils/timetableEngine';
+import { getStationChainage, loadLinearReferencing, locateLine } from '../utils/linearReferencing';
 // Import the real Marmaray railway geometry
-import marmarayTrackGeometry from '../data/marmaray-track-geometry.json';
+import trackDisplay from '../data/track-display.json';
+import ExclusionEditor from './ExclusionEditor';
 
 interface MapProps {
   className?: string;
 }
 
+// Feature properties for a train on the map, also shown in its popup
+const getTrainProperties = (position: TrainPosition) => ({
+  trainId: position.trainId,
+  displayName: position.displayName,
+  fullName: position.fullName,
+  routeId: position.routeId,
+  // The route calculator already handles direction, so the bearing is used as is
+  bearing: position.bearing,
+  direction: position.direction,
+  fromStation: position.currentSegment.fromStation.name,
+  toStation: position.currentSegment.toStation.name,
+  isDwelling: position.isDwelling,
+  speed: position.speed,
+  chainage: position.chainage !== null ? Math.round(position.chainage * 10) / 10 : null,
+  delayMinutes: Math.round(position.delay / 60),
+  progress: Math.round(position.progress * 100)
+});
+
+type TrainProperties = ReturnType<typeof getTrainProperties>;
+
+const getTrainPopupHTML = (properties: TrainProperties, t: (key: string) => string) => {
+  const routeNames: Record<string, string> = {
+    'marmaray-full': `${t('fullLine')} (${t('endpoints.halkalı-gebze')})`,
+    'marmaray-short': `${t('shortService')} (${t('endpoints.ataköy-pendik')})`, 
+    'marmaray-evening': `${t('eveningService')} (${t('endpoints.pendik-zeytinburnu')})`
+  };
+
+  // Get destination based on direction
+  const getDestination = (routeId: string, direction: string) => {
+    if (routeId === 'marmaray-full') {
+      return direction === 'forward' ? 'Gebze' : 'Halkalı';
+    } else if (routeId === 'marmaray-short') {
+      return direction === 'forward' ? 'Pendik' : 'Ataköy';
+    } else if (routeId === 'marmaray-evening') {
+      return direction === 'forward' ? 'Zeytinburnu' : 'Pendik';
+    }
+    return direction === 'forward' ? 'Forward' : 'Backward';
+  };
+
+  return `
+    <div style="padding: 8px;">
+      <h3 style="margin: 0 0 4px 0; font-size: 14px; font-weight: bold;">
+        ${properties.displayName || `${t('train')} ${properties.trainId}`}
+      </h3>
+      <p style="margin: 0 0 2px 0; font-size: 12px; color: #0066CC; font-weight: 500;">
+        ${properties.fullName || `${routeNames[properties.routeId] || properties.routeId}`}
+      </p>
+      <p style="margin: 0 0 2px 0; font-size: 12px;">
+        ${t('trainPopupDirection')}: ${getDestination(properties.routeId, properties.direction)} ${properties.direction === 'forward' ? '▶' : '◀'}
+      </p>
+      <p style="margin: 0; font-size: 12px; color: #666;">
+        ${properties.isDwelling
+          ? `${t('trainPopupAtStation')}: ${properties.fromStation}`
+          : `${properties.fromStation} → ${properties.toStation}`}
+      </p>
+      <p style="margin: 2px 0 0 0; font-size: 11px; color: #999;">
+        ${t('trainPopupProgress')}: ${properties.progress}% • ${t('trainPopupSpeed')}: ${properties.speed} km/h • ${typeof properties.chainage === 'number' ? `km ${properties.chainage.toFixed(1)} • ` : ''}${routeNames[properties.routeId] || properties.routeId}
+        ${properties.delayMinutes > 0 ? `<span style="color: #DC2626;"> • +${properties.delayMinutes} ${t('min')}</span>` : ''}
+      </p>
+    </div>
+  `;
+};
+
 const Map = ({ className = '' }: MapProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
@@ -27,20 +99,44 @@ const Map = ({ className = '' }: MapProps) => {
   const [selectedAreaFeatures, setSelectedAreaFeatures] = useState<any[]>([]);
   const [_selectionBox, setSelectionBox] = useState<mapboxgl.LngLatBounds | null>(null);
   const { t } = useLanguage();
+  // Map handlers are registered once, so they read the current language through a ref
+  const translateRef = useRef(t);
+  useEffect(() => {
+    translateRef.current = t;
+  }, [t]);
+  // The open train popup, and the train from the deep link until it is on the map
+  const trainPopupRef = useRef<mapboxgl.Popup | null>(null);
+  const pendingTrainRef = useRef(parseDeepLink(window.location.search).train ?? null);
   
   // Train simulation state
   const { 
     trainPositions, 
     startSimulation, 
     stopSimulation, 
-    isSimulationRunning 
+    isSimulationRunning,
+    positionEngine,
+    setPositionEngine
   } = useTrainStore();
 
   // Timetable state
   const { selectStation } = useTimetableStore();
+
+  // Railway debug exclusion list
+  const { exclusions, previewTrack, excludeFeatures, includeFeatures } = useExclusionStore();
   
   // Journey planner state
-  const { fromStation, toStation, setFromStation, setToStation } = useJourneyStore();
+  const { 
+    fromStation, 
+    toStation, 
+    setFromStation, 
+    setToStation,
+    fromPoint,
+    toPoint,
+    pickingPoint,
+    setFromPoint,
+    setToPoint,
+    setPickingPoint
+  } = useJourneyStore();
   // Suppress unused variable warnings for now
   void fromStation; void toStation; void setFromStation; void setToStation;
 
@@ -48,85 +144,10 @@ const Map = ({ className = '' }: MapProps) => {
   const addMarmarayRoutes = useCallback(() => {
     if (!map.current) return;
 
-    // Filter the railway data to show only main Marmaray passenger line
-    // Remove maintenance facilities, freight lines, and extensions beyond service area
-    const filteredFeatures = marmarayTrackGeometry.features.filter(feature => {
-      const props = feature.properties;
-      const coords = feature.geometry.coordinates;
-      
-      // Skip if no coordinates
-      if (!coords || coords.length === 0) return false;
-      
-      // Skip excluded railway lines by name (non-Marmaray lines)
-      if (props.name && excludedRailwayNames.includes(props.name)) {
-        console.log(`🚫 Map filtering: Excluding "${props.name}"`);
-        return false;
-      }
-      
-      // Exclude by specific IDs that are known to be problematic
-      if (props.id && excludedRailwayIds.includes(props.id)) {
-        console.log(`🚫 Map filtering: Excluding feature with ID ${props.id}`);
-        return false;
-      }
-      
-      // Get approximate bounds of the feature
-      const lngs = coords.map(c => c[0]);
-      const lats = coords.map(c => c[1]);
-      const minLng = Math.min(...lngs);
-      const maxLng = Math.max(...lngs);
-      const minLat = Math.min(...lats);
-      const maxLat = Math.max(...lats);
-      
-      // Filter out tracks beyond Marmaray service area
-      // Halkalı: 28.766, Gebze: 29.409 - need wider bounds for full service area
-      if (minLng < 28.70 || maxLng > 29.50) return false;
-      
-      // Filter out tracks beyond the Marmaray corridor
-      // Gebze is at 40.784, so we need to allow southern sections
-      // But filter out unrelated lines north and south
-      if (maxLat < 40.70 || minLat > 41.10) return false;
-      
-      // Filter out obvious maintenance/freight facilities
-      if (props.railway === 'rail') {
-        // Keep main passenger lines
-        if (props.name === 'Marmaray') return true;
-        
-        // Keep electrified passenger lines with standard gauge
-        if (props.electrified && props.gauge === '1435' && 
-            ((props as any).usage === 'main' || !(props as any).usage)) {
-          return true;
-        }
-        
-        // Skip service tracks, sidings, freight lines
-        if ((props as any).service || (props as any).usage === 'freight' || 
-            (props as any).usage === 'industrial' || (props as any).usage === 'branch') {
-          return false;
-        }
-        
-        // Skip maintenance yard tracks and depot facilities
-        if ((props as any).service === 'yard' || (props as any).service === 'depot' || 
-            (props as any).service === 'crossover' || (props as any).service === 'spur') {
-          return false;
-        }
-        
-        // Skip tracks with very few coordinate points (likely connectors/sidings)
-        if (coords.length < 3) return false;
-        
-        return true;
-      }
-      
-      return false;
-    });
-
-    const filteredGeoJSON = {
-      type: 'FeatureCollection' as const,
-      features: filteredFeatures
-    };
-
-    // Add the filtered Marmaray railway tracks
+    // Add the Marmaray railway tracks, picked from the railway data at build time
     map.current.addSource('marmaray-tracks', {
       type: 'geojson',
-      data: filteredGeoJSON as any
+      data: (useExclusionStore.getState().previewTrack ?? trackDisplay) as GeoJSON.FeatureCollection
     });
 
     // Add main railway line (surface tracks)
@@ -203,7 +224,6 @@ const Map = ({ className = '' }: MapProps) => {
       }
     });
 
-    console.log(`Filtered to ${filteredFeatures.length} railway segments from ${marmarayTrackGeometry.features.length} total`);
   }, []);
 
   const addStationMarkers = useCallback(() => {
@@ -219,7 +239,7 @@ const Map = ({ className = '' }: MapProps) => {
           properties: {
             id: station.id,
             name: station.name,
-            distance: station.distanceFromStart
+            distance: getStationChainage(station.id)
           },
           geometry: {
             type: 'Point',
@@ -276,6 +296,8 @@ const Map = ({ className = '' }: MapProps) => {
     // Add click handler for stations
     map.current.on('click', 'stations', (e) => {
       if (!e.features || e.features.length === 0) return;
+      // The click is picking a route planner point instead
+      if (useJourneyStore.getState().pickingPoint) return;
       
       const station = e.features[0];
       const properties = station.properties;
@@ -283,6 +305,26 @@ const Map = ({ className = '' }: MapProps) => {
       // Get the station ID from the properties
       const stationId = properties?.id;
       if (stationId) {
+        // Name and connecting lines at the station
+        const t = translateRef.current;
+        const connections = getStationConnections(stationId).map(connection => `
+          <p style="margin: 2px 0 0 0; font-size: 12px;">
+            <span style="background: ${connection.color}; color: white; font-weight: 600; padding: 0 4px; border-radius: 3px;">${connection.lineId}</span>
+            ${connection.name}
+            <span style="color: #666;">• ${Math.round(connection.walkTime / 60)} ${t('min')} ${t('walk')}</span>
+          </p>
+        `).join('');
+
+        new mapboxgl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(`
+            <div style="padding: 8px;">
+              <h3 style="margin: 0 0 4px 0; font-size: 14px; font-weight: bold;">${properties?.name}</h3>
+              ${connections ? `<p style="margin: 0; font-size: 11px; color: #999;">${t('connections')}</p>${connections}` : ''}
+            </div>
+          `)
+          .addTo(map.current!);
+
         // Open the station timetable
         selectStation(stationId);
         
@@ -307,6 +349,26 @@ const Map = ({ className = '' }: MapProps) => {
     });
   }, [selectStation]);
 
+  // Show a train's popup and put the train in the deep link while it is open
+  const showTrainPopup = useCallback((coordinates: [number, number], properties: TrainProperties) => {
+    if (!map.current) return;
+
+    const popup = new mapboxgl.Popup()
+      .setLngLat(coordinates)
+      .setHTML(getTrainPopupHTML(properties, translateRef.current))
+      .addTo(map.current);
+    trainPopupRef.current = popup;
+    updateDeepLink({ train: properties.trainId, day: formatDateKey(getServiceDate(getSimulationTime())) });
+
+    // Clicking another train opens its popup before this one closes
+    popup.on('close', () => {
+      if (trainPopupRef.current === popup) {
+        trainPopupRef.current = null;
+        updateDeepLink({ train: undefined, day: undefined });
+      }
+    });
+  }, []);
+
   const addTrainLayer = useCallback(() => {
     if (!map.current) return;
 
@@ -370,49 +432,10 @@ const Map = ({ className = '' }: MapProps) => {
       if (!e.features || e.features.length === 0) return;
       
       const train = e.features[0];
-      const coordinates = (train.geometry as GeoJSON.Point).coordinates.slice();
+      const coordinates = (train.geometry as GeoJSON.Point).coordinates;
       const properties = train.properties;
 
-      const routeNames: Record<string, string> = {
-        'marmaray-full': `${t('fullLine')} (${t('endpoints.halkalı-gebze')})`,
-        'marmaray-short': `${t('shortService')} (${t('endpoints.ataköy-pendik')})`, 
-        'marmaray-evening': `${t('eveningService')} (${t('endpoints.pendik-zeytinburnu')})`
-      };
-
-      // Get destination based on direction
-      const getDestination = (routeId: string, direction: string) => {
-        if (routeId === 'marmaray-full') {
-          return direction === 'forward' ? 'Gebze' : 'Halkalı';
-        } else if (routeId === 'marmaray-short') {
-          return direction === 'forward' ? 'Pendik' : 'Ataköy';
-        } else if (routeId === 'marmaray-evening') {
-          return direction === 'forward' ? 'Zeytinburnu' : 'Pendik';
-        }
-        return direction === 'forward' ? 'Forward' : 'Backward';
-      };
-
-      new mapboxgl.Popup()
-        .setLngLat([coordinates[0], coordinates[1]])
-        .setHTML(`
-          <div style="padding: 8px;">
-            <h3 style="margin: 0 0 4px 0; font-size: 14px; font-weight: bold;">
-              ${properties?.displayName || `${t('train')} ${properties?.trainId}`}
-            </h3>
-            <p style="margin: 0 0 2px 0; font-size: 12px; color: #0066CC; font-weight: 500;">
-              ${properties?.fullName || `${routeNames[properties?.routeId] || properties?.routeId}`}
-            </p>
-            <p style="margin: 0 0 2px 0; font-size: 12px;">
-              ${t('trainPopupDirection')}: ${getDestination(properties?.routeId, properties?.direction)} ${properties?.direction === 'forward' ? '▶' : '◀'}
-            </p>
-            <p style="margin: 0; font-size: 12px; color: #666;">
-              ${properties?.fromStation} → ${properties?.toStation}
-            </p>
-            <p style="margin: 2px 0 0 0; font-size: 11px; color: #999;">
-              ${t('trainPopupProgress')}: ${properties?.progress}% • ${routeNames[properties?.routeId] || properties?.routeId}
-            </p>
-          </div>
-        `)
-        .addTo(map.current!);
+      showTrainPopup([coordinates[0], coordinates[1]], properties as TrainProperties);
     };
 
     map.current.on('click', 'trains', handleTrainClick);
@@ -426,14 +449,24 @@ const Map = ({ className = '' }: MapProps) => {
       
       if (features && features.length > 0) {
         const feature = features[0];
-        console.log('🛤️ Clicked railway feature:', feature.properties);
-        
+
+        const coordinates = feature.geometry.type === 'LineString' ? feature.geometry.coordinates : null;
+
         // Always set the info, the UI will decide whether to show it based on debug mode
         setClickedRailwayInfo({
           ...feature.properties,
-          coordinates: feature.geometry.type === 'LineString' ? 
-            (feature.geometry as any).coordinates : null
+          coordinates
         });
+
+        // Where the feature lies along the line, once the route geometry has loaded
+        if (coordinates) {
+          void loadLinearReferencing().then(() => {
+            const chainage = locateLine(coordinates.map(([lng, lat]) => ({ lng, lat })));
+            if (!chainage) return;
+            setClickedRailwayInfo((info: typeof clickedRailwayInfo) =>
+              info?.id === feature.properties?.id ? { ...info, chainage } : info);
+          });
+        }
       }
     };
 
@@ -466,7 +499,7 @@ const Map = ({ className = '' }: MapProps) => {
       map.current!.on('mouseenter', layerId, setCursorPointer);
       map.current!.on('mouseleave', layerId, setCursorDefault);
     });
-  }, []);
+  }, [showTrainPopup]);
 
   // Calculate geographic bearing for rotation
 
@@ -496,8 +529,9 @@ const Map = ({ className = '' }: MapProps) => {
   }, [isPointInPolygon]);
 
   // Function to get railway features in selected polygon
-  const getRailwayFeaturesInPolygon = useCallback((polygon: [number, number][]) => {
-    const geoData = marmarayTrackGeometry as any;
+  const getRailwayFeaturesInPolygon = useCallback(async (polygon: [number, number][]) => {
+    // All railway features, not just the drawn ones; only loaded for the debug tools
+    const geoData = (await import('../data/marmaray-track-geometry.json')).default as any;
     const featuresInArea: any[] = [];
 
     for (const feature of geoData.features) {
@@ -532,78 +566,19 @@ const Map = ({ className = '' }: MapProps) => {
     return bearing;
   }, []);
 
-  // Apply offset to prevent overlapping trains
-  const applyTrainOffset = useCallback((positions: typeof trainPositions) => {
-    const offsetDistance = 0.0008; // Small offset in degrees (~90 meters)
-    const clusteredPositions: { [key: string]: typeof trainPositions } = {};
-
-    // Group trains by approximate location (same segment)
-    positions.forEach(position => {
-      const key = `${position.currentSegment.fromStationId}-${position.currentSegment.toStationId}-${Math.floor(position.progress * 10)}`;
-      if (!clusteredPositions[key]) {
-        clusteredPositions[key] = [];
-      }
-      clusteredPositions[key].push(position);
-    });
-
-    // Apply offsets to overlapping trains
-    const offsetPositions = [];
-    for (const cluster of Object.values(clusteredPositions)) {
-      if (cluster.length === 1) {
-        // Single train, no offset needed
-        offsetPositions.push(cluster[0]);
-      } else {
-        // Multiple trains, apply circular offset pattern
-        cluster.forEach((train, index) => {
-          const angle = (index * 2 * Math.PI) / cluster.length; // Distribute in circle
-          const offsetX = Math.cos(angle) * offsetDistance;
-          const offsetY = Math.sin(angle) * offsetDistance;
-          
-          offsetPositions.push({
-            ...train,
-            coordinates: [
-              train.coordinates[0] + offsetX,
-              train.coordinates[1] + offsetY
-            ] as [number, number]
-          });
-        });
-      }
-    }
-
-    return offsetPositions;
-  }, []);
-
   // Update train positions on the map
   const updateTrainsOnMap = useCallback(() => {
     if (!map.current || !map.current.getSource('trains')) return;
 
-    // Apply offsets to prevent overlapping
-    const offsetTrainPositions = applyTrainOffset(trainPositions);
-
-    const trainFeatures = offsetTrainPositions.map(position => {
-      // Use the bearing calculated by the route calculator
-      // The route calculator already handles direction properly, so no adjustment needed
-      const bearing = position.bearing;
-
-      return {
-        type: 'Feature' as const,
-        properties: {
-          trainId: position.trainId,
-          displayName: position.displayName,
-          fullName: position.fullName,
-          routeId: position.routeId,
-          bearing: bearing,
-          direction: position.direction,
-          fromStation: position.currentSegment.fromStation.name,
-          toStation: position.currentSegment.toStation.name,
-          progress: Math.round(position.progress * 100)
-        },
-        geometry: {
-          type: 'Point' as const,
-          coordinates: position.coordinates
-        }
-      };
-    });
+    // Block sections keep trains on the same track apart, so no spreading out is needed
+    const trainFeatures = trainPositions.map(position => ({
+      type: 'Feature' as const,
+      properties: getTrainProperties(position),
+      geometry: {
+        type: 'Point' as const,
+        coordinates: position.coordinates
+      }
+    }));
 
     // Update train positions smoothly
     const trainsSource = map.current.getSource('trains') as mapboxgl.GeoJSONSource;
@@ -613,7 +588,7 @@ const Map = ({ className = '' }: MapProps) => {
         features: trainFeatures
       });
     }
-  }, [trainPositions, calculateBearing, applyTrainOffset]);
+  }, [trainPositions, calculateBearing]);
 
   // Main map initialization effect
   useEffect(() => {
@@ -678,6 +653,35 @@ const Map = ({ className = '' }: MapProps) => {
     updateTrainsOnMap();
   }, [updateTrainsOnMap]);
 
+  // Draw the track of the previewed exclusion list, or the built one again
+  useEffect(() => {
+    const tracksSource = map.current?.getSource('marmaray-tracks') as mapboxgl.GeoJSONSource | undefined;
+    tracksSource?.setData((previewTrack ?? trackDisplay) as GeoJSON.FeatureCollection);
+  }, [previewTrack]);
+
+  // A train linked on another service day is shown by moving the clock to when it leaves that day
+  useEffect(() => {
+    const { train, day } = parseDeepLink(window.location.search);
+    const serviceDate = parseServiceDate(day);
+    const trip = train ? getTripById(train) : undefined;
+    if (!trip || !serviceDate || formatDateKey(getServiceDate(getSimulationTime())) === day) return;
+
+    useClockStore.getState().setTime(tripTimeToDate(serviceDate, trip.stops[0].departureTime));
+  }, []);
+
+  // Fly to the train from the deep link once it is running and the map is ready
+  useEffect(() => {
+    const trainId = pendingTrainRef.current;
+    if (!trainId || !map.current?.getSource('trains')) return;
+
+    const position = trainPositions.find(p => p.trainId === trainId);
+    if (!position) return;
+
+    pendingTrainRef.current = null;
+    map.current.flyTo({ center: position.coordinates, zoom: 14 });
+    showTrainPopup(position.coordinates, getTrainProperties(position));
+  }, [trainPositions, showTrainPopup]);
+
   // Handle selection mode changes
   useEffect(() => {
     if (!map.current) return;
@@ -795,11 +799,7 @@ const Map = ({ className = '' }: MapProps) => {
         }
         
         // Get railway features in the selected polygon
-        const featuresInArea = getRailwayFeaturesInPolygon(polygonPoints);
-        
-        setSelectedAreaFeatures(featuresInArea);
-        
-        console.log(`🔍 Found ${featuresInArea.length} railway features in selected area:`, featuresInArea);
+        void getRailwayFeaturesInPolygon(polygonPoints).then(setSelectedAreaFeatures);
       }
       
       // Re-enable map dragging
@@ -837,6 +837,44 @@ const Map = ({ className = '' }: MapProps) => {
     };
   }, [selectionMode, getRailwayFeaturesInPolygon]);
 
+  // Pick the route planner's origin or destination with the next click on the map
+  useEffect(() => {
+    if (!map.current || !pickingPoint) return;
+
+    const onClick = (e: mapboxgl.MapMouseEvent) => {
+      const point = { coordinates: [e.lngLat.lng, e.lngLat.lat] as [number, number] };
+      if (pickingPoint === 'from') {
+        setFromPoint(point);
+      } else {
+        setToPoint(point);
+      }
+      window.dispatchEvent(new CustomEvent('openRoutePlanner'));
+    };
+
+    map.current.once('click', onClick);
+    map.current.getCanvas().style.cursor = 'crosshair';
+
+    return () => {
+      if (map.current) {
+        map.current.off('click', onClick);
+        map.current.getCanvas().style.cursor = '';
+      }
+    };
+  }, [pickingPoint, setFromPoint, setToPoint]);
+
+  // Pins for the route planner's origin and destination points
+  useEffect(() => {
+    if (!map.current) return;
+
+    const markers = [
+      fromPoint && new mapboxgl.Marker({ color: '#22C55E' }).setLngLat(fromPoint.coordinates),
+      toPoint && new mapboxgl.Marker({ color: '#EF4444' }).setLngLat(toPoint.coordinates)
+    ].filter((marker): marker is mapboxgl.Marker => Boolean(marker));
+    markers.forEach(marker => marker.addTo(map.current!));
+
+    return () => markers.forEach(marker => marker.remove());
+  }, [fromPoint, toPoint]);
+
   return (
     <div className={`relative w-full h-full ${className}`}>
       <div ref={mapContainer} className="w-full h-full" />
@@ -931,7 +969,7 @@ const Map = ({ className = '' }: MapProps) => {
           <div className="mt-1 sm:mt-2 pt-1 sm:pt-2 border-t border-gray-100 text-[9px] sm:text-[10px] text-gray-500">
             <div className="flex flex-col gap-1">
               <span>{t('arrowsPointToNextStation')}</span>
-              <span className="text-[8px] sm:text-[9px]">{t('multipleTrainsSpreadToAvoidOverlap')}</span>
+              <span className="text-[8px] sm:text-[9px]">{t('trainsKeepBlockSpacing')}</span>
             </div>
           </div>
         </div>
@@ -992,6 +1030,19 @@ const Map = ({ className = '' }: MapProps) => {
           >
             📐 {selectionMode ? t('selectionOn') : t('areaSelector')}
           </button>
+
+          <label className="flex items-center gap-2 px-3 py-2 rounded-md text-sm bg-white text-gray-700 border border-gray-300">
+            <span>🚆 {t('positionEngine')}</span>
+            <select
+              value={positionEngine}
+              onChange={(e) => void setPositionEngine(e.target.value as PositionEngineType)}
+              className="bg-transparent font-medium"
+            >
+              <option value="precomputed">{t('precomputedEngine')}</option>
+              <option value="simple">{t('simpleEngine')}</option>
+              <option value="graph">{t('graphEngine')}</option>
+            </select>
+          </label>
         </div>
       )}
 
@@ -1033,32 +1084,43 @@ const Map = ({ className = '' }: MapProps) => {
                 <strong>End:</strong> [{clickedRailwayInfo.coordinates[clickedRailwayInfo.coordinates.length - 1]?.join(', ')}]
               </div>
             )}
+            {clickedRailwayInfo.chainage && (
+              <div>
+                <strong>Chainage:</strong> km {clickedRailwayInfo.chainage.from.toFixed(2)} – {clickedRailwayInfo.chainage.to.toFixed(2)} ({clickedRailwayInfo.chainage.routeId}, up to {Math.round(clickedRailwayInfo.chainage.maxOffset)} m off the line)
+              </div>
+            )}
             <div className="flex gap-2 mt-2">
               <button
                 onClick={() => {
-                  console.log('Full railway feature data:', clickedRailwayInfo);
                   navigator.clipboard.writeText(JSON.stringify(clickedRailwayInfo, null, 2));
                 }}
                 className="px-2 py-1 bg-blue-500 text-white rounded text-xs"
               >
                 Copy Data
               </button>
-              {clickedRailwayInfo.name && (
+              {clickedRailwayInfo.id && (
+                exclusions.ids.includes(clickedRailwayInfo.id) ? (
+                  <button
+                    onClick={() => includeFeatures({ ids: [clickedRailwayInfo.id] })}
+                    className="px-2 py-1 bg-green-600 text-white rounded text-xs"
+                  >
+                    Include ID
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => excludeFeatures({ ids: [clickedRailwayInfo.id] })}
+                    className="px-2 py-1 bg-red-500 text-white rounded text-xs"
+                  >
+                    Exclude ID
+                  </button>
+                )
+              )}
+              {clickedRailwayInfo.name && !exclusions.names.includes(clickedRailwayInfo.name) && (
                 <button
-                  onClick={async () => {
-                    const featureName = clickedRailwayInfo.name;
-                    console.log(`🚫 Excluding railway feature: "${featureName}"`);
-                    
-                    // Access the simulation engine through the train store
-                    const trainEngine = (window as any).trainSimulationEngine;
-                    if (trainEngine) {
-                      await trainEngine.excludeRailwayFeatures([featureName]);
-                      alert(`Excluded railway feature: "${featureName}"`);
-                    }
-                  }}
+                  onClick={() => excludeFeatures({ names: [clickedRailwayInfo.name] })}
                   className="px-2 py-1 bg-red-500 text-white rounded text-xs"
                 >
-                  Exclude This Line
+                  Exclude Name
                 </button>
               )}
             </div>
@@ -1109,30 +1171,28 @@ const Map = ({ className = '' }: MapProps) => {
                 <div className="flex gap-1 mt-2">
                   <button
                     onClick={() => {
-                      console.log('Railway feature data:', feature);
                       navigator.clipboard.writeText(JSON.stringify(feature, null, 2));
                     }}
                     className="px-2 py-1 bg-blue-500 text-white rounded text-xs"
                   >
                     Copy
                   </button>
-                  {feature.name && (
-                    <button
-                      onClick={async () => {
-                        const featureName = feature.name;
-                        console.log(`🚫 Excluding railway feature: "${featureName}"`);
-                        
-                        // Access the simulation engine through the train store
-                        const trainEngine = (window as any).trainSimulationEngine;
-                        if (trainEngine) {
-                          await trainEngine.excludeRailwayFeatures([featureName]);
-                          alert(`Excluded railway feature: "${featureName}"`);
-                        }
-                      }}
-                      className="px-2 py-1 bg-red-500 text-white rounded text-xs"
-                    >
-                      Exclude
-                    </button>
+                  {feature.id && (
+                    exclusions.ids.includes(feature.id) ? (
+                      <button
+                        onClick={() => includeFeatures({ ids: [feature.id] })}
+                        className="px-2 py-1 bg-green-600 text-white rounded text-xs"
+                      >
+                        Include
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => excludeFeatures({ ids: [feature.id] })}
+                        className="px-2 py-1 bg-red-500 text-white rounded text-xs"
+                      >
+                        Exclude
+                      </button>
+                    )
                   )}
                 </div>
               </div>
@@ -1143,7 +1203,6 @@ const Map = ({ className = '' }: MapProps) => {
                 onClick={() => {
                   const jsonData = JSON.stringify(selectedAreaFeatures, null, 2);
                   navigator.clipboard.writeText(jsonData);
-                  console.log('📋 Copied all features as JSON:', selectedAreaFeatures);
                   alert(`Copied ${selectedAreaFeatures.length} features to clipboard as JSON`);
                 }}
                 className="w-full px-3 py-2 bg-blue-600 text-white rounded text-sm font-medium"
@@ -1161,7 +1220,6 @@ const Map = ({ className = '' }: MapProps) => {
                     // Copy as comma-separated list for easy use in code
                     const idsString = featureIds.join(', ');
                     navigator.clipboard.writeText(idsString);
-                    console.log('🔢 Copied feature IDs:', idsString);
                     alert(`Copied ${featureIds.length} feature IDs to clipboard`);
                   } else {
                     alert('No features with IDs found');
@@ -1174,32 +1232,28 @@ const Map = ({ className = '' }: MapProps) => {
               
               <button
                 onClick={() => {
-                  const featureNames = selectedAreaFeatures
-                    .filter(f => f.name)
-                    .map(f => f.name);
+                  const featureIds = selectedAreaFeatures
+                    .filter(f => f.id)
+                    .map(f => f.id);
                   
-                  if (featureNames.length > 0) {
-                    console.log(`🚫 Excluding ${featureNames.length} railway features:`, featureNames);
-                    
-                    const trainEngine = (window as any).trainSimulationEngine;
-                    if (trainEngine) {
-                      trainEngine.excludeRailwayFeatures(featureNames).then(() => {
-                        alert(`Excluded ${featureNames.length} railway features from the selected area`);
-                      });
-                    }
+                  if (featureIds.length > 0) {
+                    excludeFeatures({ ids: featureIds });
                   } else {
-                    alert('No named features found to exclude');
+                    alert('No features with IDs found');
                   }
                 }}
                 className="w-full px-3 py-2 bg-red-600 text-white rounded text-sm font-medium"
               >
-                🚫 Exclude All Named Features ({selectedAreaFeatures.filter(f => f.name).length})
+                🚫 Exclude All ({selectedAreaFeatures.filter(f => f.id).length} IDs)
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Exclusion list editor */}
+      {debugMode && <ExclusionEditor />}
+
       {/* Selection Mode Instructions */}
       {selectionMode && (
         <div className="absolute bottom-4 left-4 bg-blue-100 border border-blue-300 rounded-lg p-3 text-xs z-20 max-w-sm">
@@ -1209,11 +1263,26 @@ const Map = ({ className = '' }: MapProps) => {
             • Click and hold to start drawing<br />
             • Drag to draw a freehand polygon<br />
             • Release to complete selection<br />
-            • Use results panel to exclude unwanted lines
+            • Use results panel to exclude unwanted lines, then preview and export them
           </span>
         </div>
       )}
 
+      {pickingPoint && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white rounded-lg shadow-lg px-4 py-2 text-sm z-20 flex items-center space-x-3">
+          <span>{t('clickMapToPick')}</span>
+          <button
+            onClick={() => {
+              setPickingPoint(null);
+              window.dispatchEvent(new CustomEvent('openRoutePlanner'));
+            }}
+            className="p-1 hover:bg-blue-700 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {debugMode && !selectionMode && (
         <div className="absolute bottom-4 right-4 bg-yellow-100 border border-yellow-300 rounded-lg p-3 text-xs z-20">
           🛠️ <strong>Debug Mode:</strong> Click on railway lines to inspect their properties
@@ -0,0 +1,122 @@
+import { LocateFixed, Footprints, AlertCircle, CheckCircle } from 'lucide-react';
+import type { Station } from '../types';
+import { useLocationStore } from '../stores/locationStore';
+import { useTimetableStore } from '../stores/timetableStore';
+import { useTrainStore } from '../stores/trainStore';
+import { getSimulationTime } from '../stores/clockStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatArrivalTime, getReachableDepartures } from '../utils/timetableCalculations';
+import type { GeolocationFailure } from '../utils/geolocation';
+
+const FAILURE_KEYS: Record<GeolocationFailure, string> = {
+  denied: 'locationDenied',
+  unavailable: 'locationUnavailable',
+  timeout: 'locationTimeout',
+  unsupported: 'locationUnsupported'
+};
+
+// Find the station nearest to the user and open its timetable
+export const NearestStationButton = () => {
+  const { t } = useLanguage();
+  const { status, failure, locate } = useLocationStore();
+
+  return (
+    <div className="p-4 border-b border-gray-200">
+      <button
+        onClick={() => locate()}
+        disabled={status === 'locating'}
+        className="w-full flex items-center justify-center space-x-2 p-3 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-60 transition-colors"
+      >
+        <LocateFixed className={`w-4 h-4 ${status === 'locating' ? 'animate-pulse' : ''}`} />
+        <span className="font-medium text-sm">{status === 'locating' ? t('locating') : t('nearestStation')}</span>
+      </button>
+      {failure && (
+        <p className="mt-2 text-xs text-red-600 flex items-center space-x-1">
+          <AlertCircle className="w-3 h-3" />
+          <span>{t(FAILURE_KEYS[failure])}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+// The walk from the user's location to a nearby station and whether the next trains can be made
+const NearestStation = ({
+  stationId,
+  onSelectStation
+}: {
+  stationId: string;
+  onSelectStation: (station: Station) => void;
+}) => {
+  const { t } = useLanguage();
+  const { nearestStations } = useLocationStore();
+  const { trainPositions } = useTrainStore();
+  // Re-render with the timetable so the departures stay current
+  useTimetableStore(state => state.lastUpdateTime);
+
+  const access = nearestStations.find(nearby => nearby.station.id === stationId);
+  if (!access) return null;
+
+  const walkMinutes = Math.ceil(access.walkTime / 60);
+  const departures = getReachableDepartures(stationId, trainPositions, access.walkTime, getSimulationTime());
+  const otherStations = nearestStations.filter(nearby => nearby.station.id !== stationId);
+
+  return (
+    <div className="mt-3 p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+      <div className="flex items-center space-x-2 text-sm text-gray-700">
+        <Footprints className="w-4 h-4 text-gray-500" />
+        <span>
+          {(access.distance / 1000).toFixed(1)} km • {walkMinutes} {t('min')} {t('walk')} {t('fromYourLocation')}
+        </span>
+      </div>
+
+      {departures.map(departure => (
+        <div key={departure.direction} className="text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">
+              {departure.direction === 'forward' ? t('eastbound') : t('westbound')} • {departure.next.finalDestination}
+            </span>
+            <span className="font-mono text-gray-700">{formatArrivalTime(departure.next.departureTime)}</span>
+          </div>
+          {departure.canMakeIt ? (
+            <div className="flex items-center space-x-1 text-green-700">
+              <CheckCircle className="w-3 h-3" />
+              <span>{t('canMakeIt')} • {departure.spareMinutes} {t('minToSpare')}</span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-1 text-red-600">
+              <AlertCircle className="w-3 h-3" />
+              <span>
+                {t('willMissIt')}
+                {departure.nextReachable && ` • ${t('nextYouCanMake')}: ${formatArrivalTime(departure.nextReachable.departureTime)}`}
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {departures.length === 0 && (
+        <p className="text-xs text-gray-500">{t('noDeparturesSoon')}</p>
+      )}
+
+      {otherStations.length > 0 && (
+        <div className="pt-2 border-t border-gray-100">
+          <div className="text-xs text-gray-500 mb-1">{t('otherNearbyStations')}</div>
+          <div className="flex flex-wrap gap-1">
+            {otherStations.map(nearby => (
+              <button
+                key={nearby.station.id}
+                onClick={() => onSelectStation(nearby.station)}
+                className="text-xs px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+              >
+                {nearby.station.name} • {Math.ceil(nearby.walkTime / 60)} {t('min')}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NearestStation;
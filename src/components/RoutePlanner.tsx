@@ -7,15 +7,24 @@ import {
   Train, 
   X, 
   ChevronDown,
-  AlertCircle
+  AlertCircle,
+  Repeat,
+  Footprints,
+  Crosshair,
+  Star,
+  BookmarkPlus
 } from 'lucide-react';
 import { stations } from '../data/stations';
 import { useJourneyStore } from '../stores/journeyStore';
+import { usePreferencesStore, isSameJourney } from '../stores/preferencesStore';
+import { getSimulationTime } from '../stores/clockStore';
 import { useLanguage } from '../contexts/LanguageContext';
 import { 
   getJourneySummary, 
   formatJourneyTime, 
-  getIntermediateStops
+  getIntermediateStops,
+  getEndpointName,
+  getNextClockTime
 } from '../utils/journeyPlanner';
 import { 
   isAnyServiceActive, 
@@ -27,6 +36,113 @@ import {
   getStationsGroupedBySection 
 } from '../utils/stationOrdering';
 import { useSwipeGesture } from '../hooks/useSwipeGesture';
+import { getStationConnections, type AccessLeg } from '../utils/transitConnections';
+import type { LineStop } from '../utils/journeyPlanner';
+import { TransitModeIcon } from './StationConnections';
+import SavedJourneys from './SavedJourneys';
+import { parseCoordinates, type WalkingLeg } from '../utils/walkingAccess';
+import { formatStationChainage } from '../utils/linearReferencing';
+
+const formatClock = (time: Date) => time.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+
+// Pick a stop on one of the lines connecting at a station, or none to use the station itself
+const LineStopSelect = ({
+  stationId,
+  value,
+  label,
+  onChange
+}: {
+  stationId: string;
+  value: LineStop | null;
+  label: string;
+  onChange: (stop: LineStop | null) => void;
+}) => {
+  const { t } = useLanguage();
+  const connections = getStationConnections(stationId);
+  if (connections.length === 0) return null;
+
+  const handleChange = (selected: string) => {
+    const [lineId, stopName] = selected.split('|');
+    onChange(selected ? { lineId, stopName } : null);
+  };
+
+  return (
+    <label className="block mt-2">
+      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+      <select
+        value={value ? `${value.lineId}|${value.stopName}` : ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{t('marmarayStationOnly')}</option>
+        {connections.map(connection => (
+          <optgroup key={`${connection.lineId}-${connection.name}`} label={`${connection.lineId} • ${connection.name}`}>
+            {connection.stops.map(stop => (
+              <option key={stop.name} value={`${connection.lineId}|${stop.name}`}>
+                {stop.name} ({stop.travelTime} {t('min')})
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+// The first or last mile of a journey on a connecting line
+const AccessLegRow = ({ leg }: { leg: AccessLeg }) => {
+  const { t } = useLanguage();
+  const { connection } = leg;
+  const walk = `${Math.round(connection.walkTime / 60)} ${t('min')} ${t('walk')}`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <TransitModeIcon mode={connection.mode} className="w-4 h-4 text-gray-600" />
+          <span
+            className="text-xs px-1.5 py-0.5 rounded text-white font-semibold"
+            style={{ backgroundColor: connection.color }}
+          >
+            {connection.lineId}
+          </span>
+          <span className="text-sm font-medium">{leg.toStation ? leg.stopName : connection.name}</span>
+        </div>
+        <span className="text-sm font-mono text-gray-700">
+          {formatClock(leg.lineDepartureTime)} – {formatClock(leg.arrivalTime)}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500 ml-6">
+        {leg.toStation ? `${leg.stopName} → ${connection.name} • ${walk}` : `${walk} • → ${leg.stopName}`}
+      </div>
+    </div>
+  );
+};
+
+// A walk between a point on the map and a station
+const WalkingLegRow = ({ leg }: { leg: WalkingLeg }) => {
+  const { t } = useLanguage();
+  const minutes = Math.round((leg.arrivalTime.getTime() - leg.departureTime.getTime()) / 60000);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Footprints className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium">
+            {leg.toStation ? leg.station.name : getEndpointName(leg.point)}
+          </span>
+        </div>
+        <span className="text-sm font-mono text-gray-700">
+          {formatClock(leg.departureTime)} – {formatClock(leg.arrivalTime)}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500 ml-6">
+        {minutes} {t('min')} {t('walk')} • {(leg.distance / 1000).toFixed(1)} km
+      </div>
+    </div>
+  );
+};
 
 const RoutePlanner = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -40,22 +156,40 @@ const RoutePlanner = () => {
     fromStation,
     toStation,
     currentJourney,
+    allJourneys,
     isCalculating,
     lastCalculationTime,
+    arriveBy,
+    departAt,
+    arrivalBuffer,
+    firstMile,
+    lastMile,
+    fromPoint,
+    toPoint,
     setFromStation,
     setToStation,
+    setArriveBy,
+    setDepartAt,
+    setArrivalBuffer,
+    setFirstMile,
+    setLastMile,
+    setFromPoint,
+    setToPoint,
+    setPickingPoint,
     swapStations,
     clearJourney
   } = useJourneyStore();
 
+  const { favoriteStations, favoriteJourneys, toggleFavoriteJourney, saveCommute } = usePreferencesStore();
   const { t } = useLanguage();
 
   // Get stations in route order with filtering
   const filteredFromStations = getFilteredStationsInOrder(searchFrom, toStation?.id);
   const filteredToStations = getFilteredStationsInOrder(searchTo, fromStation?.id);
   
-  // Get stations grouped by section for better organization
-  const stationGroups = getStationsGroupedBySection(t);
+  // Get stations grouped by section for better organization, favorites first
+  const favoriteGroup = { section: t('favoritesSection'), stations: stations.filter(s => favoriteStations.includes(s.id)) };
+  const stationGroups = [favoriteGroup, ...getStationsGroupedBySection(t)].filter(group => group.stations.length > 0);
 
   // Add swipe to close functionality for mobile
   useSwipeGesture(
@@ -83,6 +217,13 @@ const RoutePlanner = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // The map asks to show the planner again once a point has been picked
+  useEffect(() => {
+    const handleOpen = () => setIsOpen(true);
+    window.addEventListener('openRoutePlanner', handleOpen);
+    return () => window.removeEventListener('openRoutePlanner', handleOpen);
+  }, []);
+
   const handleFromStationSelect = (station: typeof stations[0]) => {
     setFromStation(station);
     setSearchFrom('');
@@ -95,7 +236,78 @@ const RoutePlanner = () => {
     setToDropdownOpen(false);
   };
 
-  const canSwap = fromStation && toStation;
+  // Typed coordinates as the origin or destination
+  const handleCoordinatesSelect = (end: 'from' | 'to', value: string) => {
+    const coordinates = parseCoordinates(value);
+    if (!coordinates) return;
+
+    const point = { coordinates, label: value.trim() };
+    if (end === 'from') {
+      setFromPoint(point);
+      setSearchFrom('');
+      setFromDropdownOpen(false);
+    } else {
+      setToPoint(point);
+      setSearchTo('');
+      setToDropdownOpen(false);
+    }
+  };
+
+  // Hide the panel so the map can be clicked
+  const handlePickOnMap = (end: 'from' | 'to') => {
+    setPickingPoint(end);
+    setFromDropdownOpen(false);
+    setToDropdownOpen(false);
+    setIsOpen(false);
+  };
+
+  // The next time the clock shows the chosen HH:MM
+  const handleTimeChange = (value: string) => {
+    const time = getNextClockTime(value, getSimulationTime());
+    if (!time) return;
+    if (arriveBy) {
+      setArriveBy(time);
+    } else {
+      setDepartAt(time);
+    }
+  };
+
+  // Default to leaving in half an hour or arriving in an hour, on the minute
+  const handleDepartAtMode = () => {
+    const time = getSimulationTime();
+    time.setMinutes(time.getMinutes() + 30, 0, 0);
+    setDepartAt(time);
+  };
+
+  const handleArriveByMode = () => {
+    const time = getSimulationTime();
+    time.setHours(time.getHours() + 1, time.getMinutes(), 0, 0);
+    setArriveBy(time);
+  };
+
+  const plannedTime = arriveBy ?? departAt;
+
+  const hasOrigin = Boolean(fromStation || fromPoint);
+  const hasDestination = Boolean(toStation || toPoint);
+  const canSwap = hasOrigin && hasDestination;
+
+  // Both ends as the planner takes them, for favorites and commutes
+  const origin = fromPoint ?? fromStation?.id;
+  const destination = toPoint ?? toStation?.id;
+  const isFavoriteJourney = Boolean(origin && destination &&
+    favoriteJourneys.some(favorite => isSameJourney(favorite, { from: origin, to: destination })));
+
+  const handleSaveCommute = () => {
+    if (!origin || !destination) return;
+    saveCommute({
+      name: `${getEndpointName(origin)} → ${getEndpointName(destination)}`,
+      from: origin,
+      to: destination,
+      firstMile,
+      lastMile,
+      arriveBy: arriveBy ? formatClock(arriveBy) : null
+    });
+  };
   const hasValidJourney = currentJourney && currentJourney.nextDeparture;
 
   return (
@@ -144,8 +356,8 @@ const RoutePlanner = () => {
               >
                 <div className="flex items-center space-x-2">
                   <MapPin className="w-4 h-4 text-gray-500" />
-                  <span className={fromStation ? 'text-gray-900' : 'text-gray-500'}>
-                    {fromStation ? fromStation.name : t('selectDepartureStation')}
+                  <span className={hasOrigin ? 'text-gray-900' : 'text-gray-500'}>
+                    {fromPoint ? getEndpointName(fromPoint) : fromStation ? fromStation.name : t('selectDepartureStation')}
                   </span>
                 </div>
                 <ChevronDown className="w-4 h-4 text-gray-500" />
@@ -161,6 +373,22 @@ const RoutePlanner = () => {
                       onChange={(e) => setSearchFrom(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                     />
+                    <button
+                      onClick={() => handlePickOnMap('from')}
+                      className="w-full mt-2 px-3 py-2 text-left text-sm text-blue-700 hover:bg-blue-50 rounded flex items-center space-x-2"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                      <span>{t('pickOnMap')}</span>
+                    </button>
+                    {parseCoordinates(searchFrom) && (
+                      <button
+                        onClick={() => handleCoordinatesSelect('from', searchFrom)}
+                        className="w-full px-3 py-2 text-left text-sm text-blue-700 hover:bg-blue-50 rounded flex items-center space-x-2"
+                      >
+                        <MapPin className="w-4 h-4" />
+                        <span>{t('useCoordinates')}: {searchFrom.trim()}</span>
+                      </button>
+                    )}
                   </div>
                   <div className="max-h-64 overflow-y-auto">
                     {searchFrom ? (
@@ -172,7 +400,7 @@ const RoutePlanner = () => {
                           className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center justify-between"
                         >
                           <span>{station.name}</span>
-                          <span className="text-xs text-gray-500">{station.distanceFromStart} km</span>
+                          <span className="text-xs text-gray-500">{formatStationChainage(station.id)} km</span>
                         </button>
                       ))
                     ) : (
@@ -191,7 +419,7 @@ const RoutePlanner = () => {
                               className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center justify-between"
                             >
                               <span>{station.name}</span>
-                              <span className="text-xs text-gray-500">{station.distanceFromStart} km</span>
+                              <span className="text-xs text-gray-500">{formatStationChainage(station.id)} km</span>
                             </button>
                           ))}
                         </div>
@@ -202,6 +430,15 @@ const RoutePlanner = () => {
               )}
             </div>
 
+            {fromStation && (
+              <LineStopSelect
+                stationId={fromStation.id}
+                value={firstMile}
+                label={t('startOnLine')}
+                onChange={setFirstMile}
+              />
+            )}
+
             {/* Swap Button */}
             <div className="flex justify-center">
               <button
@@ -226,8 +463,8 @@ const RoutePlanner = () => {
               >
                 <div className="flex items-center space-x-2">
                   <MapPin className="w-4 h-4 text-gray-500" />
-                  <span className={toStation ? 'text-gray-900' : 'text-gray-500'}>
-                    {toStation ? toStation.name : t('selectDestinationStation')}
+                  <span className={hasDestination ? 'text-gray-900' : 'text-gray-500'}>
+                    {toPoint ? getEndpointName(toPoint) : toStation ? toStation.name : t('selectDestinationStation')}
                   </span>
                 </div>
                 <ChevronDown className="w-4 h-4 text-gray-500" />
@@ -243,6 +480,22 @@ const RoutePlanner = () => {
                       onChange={(e) => setSearchTo(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                     />
+                    <button
+                      onClick={() => handlePickOnMap('to')}
+                      className="w-full mt-2 px-3 py-2 text-left text-sm text-blue-700 hover:bg-blue-50 rounded flex items-center space-x-2"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                      <span>{t('pickOnMap')}</span>
+                    </button>
+                    {parseCoordinates(searchTo) && (
+                      <button
+                        onClick={() => handleCoordinatesSelect('to', searchTo)}
+                        className="w-full px-3 py-2 text-left text-sm text-blue-700 hover:bg-blue-50 rounded flex items-center space-x-2"
+                      >
+                        <MapPin className="w-4 h-4" />
+                        <span>{t('useCoordinates')}: {searchTo.trim()}</span>
+                      </button>
+                    )}
                   </div>
                   <div className="max-h-64 overflow-y-auto">
                     {searchTo ? (
@@ -254,7 +507,7 @@ const RoutePlanner = () => {
                           className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center justify-between"
                         >
                           <span>{station.name}</span>
-                          <span className="text-xs text-gray-500">{station.distanceFromStart} km</span>
+                          <span className="text-xs text-gray-500">{formatStationChainage(station.id)} km</span>
                         </button>
                       ))
                     ) : (
@@ -273,7 +526,7 @@ const RoutePlanner = () => {
                               className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center justify-between"
                             >
                               <span>{station.name}</span>
-                              <span className="text-xs text-gray-500">{station.distanceFromStart} km</span>
+                              <span className="text-xs text-gray-500">{formatStationChainage(station.id)} km</span>
                             </button>
                           ))}
                         </div>
@@ -284,14 +537,103 @@ const RoutePlanner = () => {
               )}
             </div>
 
-            {/* Clear Button */}
-            {(fromStation || toStation) && (
-              <button
-                onClick={clearJourney}
-                className="w-full text-sm text-gray-600 hover:text-gray-800 py-1"
-              >
-                {t('clearSelection')}
-              </button>
+            {toStation && (
+              <LineStopSelect
+                stationId={toStation.id}
+                value={lastMile}
+                label={t('endOnLine')}
+                onChange={setLastMile}
+              />
+            )}
+
+            {/* Leave now, leave at or arrive by */}
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-lg text-sm">
+                <button
+                  onClick={() => {
+                    setArriveBy(null);
+                    setDepartAt(null);
+                  }}
+                  className={`py-1.5 rounded-md transition-colors ${
+                    !plannedTime ? 'bg-white shadow text-gray-900 font-medium' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {t('leaveNow')}
+                </button>
+                <button
+                  onClick={() => !departAt && handleDepartAtMode()}
+                  className={`py-1.5 rounded-md transition-colors ${
+                    departAt ? 'bg-white shadow text-gray-900 font-medium' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {t('leaveAt')}
+                </button>
+                <button
+                  onClick={() => !arriveBy && handleArriveByMode()}
+                  className={`py-1.5 rounded-md transition-colors ${
+                    arriveBy ? 'bg-white shadow text-gray-900 font-medium' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {t('arriveBy')}
+                </button>
+              </div>
+
+              {plannedTime && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="time"
+                    aria-label={arriveBy ? t('arriveBy') : t('leaveAt')}
+                    value={formatClock(plannedTime)}
+                    onChange={(e) => handleTimeChange(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {arriveBy && (
+                    <>
+                  <label className="text-xs text-gray-600" htmlFor="arrival-buffer">{t('buffer')}</label>
+                  <select
+                    id="arrival-buffer"
+                    value={arrivalBuffer}
+                    onChange={(e) => setArrivalBuffer(Number(e.target.value))}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {[0, 5, 10, 15].map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} {t('min')}</option>
+                    ))}
+                  </select>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Favorite, save and clear */}
+            {(hasOrigin || hasDestination) && (
+              <div className="flex items-center justify-center space-x-4">
+                {canSwap && (
+                  <>
+                    <button
+                      onClick={() => origin && destination && toggleFavoriteJourney(origin, destination)}
+                      className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 py-1"
+                    >
+                      <Star className={`w-4 h-4 ${isFavoriteJourney ? 'text-yellow-500 fill-current' : ''}`} />
+                      <span>{isFavoriteJourney ? t('removeFavoriteRoute') : t('addFavoriteRoute')}</span>
+                    </button>
+                    <button
+                      onClick={handleSaveCommute}
+                      className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 py-1"
+                    >
+                      <BookmarkPlus className="w-4 h-4" />
+                      <span>{t('saveCommute')}</span>
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={clearJourney}
+                  className="text-sm text-gray-600 hover:text-gray-800 py-1"
+                >
+                  {t('clearSelection')}
+                </button>
+              </div>
             )}
           </div>
 
@@ -327,10 +669,16 @@ const RoutePlanner = () => {
                   <p className="text-sm text-gray-700">
                     {getJourneySummary(currentJourney, t)}
                   </p>
+                  {currentJourney.transfers > 0 && (
+                    <div className="flex items-center space-x-1 mt-2 text-xs text-blue-800">
+                      <Repeat className="w-3 h-3" />
+                      <span>{currentJourney.transfers} {currentJourney.transfers === 1 ? t('transfer') : t('transfers')}</span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Service Status Alert */}
-                {!isAnyServiceActive() && (
+                {!isAnyServiceActive(getSimulationTime()) && (
                   <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
                     <div className="flex items-center space-x-2">
                       <AlertCircle className="w-4 h-4 text-amber-600" />
@@ -339,7 +687,7 @@ const RoutePlanner = () => {
                       </span>
                     </div>
                     <p className="text-xs text-amber-700 mt-1">
-                      {getServiceStatus(new Date(), t)}
+                      {getServiceStatus(getSimulationTime(), t)}
                     </p>
                   </div>
                 )}
@@ -352,7 +700,9 @@ const RoutePlanner = () => {
                       : 'bg-green-50 border-green-200'
                   }`}>
                     <div className="flex items-center justify-between mb-2">
-                      <h3 className="font-semibold text-gray-900">{t('nextDeparture')}</h3>
+                      <h3 className="font-semibold text-gray-900">
+                        {arriveBy ? t('latestDeparture') : t('nextDeparture')}
+                      </h3>
                       {currentJourney.nextDeparture.isScheduled && (
                         <span className="text-xs px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
                           {t('scheduled')}
@@ -390,18 +740,61 @@ const RoutePlanner = () => {
                             hour: '2-digit', 
                             minute: '2-digit' 
                           })}
+                          {currentJourney.nextDeparture.delay >= 60 && (
+                            <span className="ml-1 text-red-600">
+                              (+{Math.round(currentJourney.nextDeparture.delay / 60)} {t('min')})
+                            </span>
+                          )}
                         </span>
                       </div>
                     </div>
                   </div>
                 )}
 
+                {/* Trains and changes, with any connecting lines */}
+                {(currentJourney.legs.length > 1 || currentJourney.firstMile || currentJourney.lastMile ||
+                  currentJourney.accessWalk || currentJourney.egressWalk) && (
+                  <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    {currentJourney.accessWalk && <WalkingLegRow leg={currentJourney.accessWalk} />}
+                    {currentJourney.firstMile && <AccessLegRow leg={currentJourney.firstMile} />}
+                    {currentJourney.legs.map((leg, index) => (
+                      <div key={`${leg.trainId}-${index}`}>
+                        {index > 0 && (
+                          <div className="flex items-center space-x-2 mb-3 text-xs text-amber-700">
+                            <Repeat className="w-3 h-3" />
+                            <span>
+                              {t('changeAt')} {leg.fromStation.name} •{' '}
+                              {Math.round((leg.departureTime.getTime() - currentJourney.legs[index - 1].arrivalTime.getTime()) / 60000)} {t('min')}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <Train className="w-4 h-4" style={{ color: leg.route.color }} />
+                            <span className="text-sm font-medium">{leg.displayName}</span>
+                          </div>
+                          <span className="text-sm font-mono text-gray-700">
+                            {formatClock(leg.departureTime)} – {formatClock(leg.arrivalTime)}
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-500 ml-6">
+                          {leg.fromStation.name} → {leg.toStation.name} • {leg.stations.length - 1} {leg.stations.length === 2 ? t('stop') : t('stops')}
+                        </div>
+                      </div>
+                    ))}
+                    {currentJourney.lastMile && <AccessLegRow leg={currentJourney.lastMile} />}
+                    {currentJourney.egressWalk && <WalkingLegRow leg={currentJourney.egressWalk} />}
+                  </div>
+                )}
+
                 {/* Route Details */}
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h3 className="font-semibold text-gray-900 mb-3">{t('routePath')}</h3>
-                  <div className="text-xs text-gray-500 mb-3">
-                    {t('following')} {currentJourney.direction === 'forward' ? t('eastbound') : t('westbound')} {t('direction')}
-                  </div>
+                  {currentJourney.transfers === 0 && (
+                    <div className="text-xs text-gray-500 mb-3">
+                      {t('following')} {currentJourney.direction === 'forward' ? t('eastbound') : t('westbound')} {t('direction')}
+                    </div>
+                  )}
                   
                   <div className="relative">
                     {/* Connecting line */}
@@ -411,8 +804,8 @@ const RoutePlanner = () => {
                     <div className="flex items-center space-x-3 mb-3 relative z-10">
                       <div className="w-3 h-3 bg-green-500 rounded-full border-2 border-white"></div>
                       <div>
-                        <div className="font-medium text-gray-900">{fromStation?.name}</div>
-                        <div className="text-xs text-gray-500">{t('origin')} • {fromStation?.distanceFromStart} km</div>
+                        <div className="font-medium text-gray-900">{currentJourney.fromStation.name}</div>
+                        <div className="text-xs text-gray-500">{t('origin')} • {formatStationChainage(currentJourney.fromStation.id)} km</div>
                       </div>
                     </div>
 
@@ -422,7 +815,7 @@ const RoutePlanner = () => {
                         <div className="w-2 h-2 bg-gray-400 rounded-full border-2 border-white"></div>
                         <div className="text-sm text-gray-600">
                           {station.name}
-                          <span className="text-xs text-gray-500 ml-1">• {station.distanceFromStart} km</span>
+                          <span className="text-xs text-gray-500 ml-1">• {formatStationChainage(station.id)} km</span>
                         </div>
                       </div>
                     ))}
@@ -440,16 +833,41 @@ const RoutePlanner = () => {
                     <div className="flex items-center space-x-3 relative z-10">
                       <div className="w-3 h-3 bg-red-500 rounded-full border-2 border-white"></div>
                       <div>
-                        <div className="font-medium text-gray-900">{toStation?.name}</div>
-                        <div className="text-xs text-gray-500">{t('destination')} • {toStation?.distanceFromStart} km</div>
+                        <div className="font-medium text-gray-900">{currentJourney.toStation.name}</div>
+                        <div className="text-xs text-gray-500">{t('destination')} • {formatStationChainage(currentJourney.toStation.id)} km</div>
                       </div>
                     </div>
                   </div>
                 </div>
+
+                {/* Other options */}
+                {allJourneys.length > 1 && (
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <h3 className="font-semibold text-gray-900 mb-3">{t('otherOptions')}</h3>
+                    <div className="space-y-2">
+                      {allJourneys.slice(1).filter(journey => journey.nextDeparture).map(journey => (
+                        <div
+                          key={[journey.fromStation.id, ...journey.legs.map(leg => leg.trainId), journey.toStation.id].join('|')}
+                          className="flex items-center justify-between text-sm"
+                        >
+                          <span className="font-mono text-gray-900">
+                            {formatClock(journey.nextDeparture!.departureTime)} – {formatClock(journey.nextDeparture!.arrivalTime)}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {formatJourneyTime(journey.totalTime, t)} •{' '}
+                            {journey.transfers === 0
+                              ? t('direct')
+                              : `${journey.transfers} ${journey.transfers === 1 ? t('transfer') : t('transfers')}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
-            {!isCalculating && !currentJourney && fromStation && toStation && (
+            {!isCalculating && !currentJourney && hasOrigin && hasDestination && (
               <div className="p-6 text-center text-gray-500">
                 <AlertCircle className="w-12 h-12 mx-auto mb-3 text-gray-400" />
                 <p className="text-lg font-medium mb-2">{t('noRouteFound')}</p>
@@ -459,14 +877,17 @@ const RoutePlanner = () => {
               </div>
             )}
 
-            {!fromStation && !toStation && (
-              <div className="p-6 text-center text-gray-500">
-                <Navigation className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-                <p className="text-lg font-medium mb-2">{t('planYourJourney')}</p>
-                <p className="text-sm">
-                  {t('selectStationsToGetStarted')}
-                </p>
-              </div>
+            {!hasOrigin && !hasDestination && (
+              <>
+                <div className="p-6 text-center text-gray-500">
+                  <Navigation className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                  <p className="text-lg font-medium mb-2">{t('planYourJourney')}</p>
+                  <p className="text-sm">
+                    {t('selectStationsToGetStarted')}
+                  </p>
+                </div>
+                <SavedJourneys />
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Briefcase, Star, History, Trash2, ArrowRight, Bell, BellRing } from 'lucide-react';
+import { useJourneyStore } from '../stores/journeyStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { getSimulationTime } from '../stores/clockStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getEndpointName, getNextClockTime, type JourneyEndpoint } from '../utils/journeyPlanner';
+import CommuteAlertSettings from './CommuteAlertSettings';
+
+const JourneyName = ({ from, to }: { from: JourneyEndpoint; to: JourneyEndpoint }) => (
+  <span className="flex items-center space-x-1 min-w-0">
+    <span className="truncate">{getEndpointName(from)}</span>
+    <ArrowRight className="w-3 h-3 flex-shrink-0 text-gray-400" />
+    <span className="truncate">{getEndpointName(to)}</span>
+  </span>
+);
+
+// Saved commutes, favorite routes and recent searches, each planned with one click
+const SavedJourneys = () => {
+  const { t } = useLanguage();
+  const {
+    commutes,
+    favoriteJourneys,
+    recentSearches,
+    removeCommute,
+    toggleFavoriteJourney,
+    clearRecentSearches
+  } = usePreferencesStore();
+  const { openJourney } = useJourneyStore();
+  const [alertSettingsId, setAlertSettingsId] = useState<string | null>(null);
+
+  if (commutes.length === 0 && favoriteJourneys.length === 0 && recentSearches.length === 0) {
+    return null;
+  }
+
+  const rowClass = 'w-full flex items-center justify-between px-3 py-2 text-sm text-gray-800 hover:bg-gray-50 rounded-lg';
+
+  return (
+    <div className="p-4 space-y-4">
+      {commutes.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-gray-500 mb-1 flex items-center space-x-1">
+            <Briefcase className="w-3 h-3" />
+            <span>{t('savedCommutes')}</span>
+          </h3>
+          {commutes.map(commute => (
+            <div key={commute.id}>
+              <div className={rowClass}>
+                <button
+                  onClick={() => openJourney(commute.from, commute.to, {
+                    firstMile: commute.firstMile,
+                    lastMile: commute.lastMile,
+                    arriveBy: commute.arriveBy ? getNextClockTime(commute.arriveBy, getSimulationTime()) : null
+                  })}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <div className="font-medium truncate">{commute.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {commute.arriveBy ? `${t('arriveBy')} ${commute.arriveBy}` : t('leaveNow')}
+                  </div>
+                </button>
+                <button
+                  onClick={() => setAlertSettingsId(alertSettingsId === commute.id ? null : commute.id)}
+                  className={`p-1 ${commute.alert?.enabled ? 'text-blue-600' : 'text-gray-400'} hover:text-blue-700`}
+                  aria-label={t('remindMeToLeave')}
+                >
+                  {commute.alert?.enabled ? <BellRing className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => removeCommute(commute.id)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={t('remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {alertSettingsId === commute.id && <CommuteAlertSettings commute={commute} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {favoriteJourneys.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-gray-500 mb-1 flex items-center space-x-1">
+            <Star className="w-3 h-3" />
+            <span>{t('favoriteRoutes')}</span>
+          </h3>
+          {favoriteJourneys.map(journey => (
+            <div key={`${getEndpointName(journey.from)}-${getEndpointName(journey.to)}`} className={rowClass}>
+              <button onClick={() => openJourney(journey.from, journey.to)} className="flex-1 text-left min-w-0">
+                <JourneyName from={journey.from} to={journey.to} />
+              </button>
+              <button
+                onClick={() => toggleFavoriteJourney(journey.from, journey.to)}
+                className="p-1 text-yellow-500 hover:text-gray-400"
+                aria-label={t('remove')}
+              >
+                <Star className="w-4 h-4 fill-current" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recentSearches.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-xs font-semibold text-gray-500 flex items-center space-x-1">
+              <History className="w-3 h-3" />
+              <span>{t('recentSearches')}</span>
+            </h3>
+            <button onClick={clearRecentSearches} className="text-xs text-gray-500 hover:text-gray-700">
+              {t('clear')}
+            </button>
+          </div>
+          {recentSearches.map(search => (
+            <button
+              key={search.searchedAt}
+              onClick={() => openJourney(search.from, search.to)}
+              className={`${rowClass} text-left`}
+            >
+              <JourneyName from={search.from} to={search.to} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedJourneys;
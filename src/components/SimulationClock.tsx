@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Play, Pause, RotateCcw } from 'lucide-react';
+import { useClockStore, SIMULATION_SPEEDS } from '../stores/clockStore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatDateKey } from '../utils/serviceCalendar';
+
+// Value for a datetime-local input (local time, minute precision)
+const toInputValue = (date: Date): string =>
+  `${formatDateKey(date)}T${date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`;
+
+const SimulationClock = () => {
+  const { speed, isPlaying, isLive, getTime, play, pause, setSpeed, setTime, goLive } = useClockStore();
+  const [currentTime, setCurrentTime] = useState(getTime());
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    // Tick with the clock; also refresh immediately when it is paused, sped up or moved
+    setCurrentTime(getTime());
+    const timer = setInterval(() => {
+      setCurrentTime(getTime());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [getTime, speed, isPlaying, isLive]);
+
+  // Close the panel when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleTimeChange = (value: string) => {
+    const time = new Date(value);
+    if (!isNaN(time.getTime())) {
+      setTime(time);
+      setCurrentTime(time);
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      {/* Time - Show abbreviated on mobile */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-1 sm:space-x-2 px-1.5 py-1 rounded transition-colors hover:bg-gray-700 ${
+          isLive ? 'text-gray-300' : 'text-amber-300'
+        }`}
+        aria-label={t('simulationClock')}
+      >
+        <Clock className="w-4 h-4 hidden sm:block" />
+        {!isLive && (
+          <span className="hidden sm:inline font-mono text-xs">
+            {currentTime.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit' })}
+          </span>
+        )}
+        <span className="font-mono text-xs sm:text-sm">
+          {currentTime.toLocaleTimeString('tr-TR', {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: window.innerWidth > 640 ? '2-digit' : undefined
+          })}
+        </span>
+        {!isLive && (
+          <span className="font-mono text-xs">
+            {isPlaying ? `${speed}×` : <Pause className="w-3 h-3" />}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4 z-50 text-sm text-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <span className="font-semibold text-white">{t('simulationClock')}</span>
+            <span className={`text-xs ${isLive ? 'text-green-400' : 'text-amber-300'}`}>
+              {isLive ? t('realTime') : t('simulatedTime')}
+            </span>
+          </div>
+
+          {/* Date and time */}
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="simulation-time">
+            {t('dateAndTime')}
+          </label>
+          <input
+            id="simulation-time"
+            type="datetime-local"
+            value={toInputValue(currentTime)}
+            onChange={(e) => handleTimeChange(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-white mb-3"
+          />
+
+          {/* Play / pause */}
+          <div className="flex items-center space-x-2 mb-3">
+            <button
+              onClick={isPlaying ? pause : play}
+              className="flex items-center space-x-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              <span>{isPlaying ? t('pause') : t('play')}</span>
+            </button>
+            <button
+              onClick={goLive}
+              disabled={isLive}
+              className="flex items-center space-x-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>{t('backToRealTime')}</span>
+            </button>
+          </div>
+
+          {/* Speed */}
+          <div className="text-xs text-gray-400 mb-1">{t('speed')}</div>
+          <div className="grid grid-cols-6 gap-1">
+            {SIMULATION_SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`py-1 rounded font-mono text-xs transition-colors ${
+                  option === speed ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationClock;
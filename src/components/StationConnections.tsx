@@ -0,0 +1,50 @@
+import { TrainFront, TramFront, Ship, Bus } from 'lucide-react';
+import type { TransitMode } from '../types';
+import { getStationConnections } from '../utils/transitConnections';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export const TransitModeIcon = ({ mode, className }: { mode: TransitMode; className?: string }) => {
+  switch (mode) {
+    case 'tram':
+      return <TramFront className={className} />;
+    case 'ferry':
+      return <Ship className={className} />;
+    case 'metrobus':
+      return <Bus className={className} />;
+    default:
+      return <TrainFront className={className} />;
+  }
+};
+
+// Lines to change to at a station, with the walk from the Marmaray platform
+const StationConnections = ({ stationId }: { stationId: string }) => {
+  const { t } = useLanguage();
+  const connections = getStationConnections(stationId);
+
+  if (connections.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="text-xs font-semibold text-gray-500 mb-1">{t('connections')}</div>
+      <div className="flex flex-col gap-1">
+        {connections.map(connection => (
+          <div key={`${connection.lineId}-${connection.name}`} className="flex items-center space-x-2 text-xs text-gray-700">
+            <span
+              className="inline-flex items-center space-x-1 px-1.5 py-0.5 rounded text-white font-semibold"
+              style={{ backgroundColor: connection.color }}
+            >
+              <TransitModeIcon mode={connection.mode} className="w-3 h-3" />
+              <span>{connection.lineId}</span>
+            </span>
+            <span className="truncate">{connection.name}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              • {Math.round(connection.walkTime / 60)} {t('min')} {t('walk')}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StationConnections;
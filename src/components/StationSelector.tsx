@@ -1,24 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Search, Clock, Star, X, Train, ChevronRight } from 'lucide-react';
+import { Search, Clock, Star, X, Train, ChevronRight, Monitor, Printer } from 'lucide-react';
 import { stations } from '../data/stations';
 import { useTimetableStore } from '../stores/timetableStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
 import { useLanguage } from '../contexts/LanguageContext';
 import { formatArrivalTime, formatMinutesAway } from '../utils/timetableCalculations';
 import { getFilteredStationsInOrder, getStationsGroupedBySection } from '../utils/stationOrdering';
+import { formatStationChainage } from '../utils/linearReferencing';
 import { useSwipeGesture } from '../hooks/useSwipeGesture';
+import StationConnections from './StationConnections';
+import NearestStation, { NearestStationButton } from './NearestStation';
 
 const StationSelector = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [selectedStation, setSelectedStation] = useState<typeof stations[0] | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [favorites, setFavorites] = useState<string[]>([]);
   const panelRef = useRef<HTMLDivElement>(null);
   
   const { 
     selectStation, 
     getTimetableForStation, 
-    isCalculating 
+    isCalculating,
+    lastUpdateTime
   } = useTimetableStore();
+  const { favoriteStations: favorites, toggleFavoriteStation: toggleFavorite } = usePreferencesStore();
   const { t } = useLanguage();
 
   // Get stations in route order with filtering
@@ -37,15 +42,6 @@ const StationSelector = () => {
     }
   );
 
-  // Toggle favorite station
-  const toggleFavorite = (stationId: string) => {
-    setFavorites(prev =>
-      prev.includes(stationId)
-        ? prev.filter(id => id !== stationId)
-        : [...prev, stationId]
-    );
-  };
-
   // Handle station selection
   const handleStationSelect = useCallback((station: typeof stations[0]) => {
     setSelectedStation(station);
@@ -130,6 +126,8 @@ const StationSelector = () => {
           {!selectedStation ? (
             // Station List
             <div className="flex-1 overflow-y-auto">
+              <NearestStationButton />
+
               {/* Favorites Section */}
               {favorites.length > 0 && (
                 <div className="p-4 border-b border-gray-200">
@@ -180,7 +178,7 @@ const StationSelector = () => {
                         </button>
                         <div className="text-left">
                           <div className="font-medium text-gray-900">{station.name}</div>
-                          <div className="text-xs text-gray-500">{station.distanceFromStart} {t('kmFromHalkali')}</div>
+                          <div className="text-xs text-gray-500">{formatStationChainage(station.id)} {t('kmFromHalkali')}</div>
                         </div>
                       </div>
                       <ChevronRight className="w-5 h-5 text-gray-400 group-hover:translate-x-1 transition-transform" />
@@ -215,7 +213,7 @@ const StationSelector = () => {
                             </button>
                             <div className="text-left">
                               <div className="font-medium text-gray-900">{station.name}</div>
-                              <div className="text-xs text-gray-500">{station.distanceFromStart} {t('kmFromHalkali')}</div>
+                              <div className="text-xs text-gray-500">{formatStationChainage(station.id)} {t('kmFromHalkali')}</div>
                             </div>
                           </div>
                           <ChevronRight className="w-5 h-5 text-gray-400 group-hover:translate-x-1 transition-transform" />
@@ -236,8 +234,32 @@ const StationSelector = () => {
                 >
                   {t('backToStations')}
                 </button>
-                <h3 className="text-xl font-bold text-gray-900">{selectedStation.name}</h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xl font-bold text-gray-900">{selectedStation.name}</h3>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => window.dispatchEvent(new CustomEvent('openDepartureBoard', {
+                        detail: { stationId: selectedStation.id }
+                      }))}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded"
+                    >
+                      <Monitor className="w-4 h-4" />
+                      <span>{t('departureBoard')}</span>
+                    </button>
+                    <button
+                      onClick={() => window.dispatchEvent(new CustomEvent('openTimetableSheet', {
+                        detail: { stationId: selectedStation.id }
+                      }))}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded"
+                    >
+                      <Printer className="w-4 h-4" />
+                      <span>{t('timetableSheet')}</span>
+                    </button>
+                  </div>
+                </div>
                 <p className="text-sm text-gray-600">{t('nextArrivals')}</p>
+                <StationConnections stationId={selectedStation.id} />
+                <NearestStation stationId={selectedStation.id} onSelectStation={handleStationSelect} />
               </div>
 
               <div className="p-4 space-y-3">
@@ -269,9 +291,19 @@ const StationSelector = () => {
                           <div className="text-lg font-bold text-gray-900">
                             {formatArrivalTime(arrival.arrivalTime)}
                           </div>
+                          {arrival.delay >= 60 && (
+                            <div className="text-xs font-medium text-red-600">
+                              +{Math.round(arrival.delay / 60)} {t('min')} {t('late')}
+                            </div>
+                          )}
                           <div className="text-sm text-gray-600">
                             {formatMinutesAway(arrival.minutesAway)}
                           </div>
+                          {formatArrivalTime(arrival.departureTime) !== formatArrivalTime(arrival.arrivalTime) && (
+                            <div className="text-xs text-gray-500">
+                              {t('departs')} {formatArrivalTime(arrival.departureTime)}
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -300,7 +332,7 @@ const StationSelector = () => {
               ) : (
                 <>
                   <Clock className="w-4 h-4" />
-                  <span>{t('updated')}: {new Date().toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}</span>
+                  <span>{t('updated')}: {lastUpdateTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}</span>
                 </>
               )}
             </div>
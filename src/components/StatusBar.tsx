@@ -1,20 +1,14 @@
-import { useEffect, useState } from 'react';
-import { Train, Clock, Activity, Github, Info, Globe } from 'lucide-react';
+import { Train, Activity, Github, Info, Globe, AlertTriangle } from 'lucide-react';
 import { useTrainStore } from '../stores/trainStore';
+import { useDisruptionStore } from '../stores/disruptionStore';
 import { useLanguage } from '../contexts/LanguageContext';
+import SimulationClock from './SimulationClock';
 
 const StatusBar = () => {
-  const [currentTime, setCurrentTime] = useState(new Date());
   const { trainPositions, isSimulationRunning } = useTrainStore();
+  const { disruptions } = useDisruptionStore();
   const { language, setLanguage, t } = useLanguage();
 
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
-
   const activeTrains = trainPositions.length;
 
   const toggleLanguage = () => {
@@ -54,22 +48,20 @@ const StatusBar = () => {
               <Activity className="w-4 h-4" />
               <span>{activeTrains} <span className="hidden md:inline">{t('trains')}</span></span>
             </div>
+
+            {disruptions.length > 0 && (
+              <div className="flex items-center space-x-2 text-amber-400">
+                <AlertTriangle className="w-4 h-4" />
+                <span>{disruptions.length} <span className="hidden md:inline">{t('disruptions')}</span></span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Right Side */}
         <div className="flex items-center space-x-2 sm:space-x-3">
-          {/* Time - Show abbreviated on mobile */}
-          <div className="flex items-center space-x-1 sm:space-x-2 text-gray-300">
-            <Clock className="w-4 h-4 hidden sm:block" />
-            <span className="font-mono text-xs sm:text-sm">
-              {currentTime.toLocaleTimeString('tr-TR', { 
-                hour: '2-digit', 
-                minute: '2-digit',
-                second: window.innerWidth > 640 ? '2-digit' : undefined
-              })}
-            </span>
-          </div>
+          {/* Simulation clock */}
+          <SimulationClock />
 
           {/* Actions - Hide text on mobile */}
           <div className="flex items-center space-x-1 sm:space-x-2">
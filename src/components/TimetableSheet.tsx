@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Download, Printer, X } from 'lucide-react';
+import { stations } from '../data/stations';
+import { useLanguage } from '../contexts/LanguageContext';
+import { translations } from '../i18n/translations';
+import {
+  buildStationTimetable,
+  formatTimetableTime,
+  serializeTimetableCsv,
+  type StationTimetable,
+  type TimetableDeparture
+} from '../utils/stationTimetable';
+
+type SheetLanguage = keyof typeof translations;
+
+const FOOTNOTE_LETTERS = 'abcdefgh';
+
+const stationName = (id: string) => stations.find(s => s.id === id)?.name ?? id;
+
+// Minutes past the hour, with a letter for shorter workings and a star for the late-night service
+const MinuteList = ({ departures, timetable }: { departures: TimetableDeparture[]; timetable: StationTimetable }) => (
+  <div className="flex flex-wrap gap-x-3 gap-y-1">
+    {departures.map(departure => {
+      const footnote = timetable.destinationIds.indexOf(departure.destinationId);
+      return (
+        <span key={`${departure.time}-${departure.destinationId}`} className="tabular-nums">
+          {formatTimetableTime(departure.time).slice(3)}
+          {footnote >= 0 && <sup>{FOOTNOTE_LETTERS[footnote]}</sup>}
+          {departure.lateNight && <sup>*</sup>}
+        </span>
+      );
+    })}
+  </div>
+);
+
+// Printable full-day timetable poster for a station, opened with the openTimetableSheet event
+const TimetableSheet = () => {
+  const { t, language } = useLanguage();
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [direction, setDirection] = useState<'forward' | 'backward'>('forward');
+  const [sheetLanguage, setSheetLanguage] = useState<SheetLanguage>(language);
+
+  useEffect(() => {
+    const handleOpen = (event: CustomEvent) => {
+      setStationId(event.detail.stationId);
+      setSheetLanguage(language);
+    };
+
+    window.addEventListener('openTimetableSheet', handleOpen as EventListener);
+    return () => window.removeEventListener('openTimetableSheet', handleOpen as EventListener);
+  }, [language]);
+
+  const timetables = useMemo(() => stationId
+    ? (['forward', 'backward'] as const).flatMap(dir => {
+        const timetable = buildStationTimetable(stationId, dir);
+        return timetable && timetable.hours.length > 0 ? [timetable] : [];
+      })
+    : [], [stationId]);
+
+  if (timetables.length === 0) return null;
+
+  // A terminus only has departures one way
+  const timetable = timetables.find(candidate => candidate.direction === direction) ?? timetables[0];
+  const text = translations[sheetLanguage];
+
+  const handleDownload = () => {
+    const csv = serializeTimetableCsv(timetable, {
+      column: text.day,
+      time: text.departs,
+      destination: text.destination,
+      lateNight: text.lateNightService,
+      yes: text.yes,
+      weekday: text.weekdays,
+      weekend: text.weekends
+    });
+    // The byte order mark lets spreadsheet apps read Turkish characters correctly
+    const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${timetable.station.name}-${stationName(timetable.terminusId)}-${sheetLanguage}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const hasLateNight = timetable.hours.some(hour => hour.weekend.some(departure => departure.lateNight));
+
+  return createPortal(
+    <div className="timetable-sheet fixed inset-0 z-[80] bg-gray-100 overflow-auto print:static print:bg-white print:overflow-visible">
+      {/* Controls */}
+      <div className="sticky top-0 flex flex-wrap items-center gap-2 px-4 py-3 bg-white border-b border-gray-200 print:hidden">
+        {timetables.map(candidate => (
+          <button
+            key={candidate.direction}
+            onClick={() => setDirection(candidate.direction)}
+            className={`px-3 py-1.5 text-sm rounded-lg ${
+              candidate === timetable ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            → {stationName(candidate.terminusId)}
+          </button>
+        ))}
+        <div className="flex p-1 bg-gray-100 rounded-lg text-sm">
+          {(['tr', 'en'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSheetLanguage(option)}
+              className={`px-2 py-0.5 rounded-md ${sheetLanguage === option ? 'bg-white shadow font-medium' : 'text-gray-600'}`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1" />
+        <button
+          onClick={() => window.print()}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Printer className="w-4 h-4" />
+          <span>{t('printTimetable')}</span>
+        </button>
+        <button
+          onClick={handleDownload}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+        >
+          <Download className="w-4 h-4" />
+          <span>{t('downloadCsv')}</span>
+        </button>
+        <button onClick={() => setStationId(null)} className="p-2 text-gray-500 hover:text-gray-700" aria-label={t('close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Poster */}
+      <div className="max-w-3xl mx-auto my-6 p-8 bg-white shadow print:m-0 print:p-0 print:max-w-none print:shadow-none">
+        <div className="flex items-end justify-between border-b-4 border-blue-700 pb-3 mb-4">
+          <div>
+            <div className="text-sm font-semibold text-blue-700">MARMARAY</div>
+            <h1 className="text-3xl font-bold text-gray-900">{timetable.station.name}</h1>
+          </div>
+          <div className="text-right text-xl font-semibold text-gray-900">
+            → {stationName(timetable.terminusId)}
+          </div>
+        </div>
+
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-blue-700 text-white">
+              <th className="w-16 py-1.5 px-2 text-left capitalize">{text.hour}</th>
+              <th className="py-1.5 px-2 text-left">{text.weekdays}</th>
+              <th className="py-1.5 px-2 text-left">{text.weekends}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {timetable.hours.map(hour => (
+              <tr key={hour.hour} className="border-b border-gray-200 align-top break-inside-avoid">
+                <td className="py-1 px-2 font-bold tabular-nums">{String(hour.hour % 24).padStart(2, '0')}</td>
+                <td className="py-1 px-2 border-l border-gray-200">
+                  <MinuteList departures={hour.weekday} timetable={timetable} />
+                </td>
+                <td className="py-1 px-2 border-l border-gray-200">
+                  <MinuteList departures={hour.weekend} timetable={timetable} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-4 space-y-1 text-xs text-gray-600">
+          {timetable.destinationIds.length > 0 && (
+            <p>
+              {text.terminatesAt}:{' '}
+              {timetable.destinationIds.map((id, index) => `${FOOTNOTE_LETTERS[index]} ${stationName(id)}`).join(', ')}
+            </p>
+          )}
+          {hasLateNight && <p>* {text.lateNightNote}</p>}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default TimetableSheet;
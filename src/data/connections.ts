@@ -0,0 +1,225 @@
+import type { TransitConnection } from '../types';
+
+// Rail, tram, ferry and Metrobüs lines within walking distance of Marmaray stations
+// Headways are the off-peak values published by Metro İstanbul, İETT, Şehir Hatları and İDO;
+// walk times are from the Marmaray platform to the other line's platform or pier
+export const stationConnections: Record<string, TransitConnection[]> = {
+  // Yenikapı
+  '234': [
+    {
+      lineId: 'M1A',
+      name: 'Yenikapı – Atatürk Havalimanı',
+      mode: 'metro',
+      color: '#E32119',
+      walkTime: 240,
+      headway: 6,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Aksaray', travelTime: 2 },
+        { name: 'Otogar', travelTime: 15 },
+        { name: 'Atatürk Havalimanı', travelTime: 32 }
+      ]
+    },
+    {
+      lineId: 'M1B',
+      name: 'Yenikapı – Kirazlı',
+      mode: 'metro',
+      color: '#E32119',
+      walkTime: 240,
+      headway: 6,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Aksaray', travelTime: 2 },
+        { name: 'Otogar', travelTime: 15 },
+        { name: 'Kirazlı', travelTime: 27 }
+      ]
+    },
+    {
+      lineId: 'M2',
+      name: 'Yenikapı – Hacıosman',
+      mode: 'metro',
+      color: '#00A650',
+      walkTime: 300,
+      headway: 4,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Vezneciler', travelTime: 4 },
+        { name: 'Şişhane', travelTime: 8 },
+        { name: 'Taksim', travelTime: 11 },
+        { name: 'Levent', travelTime: 20 },
+        { name: 'Hacıosman', travelTime: 32 }
+      ]
+    },
+    {
+      lineId: 'İDO',
+      name: 'Yenikapı – Yalova',
+      mode: 'ferry',
+      color: '#1E3A8A',
+      walkTime: 600,
+      headway: 120,
+      firstDeparture: '07:30',
+      lastDeparture: '21:30',
+      stops: [{ name: 'Yalova', travelTime: 70 }]
+    }
+  ],
+
+  // Sirkeci
+  '65': [
+    {
+      lineId: 'T1',
+      name: 'Kabataş – Bağcılar',
+      mode: 'tram',
+      color: '#0066B3',
+      walkTime: 180,
+      headway: 5,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Eminönü', travelTime: 2 },
+        { name: 'Sultanahmet', travelTime: 5 },
+        { name: 'Karaköy', travelTime: 5 },
+        { name: 'Kabataş', travelTime: 10 },
+        { name: 'Beyazıt', travelTime: 9 },
+        { name: 'Bağcılar', travelTime: 55 }
+      ]
+    },
+    {
+      lineId: 'Vapur',
+      name: 'Eminönü – Kadıköy',
+      mode: 'ferry',
+      color: '#0E7490',
+      walkTime: 360,
+      headway: 20,
+      firstDeparture: '07:00',
+      lastDeparture: '23:00',
+      stops: [{ name: 'Kadıköy', travelTime: 25 }]
+    }
+  ],
+
+  // Üsküdar
+  '68': [
+    {
+      lineId: 'M5',
+      name: 'Üsküdar – Samandıra Merkez',
+      mode: 'metro',
+      color: '#8E4A9B',
+      walkTime: 240,
+      headway: 6,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Altunizade', travelTime: 4 },
+        { name: 'Ümraniye', travelTime: 13 },
+        { name: 'Çekmeköy', travelTime: 24 },
+        { name: 'Samandıra Merkez', travelTime: 35 }
+      ]
+    },
+    {
+      lineId: 'Vapur',
+      name: 'Üsküdar – Karaköy – Eminönü',
+      mode: 'ferry',
+      color: '#0E7490',
+      walkTime: 420,
+      headway: 15,
+      firstDeparture: '07:00',
+      lastDeparture: '23:00',
+      stops: [
+        { name: 'Karaköy', travelTime: 15 },
+        { name: 'Eminönü', travelTime: 20 }
+      ]
+    },
+    {
+      lineId: 'Vapur',
+      name: 'Üsküdar – Beşiktaş',
+      mode: 'ferry',
+      color: '#0E7490',
+      walkTime: 420,
+      headway: 20,
+      firstDeparture: '07:00',
+      lastDeparture: '23:00',
+      stops: [{ name: 'Beşiktaş', travelTime: 15 }]
+    }
+  ],
+
+  // Ayrılıkçeşme
+  '67': [
+    {
+      lineId: 'M4',
+      name: 'Kadıköy – Sabiha Gökçen Havalimanı',
+      mode: 'metro',
+      color: '#E5007D',
+      walkTime: 180,
+      headway: 6,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Kadıköy', travelTime: 3 },
+        { name: 'Kozyatağı', travelTime: 10 },
+        { name: 'Kartal', travelTime: 27 },
+        { name: 'Sabiha Gökçen Havalimanı', travelTime: 45 }
+      ]
+    }
+  ],
+
+  // Söğütlüçeşme
+  '297': [
+    {
+      lineId: '34',
+      name: 'Metrobüs Söğütlüçeşme – Beylikdüzü',
+      mode: 'metrobus',
+      color: '#C1272D',
+      walkTime: 180,
+      headway: 3,
+      // Runs around the clock
+      firstDeparture: '04:00',
+      lastDeparture: '03:57',
+      stops: [
+        { name: 'Zincirlikuyu', travelTime: 20 },
+        { name: 'Mecidiyeköy', travelTime: 24 },
+        { name: 'Cevizlibağ', travelTime: 45 },
+        { name: 'Avcılar', travelTime: 70 },
+        { name: 'Beylikdüzü', travelTime: 90 }
+      ]
+    }
+  ],
+
+  // Zeytinburnu
+  '265': [
+    {
+      lineId: 'T1',
+      name: 'Kabataş – Bağcılar',
+      mode: 'tram',
+      color: '#0066B3',
+      walkTime: 300,
+      headway: 5,
+      firstDeparture: '06:00',
+      lastDeparture: '00:00',
+      stops: [
+        { name: 'Cevizlibağ', travelTime: 6 },
+        { name: 'Sultanahmet', travelTime: 32 },
+        { name: 'Bağcılar', travelTime: 24 }
+      ]
+    }
+  ],
+
+  // Bostancı
+  '292': [
+    {
+      lineId: 'Adalar',
+      name: 'Bostancı – Adalar',
+      mode: 'ferry',
+      color: '#0E7490',
+      walkTime: 480,
+      headway: 60,
+      firstDeparture: '07:00',
+      lastDeparture: '21:00',
+      stops: [
+        { name: 'Kınalıada', travelTime: 20 },
+        { name: 'Büyükada', travelTime: 45 }
+      ]
+    }
+  ]
+};
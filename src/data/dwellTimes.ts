@@ -0,0 +1,21 @@
+// Time trains stand at the platform, in seconds
+// The official timetable publishes one time per station; we treat it as the departure
+// and place the arrival one dwell time earlier
+export const DEFAULT_DWELL_TIME = 30;
+
+// Busy interchanges hold trains longer while passengers change lines
+export const stationDwellTimes: Record<string, number> = {
+  '234': 60, // Yenikapı: M1A, M1B, M2 and İDO ferries
+  '65': 45, // Sirkeci: T1 tram and ferries
+  '68': 60, // Üsküdar: M5 metro and ferries
+  '67': 60, // Ayrılıkçeşme: M4 metro
+  '297': 45, // Söğütlüçeşme: Metrobüs
+  '292': 45 // Bostancı: ferries and coastal buses
+};
+
+// Crowded trains need longer stops in the rush hours
+// The published timetable is the same on every day, so the peaks apply every day too
+export const peakDwellPeriods: { start: string; end: string; multiplier: number }[] = [
+  { start: '07:00', end: '09:30', multiplier: 1.5 },
+  { start: '17:00', end: '19:30', multiplier: 1.5 }
+];
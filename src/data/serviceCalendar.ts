@@ -0,0 +1,66 @@
+import type { CalendarException, DayServiceId, DayServicePattern } from '../types';
+
+// The published timetable is the weekday service. Weekend demand is lighter,
+// so the Ataköy-Pendik short workings run less often while the full line keeps its headway
+export const dayServicePatterns: Record<DayServiceId, DayServicePattern> = {
+  weekday: {},
+  saturday: { routeHeadways: { 'marmaray-short': 10 } },
+  sunday: { routeHeadways: { 'marmaray-short': 12, 'marmaray-evening': 12 } }
+};
+
+// Official public holidays run the Sunday-style holiday timetable
+// Fixed-date holidays repeat every year (MM-DD)
+export const publicHolidays: CalendarException[] = [
+  { date: '01-01', name: 'Yılbaşı', dayType: 'holiday' },
+  { date: '04-23', name: 'Ulusal Egemenlik ve Çocuk Bayramı', dayType: 'holiday' },
+  { date: '05-01', name: 'Emek ve Dayanışma Günü', dayType: 'holiday' },
+  { date: '05-19', name: 'Atatürk\'ü Anma, Gençlik ve Spor Bayramı', dayType: 'holiday' },
+  { date: '07-15', name: 'Demokrasi ve Milli Birlik Günü', dayType: 'holiday' },
+  { date: '08-30', name: 'Zafer Bayramı', dayType: 'holiday' },
+  { date: '10-29', name: 'Cumhuriyet Bayramı', dayType: 'holiday' }
+];
+
+// Ramazan and Kurban Bayramı follow the lunar calendar (Diyanet announcements)
+// The night before the first day of each bayram runs the late-night service
+export const religiousHolidays: CalendarException[] = [
+  // 2025
+  { date: '2025-03-29', name: 'Ramazan Bayramı Arifesi', lateNight: true },
+  { date: '2025-03-30', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2025-03-31', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2025-04-01', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2025-06-05', name: 'Kurban Bayramı Arifesi', lateNight: true },
+  { date: '2025-06-06', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2025-06-07', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2025-06-08', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2025-06-09', name: 'Kurban Bayramı', dayType: 'holiday' },
+  // 2026
+  { date: '2026-03-19', name: 'Ramazan Bayramı Arifesi', lateNight: true },
+  { date: '2026-03-20', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2026-03-21', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2026-03-22', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2026-05-26', name: 'Kurban Bayramı Arifesi', lateNight: true },
+  { date: '2026-05-27', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2026-05-28', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2026-05-29', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2026-05-30', name: 'Kurban Bayramı', dayType: 'holiday' },
+  // 2027
+  { date: '2027-03-08', name: 'Ramazan Bayramı Arifesi', lateNight: true },
+  { date: '2027-03-09', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2027-03-10', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2027-03-11', name: 'Ramazan Bayramı', dayType: 'holiday' },
+  { date: '2027-05-15', name: 'Kurban Bayramı Arifesi', lateNight: true },
+  { date: '2027-05-16', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2027-05-17', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2027-05-18', name: 'Kurban Bayramı', dayType: 'holiday' },
+  { date: '2027-05-19', name: 'Kurban Bayramı', dayType: 'holiday' }
+];
+
+// Nights with extended service every year
+export const specialServiceNights: CalendarException[] = [
+  { date: '12-31', name: 'Yılbaşı Gecesi', lateNight: true }
+];
+
+// One-off changes announced by the operator (engineering works, events, extra night service)
+// Checked last, so an entry here overrides every rule above for its date, e.g.
+// { date: '2026-11-08', name: 'İstanbul Maratonu', lateNight: false }
+export const serviceDateOverrides: CalendarException[] = [];
@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { useTimetableStore } from '../stores/timetableStore';
+import { useJourneyStore } from '../stores/journeyStore';
+import { getSimulationTime } from '../stores/clockStore';
+import { formatLinkTime, parseDeepLink, resolveLinkTime, updateDeepLink, type DeepLink } from '../utils/deepLinks';
+
+// The journey part of the deep link for the journey store's current state
+const getJourneyLink = (): Partial<DeepLink> => {
+  const { fromStation, toStation, fromPoint, toPoint, departAt, arriveBy } = useJourneyStore.getState();
+  const from = fromPoint ?? fromStation?.id;
+  const to = toPoint ?? toStation?.id;
+  if (!from || !to) {
+    return { from: undefined, to: undefined, at: undefined, by: undefined, date: undefined };
+  }
+  const time = arriveBy ?? departAt;
+  const linkTime = time ? formatLinkTime(time) : undefined;
+  return {
+    from,
+    to,
+    at: departAt ? linkTime?.clock : undefined,
+    by: arriveBy ? linkTime?.clock : undefined,
+    date: linkTime?.date
+  };
+};
+
+/**
+ * Open the station or journey in the page's deep link, then keep the link in step with
+ * what is shown. Trains are handled by the map, which knows when their positions are ready,
+ * and the departure board keeps its own station in the link.
+ */
+export const useDeepLinks = () => {
+  useEffect(() => {
+    const link = parseDeepLink(window.location.search);
+
+    if (link.from && link.to) {
+      const now = getSimulationTime();
+      useJourneyStore.getState().openJourney(link.from, link.to, {
+        departAt: link.at ? resolveLinkTime(link.at, link.date, now) : null,
+        arriveBy: link.by ? resolveLinkTime(link.by, link.date, now) : null
+      });
+      window.dispatchEvent(new CustomEvent('openRoutePlanner'));
+    }
+
+    if (link.station) {
+      window.dispatchEvent(new CustomEvent('openStationTimetable', {
+        detail: { stationId: link.station }
+      }));
+    }
+
+    if (link.board) {
+      window.dispatchEvent(new CustomEvent('openDepartureBoard', {
+        detail: { stationId: link.board }
+      }));
+    }
+
+    const unsubscribeTimetable = useTimetableStore.subscribe((state, previous) => {
+      if (state.selectedStationId !== previous.selectedStationId) {
+        updateDeepLink({ station: state.selectedStationId ?? undefined });
+      }
+    });
+
+    const unsubscribeJourney = useJourneyStore.subscribe((state, previous) => {
+      if (
+        state.fromStation !== previous.fromStation ||
+        state.toStation !== previous.toStation ||
+        state.fromPoint !== previous.fromPoint ||
+        state.toPoint !== previous.toPoint ||
+        state.departAt !== previous.departAt ||
+        state.arriveBy !== previous.arriveBy
+      ) {
+        updateDeepLink(getJourneyLink());
+      }
+    });
+
+    return () => {
+      unsubscribeTimetable();
+      unsubscribeJourney();
+    };
+  }, []);
+};
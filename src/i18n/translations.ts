@@ -6,9 +6,20 @@ export const translations = {
     offline: 'çevrimdışı',
     live: 'simülasyon',
     trains: 'tren',
+    disruptions: 'aksaklık',
     about: 'Hakkında',
     reportIssue: 'Sorun Bildir',
 
+    // Simulation clock
+    simulationClock: 'Simülasyon saati',
+    realTime: 'Gerçek zaman',
+    simulatedTime: 'Simüle edilen zaman',
+    dateAndTime: 'Tarih ve saat',
+    play: 'Oynat',
+    pause: 'Duraklat',
+    backToRealTime: 'Şimdiye dön',
+    speed: 'Hız',
+
 
     // Footer
     openSource: 'Açık Kaynak',
@@ -34,6 +45,8 @@ export const translations = {
     noUpcomingArrivals: 'Yaklaşan geliş yok',
     updated: 'Güncellendi',
     simulationData: 'Simülasyon verisi',
+    departs: 'Kalkış',
+    late: 'gecikmeli',
 
     // Time formats
     second: 'saniye',
@@ -81,6 +94,10 @@ export const translations = {
     debugOn: 'Hata Ayıklama: AÇIK',
     areaSelector: 'Alan Seçici',
     selectionOn: 'Seçim: AÇIK',
+    positionEngine: 'Konum motoru',
+    precomputedEngine: 'Önceden hesaplanmış',
+    simpleEngine: 'Basit',
+    graphEngine: 'Ağ grafiği',
     liveData: 'Canlı veri',
     kmFromHalkali: 'km Halkalı\'dan',
     train: 'Tren',
@@ -113,6 +130,70 @@ export const translations = {
     eastbound: 'doğuya doğru',
     westbound: 'batıya doğru',
     following: 'takip ediliyor',
+    transfer: 'aktarma',
+    transfers: 'aktarma',
+    direct: 'Aktarmasız',
+    changeAt: 'Aktarma',
+    otherOptions: 'Diğer seçenekler',
+    leaveNow: 'Şimdi çık',
+    arriveBy: 'Varış saati',
+    buffer: 'Pay',
+    latestDeparture: 'En Geç Kalkış',
+    connections: 'Aktarma hatları',
+    walk: 'yürüme',
+    startOnLine: 'Bağlantı hattından başla',
+    endOnLine: 'Bağlantı hattıyla devam et',
+    marmarayStationOnly: 'Yalnızca Marmaray istasyonu',
+    pickOnMap: 'Haritadan nokta seç',
+    useCoordinates: 'Koordinatları kullan',
+    clickMapToPick: 'Bir nokta seçmek için haritaya tıklayın',
+    selectedPoint: 'Seçilen nokta',
+    nearestStation: 'En yakın istasyon',
+    locating: 'Konumunuz bulunuyor...',
+    locationDenied: 'Konum izni verilmedi',
+    locationUnavailable: 'Konumunuz bulunamadı',
+    locationTimeout: 'Konum isteği zaman aşımına uğradı',
+    locationUnsupported: 'Tarayıcınız konum bulmayı desteklemiyor',
+    fromYourLocation: 'konumunuzdan',
+    canMakeIt: 'Yetişebilirsiniz',
+    minToSpare: 'dk payınız var',
+    willMissIt: 'Yetişemezsiniz',
+    nextYouCanMake: 'Yetişebileceğiniz sonraki',
+    noDeparturesSoon: 'Yakında kalkış yok',
+    otherNearbyStations: 'Yakındaki diğer istasyonlar',
+    savedCommutes: 'Kayıtlı yolculuklar',
+    favoriteRoutes: 'Favori güzergahlar',
+    recentSearches: 'Son aramalar',
+    clear: 'Temizle',
+    remove: 'Kaldır',
+    addFavoriteRoute: 'Favorilere ekle',
+    removeFavoriteRoute: 'Favorilerden çıkar',
+    saveCommute: 'Yolculuğu kaydet',
+    remindMeToLeave: 'Çıkma zamanını hatırlat',
+    leaveAfter: 'En erken çıkış',
+    remindBefore: 'Önceden hatırlat',
+    walkFromHome: 'Evden yürüme (dk)',
+    leaveAt: 'Çıkış',
+    timeToLeave: 'Yola çıkma zamanı',
+    snooze: 'Ertele',
+    dismiss: 'Kapat',
+    notificationsOff: 'Bildirimler kapalı; hatırlatmalar yalnızca bu sayfada görünür',
+    departureBoard: 'Kalkış tablosu',
+    callingAt: 'Durduğu istasyonlar',
+    departing: 'Kalkıyor',
+    fullScreen: 'Tam ekran',
+    pauseRotation: 'Yön değişimini durdur',
+    resumeRotation: 'Yön değişimini sürdür',
+    close: 'Kapat',
+    timetableSheet: 'Tarife çizelgesi',
+    weekdays: 'Hafta içi',
+    weekends: 'Hafta sonu',
+    printTimetable: 'Yazdır',
+    downloadCsv: 'CSV indir',
+    day: 'Gün',
+    yes: 'Evet',
+    lateNightNote: 'Gece seferi: cuma ve cumartesi geceleri',
+    terminatesAt: 'Son durak',
 
     // Service Status
     serviceNotRunning: 'Servis çalışmıyor',
@@ -135,6 +216,12 @@ export const translations = {
     serviceIsCurrentlyRunning: 'Servis şu anda çalışıyor',
     serviceStartsIn: 'Servis şu sürede başlıyor',
     serviceInformationUnavailable: 'Servis bilgisi mevcut değil',
+    weekdayTimetable: 'Hafta içi tarifesi',
+    saturdayTimetable: 'Cumartesi tarifesi',
+    sundayTimetable: 'Pazar tarifesi',
+    holidayTimetable: 'Resmi tatil tarifesi',
+    lateNightService: 'Gece seferleri',
+    noServiceToday: 'Bugün sefer yok',
     
     // Time formatting
     hour: 'saat',
@@ -151,6 +238,8 @@ export const translations = {
     // Train popup
     trainPopupDirection: 'Yön',
     trainPopupProgress: 'İlerleme',
+    trainPopupAtStation: 'Peronda',
+    trainPopupSpeed: 'Hız',
 
     // Routes info
     routeStatusInfo: 'Hat durumu, servis programları ve gerçek zamanlı verilere göre otomatik olarak güncellenir.',
@@ -163,7 +252,7 @@ export const translations = {
 
     // Map legend train info
     arrowsPointToNextStation: 'Oklar bir sonraki istasyonu gösterir',
-    multipleTrainsSpreadToAvoidOverlap: 'Birden fazla tren üst üste binmemek için dağılır'
+    trainsKeepBlockSpacing: 'Aynı hattaki trenler sinyal bloklarıyla aralıklı ilerler'
   },
 
   en: {
@@ -173,9 +262,20 @@ export const translations = {
     offline: 'offline',
     live: 'simulation',
     trains: 'trains',
+    disruptions: 'disruptions',
     about: 'About',
     reportIssue: 'Report Issue',
 
+    // Simulation clock
+    simulationClock: 'Simulation clock',
+    realTime: 'Real time',
+    simulatedTime: 'Simulated time',
+    dateAndTime: 'Date and time',
+    play: 'Play',
+    pause: 'Pause',
+    backToRealTime: 'Back to now',
+    speed: 'Speed',
+
 
     // Footer
     openSource: 'Open Source',
@@ -201,6 +301,8 @@ export const translations = {
     noUpcomingArrivals: 'No upcoming arrivals',
     updated: 'Updated',
     simulationData: 'Simulation data',
+    departs: 'Departs',
+    late: 'late',
 
     // Time formats
     second: 'second',
@@ -248,6 +350,10 @@ export const translations = {
     debugOn: 'Debug: ON',
     areaSelector: 'Area Selector',
     selectionOn: 'Selection: ON',
+    positionEngine: 'Position engine',
+    precomputedEngine: 'Precomputed',
+    simpleEngine: 'Simple',
+    graphEngine: 'Network graph',
     liveData: 'Live data',
     kmFromHalkali: 'km from Halkalı',
     train: 'Train',
@@ -280,6 +386,70 @@ export const translations = {
     eastbound: 'eastbound',
     westbound: 'westbound',
     following: 'Following',
+    transfer: 'change',
+    transfers: 'changes',
+    direct: 'Direct',
+    changeAt: 'Change at',
+    otherOptions: 'Other options',
+    leaveNow: 'Leave now',
+    arriveBy: 'Arrive by',
+    buffer: 'Buffer',
+    latestDeparture: 'Latest Departure',
+    connections: 'Connecting lines',
+    walk: 'walk',
+    startOnLine: 'Start on a connecting line',
+    endOnLine: 'Continue on a connecting line',
+    marmarayStationOnly: 'Marmaray station only',
+    pickOnMap: 'Pick a point on the map',
+    useCoordinates: 'Use coordinates',
+    clickMapToPick: 'Click the map to choose a point',
+    selectedPoint: 'Selected point',
+    nearestStation: 'Nearest station',
+    locating: 'Finding your location...',
+    locationDenied: 'Location permission was denied',
+    locationUnavailable: 'Your location could not be found',
+    locationTimeout: 'The location request timed out',
+    locationUnsupported: 'Your browser does not support location',
+    fromYourLocation: 'from your location',
+    canMakeIt: 'You can make it',
+    minToSpare: 'min to spare',
+    willMissIt: 'You\'ll miss it',
+    nextYouCanMake: 'Next you can make',
+    noDeparturesSoon: 'No departures soon',
+    otherNearbyStations: 'Other nearby stations',
+    savedCommutes: 'Saved commutes',
+    favoriteRoutes: 'Favorite routes',
+    recentSearches: 'Recent searches',
+    clear: 'Clear',
+    remove: 'Remove',
+    addFavoriteRoute: 'Add to favorites',
+    removeFavoriteRoute: 'Remove from favorites',
+    saveCommute: 'Save commute',
+    remindMeToLeave: 'Remind me when to leave',
+    leaveAfter: 'Leave after',
+    remindBefore: 'Remind before',
+    walkFromHome: 'Walk from home (min)',
+    leaveAt: 'Leave at',
+    timeToLeave: 'Time to leave',
+    snooze: 'Snooze',
+    dismiss: 'Dismiss',
+    notificationsOff: 'Notifications are off; reminders only show on this page',
+    departureBoard: 'Departure board',
+    callingAt: 'Calling at',
+    departing: 'Departing',
+    fullScreen: 'Full screen',
+    pauseRotation: 'Pause rotation',
+    resumeRotation: 'Resume rotation',
+    close: 'Close',
+    timetableSheet: 'Timetable sheet',
+    weekdays: 'Weekdays',
+    weekends: 'Weekends',
+    printTimetable: 'Print',
+    downloadCsv: 'Download CSV',
+    day: 'Day',
+    yes: 'Yes',
+    lateNightNote: 'Late-night service: Friday and Saturday nights',
+    terminatesAt: 'Terminates at',
 
     // Service Status
     serviceNotRunning: 'Service not running',
@@ -302,6 +472,12 @@ export const translations = {
     serviceIsCurrentlyRunning: 'Service is currently running',
     serviceStartsIn: 'Service starts in',
     serviceInformationUnavailable: 'Service information unavailable',
+    weekdayTimetable: 'Weekday timetable',
+    saturdayTimetable: 'Saturday timetable',
+    sundayTimetable: 'Sunday timetable',
+    holidayTimetable: 'Holiday timetable',
+    lateNightService: 'Late-night service',
+    noServiceToday: 'No service today',
 
     // Time formatting
     hour: 'hour',
@@ -318,6 +494,8 @@ export const translations = {
     // Train popup
     trainPopupDirection: 'Direction',
     trainPopupProgress: 'Progress',
+    trainPopupAtStation: 'At platform',
+    trainPopupSpeed: 'Speed',
 
     // Routes info
     routeStatusInfo: 'Route status is updated automatically based on service schedules and real-time data.',
@@ -330,7 +508,7 @@ export const translations = {
 
     // Map legend train info
     arrowsPointToNextStation: '▲ Arrows point to next station',
-    multipleTrainsSpreadToAvoidOverlap: 'Multiple trains spread to avoid overlap'
+    trainsKeepBlockSpacing: 'Signal blocks keep trains on the same track apart'
   }
 };
 
@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+
+export const SIMULATION_SPEEDS = [1, 2, 5, 10, 30, 60] as const;
+export type SimulationSpeed = typeof SIMULATION_SPEEDS[number];
+
+interface ClockStore {
+  // State
+  // The simulated time is anchorTime plus (real time elapsed since anchorRealTime) × speed
+  anchorTime: number;
+  anchorRealTime: number;
+  speed: SimulationSpeed;
+  isPlaying: boolean;
+  isLive: boolean; // following the wall clock
+
+  // Actions
+  getTime: () => Date;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: SimulationSpeed) => void;
+  setTime: (time: Date) => void;
+  goLive: () => void;
+}
+
+export const useClockStore = create<ClockStore>((set, get) => {
+  // Re-anchor at the current simulated time so changing speed or pausing does not jump
+  const reanchor = () => {
+    const now = Date.now();
+    return { anchorTime: get().getTime().getTime(), anchorRealTime: now };
+  };
+
+  return {
+    // Initial state
+    anchorTime: Date.now(),
+    anchorRealTime: Date.now(),
+    speed: 1,
+    isPlaying: true,
+    isLive: true,
+
+    // Current simulated time
+    getTime: () => {
+      const { anchorTime, anchorRealTime, speed, isPlaying, isLive } = get();
+      if (isLive) return new Date();
+      if (!isPlaying) return new Date(anchorTime);
+      return new Date(anchorTime + (Date.now() - anchorRealTime) * speed);
+    },
+
+    play: () => {
+      if (get().isPlaying) return;
+      set({ anchorRealTime: Date.now(), isPlaying: true });
+    },
+
+    pause: () => {
+      if (!get().isPlaying) return;
+      set({ ...reanchor(), isPlaying: false, isLive: false });
+    },
+
+    setSpeed: (speed: SimulationSpeed) => {
+      set({ ...reanchor(), speed, isLive: get().isLive && speed === 1 });
+    },
+
+    // Jump to an arbitrary date and time, keeping the current play state and speed
+    setTime: (time: Date) => {
+      set({ anchorTime: time.getTime(), anchorRealTime: Date.now(), isLive: false });
+    },
+
+    // Back to real time at normal speed
+    goLive: () => {
+      const now = Date.now();
+      set({ anchorTime: now, anchorRealTime: now, speed: 1, isPlaying: true, isLive: true });
+    }
+  };
+});
+
+/**
+ * Current simulated time, for stores and utilities outside React
+ */
+export function getSimulationTime(): Date {
+  return useClockStore.getState().getTime();
+}
@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { useTrainStore } from './trainStore';
+import { usePreferencesStore } from './preferencesStore';
+import { getSimulationTime } from './clockStore';
+import {
+  emptyAlertState,
+  getDueAlerts,
+  markAlerted,
+  snoozeAlert,
+  type CommuteAlertState,
+  type DueAlert
+} from '../utils/commuteAlerts';
+
+interface CommuteAlertStore {
+  // State
+  alertState: CommuteAlertState;
+  activeAlerts: DueAlert[]; // shown until dismissed, snoozed or time to leave has passed
+  lastCheckTime: Date | null;
+
+  // Actions
+  startChecking: () => void;
+  stopChecking: () => void;
+  checkAlerts: (now?: Date) => DueAlert[];
+  snooze: (commuteId: string, minutes: number) => void;
+  dismiss: (commuteId: string) => void;
+}
+
+export const useCommuteAlertStore = create<CommuteAlertStore>((set, get) => {
+  let checkInterval: number | null = null;
+
+  return {
+    // Initial state
+    alertState: emptyAlertState,
+    activeAlerts: [],
+    lastCheckTime: null,
+
+    // Check every second and work the alerts out again after 15 simulated seconds
+    startChecking: () => {
+      if (checkInterval) return;
+      checkInterval = setInterval(() => {
+        const { lastCheckTime } = get();
+        const elapsed = lastCheckTime
+          ? Math.abs(getSimulationTime().getTime() - lastCheckTime.getTime())
+          : Infinity;
+        if (elapsed >= 15000) {
+          get().checkAlerts();
+        }
+      }, 1000);
+    },
+
+    stopChecking: () => {
+      if (checkInterval) {
+        clearInterval(checkInterval);
+        checkInterval = null;
+      }
+    },
+
+    // Find the alerts that are due and add them to the active ones; returns the new ones
+    checkAlerts: (now: Date = getSimulationTime()) => {
+      const commutes = usePreferencesStore.getState().commutes;
+      const trainPositions = useTrainStore.getState().trainPositions;
+      const { alertState, activeAlerts } = get();
+
+      const due = getDueAlerts(commutes, alertState, now, trainPositions);
+      const stillActive = activeAlerts.filter(alert =>
+        alert.leaveAt > now &&
+        commutes.some(commute => commute.id === alert.commuteId && commute.alert?.enabled) &&
+        !due.some(newAlert => newAlert.commuteId === alert.commuteId)
+      );
+
+      set({
+        alertState: markAlerted(alertState, due),
+        activeAlerts: [...stillActive, ...due],
+        lastCheckTime: now
+      });
+      return due;
+    },
+
+    snooze: (commuteId: string, minutes: number) => {
+      const until = new Date(getSimulationTime().getTime() + minutes * 60 * 1000);
+      set({
+        alertState: snoozeAlert(get().alertState, commuteId, until),
+        activeAlerts: get().activeAlerts.filter(alert => alert.commuteId !== commuteId)
+      });
+    },
+
+    dismiss: (commuteId: string) => {
+      set({ activeAlerts: get().activeAlerts.filter(alert => alert.commuteId !== commuteId) });
+    }
+  };
+});
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import type { Disruption } from '../types';
+import { setDisruptions } from '../utils/delayModel';
+import { useTimetableStore } from './timetableStore';
+import { useJourneyStore } from './journeyStore';
+
+interface DisruptionStore {
+  // State
+  disruptions: Disruption[];
+
+  // Actions
+  addDisruption: (disruption: Disruption) => void;
+  removeDisruption: (id: string) => void;
+  clearDisruptions: () => void;
+}
+
+export const useDisruptionStore = create<DisruptionStore>((set, get) => {
+  // Hand the disruptions to the delay model and refresh what is on screen;
+  // train positions pick the change up on their next update
+  const update = (disruptions: Disruption[]) => {
+    setDisruptions(disruptions);
+    set({ disruptions });
+    useTimetableStore.getState().updateTimetables();
+    useJourneyStore.getState().refreshJourney();
+  };
+
+  return {
+    // Initial state
+    disruptions: [],
+
+    // Inject a disruption, replacing one with the same id
+    addDisruption: (disruption: Disruption) => {
+      update([...get().disruptions.filter(d => d.id !== disruption.id), disruption]);
+    },
+
+    removeDisruption: (id: string) => {
+      update(get().disruptions.filter(d => d.id !== id));
+    },
+
+    clearDisruptions: () => {
+      update([]);
+    }
+  };
+});
+
+// Make disruptions injectable from the console while developing, e.g.
+// disruptionStore.getState().addDisruption({ id: 'tunnel', type: 'segment', fromStationId: '65',
+//   toStationId: '68', startTime: new Date(), endTime: new Date(Date.now() + 10 * 60000) })
+if (import.meta.env.DEV) {
+  Object.assign(window, { disruptionStore: useDisruptionStore });
+}
@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import type { PositionEngineType, RailwayExclusions } from '../utils/positionEngine';
+import { diffExclusions, getCommittedExclusions, hasExclusionChanges } from '../utils/exclusionPatch';
+import { buildTrackDisplay, type TrackFeatureCollection } from '../utils/trackDisplay';
+import { useTrainStore } from './trainStore';
+
+interface ExclusionStore {
+  // State
+  exclusions: RailwayExclusions; // the edited list, starting from excludedRailwaySegments.ts
+  isPreviewing: boolean;
+  isPreviewCurrent: boolean; // the trains run on the edited list
+  previewTrack: TrackFeatureCollection | null; // the map tracks for the previewed list, null for the built ones
+  previewError: string | null;
+
+  // Actions
+  excludeFeatures: (features: Partial<RailwayExclusions>) => void;
+  includeFeatures: (features: Partial<RailwayExclusions>) => void;
+  resetExclusions: () => void;
+  previewExclusions: () => Promise<void>;
+  closePreview: () => Promise<void>;
+}
+
+export const useExclusionStore = create<ExclusionStore>((set, get) => {
+  // The position engine to go back to when the preview is closed, null while nothing is previewed
+  let engineBeforePreview: PositionEngineType | null = null;
+
+  return {
+    // Initial state
+    exclusions: getCommittedExclusions(),
+    isPreviewing: false,
+    isPreviewCurrent: true,
+    previewTrack: null,
+    previewError: null,
+
+    excludeFeatures: ({ ids = [], names = [] }) => {
+      const { exclusions } = get();
+      set({
+        exclusions: {
+          ids: Array.from(new Set([...exclusions.ids, ...ids])),
+          names: Array.from(new Set([...exclusions.names, ...names]))
+        },
+        isPreviewCurrent: false
+      });
+    },
+
+    includeFeatures: ({ ids = [], names = [] }) => {
+      const { exclusions } = get();
+      set({
+        exclusions: {
+          ids: exclusions.ids.filter(id => !ids.includes(id)),
+          names: exclusions.names.filter(name => !names.includes(name))
+        },
+        isPreviewCurrent: false
+      });
+    },
+
+    resetExclusions: () => {
+      set({ exclusions: getCommittedExclusions(), isPreviewCurrent: false });
+    },
+
+    // Rebuild the track with the edited list so the map and the trains show the resulting route
+    previewExclusions: async () => {
+      const { exclusions } = get();
+      set({ isPreviewing: true, previewError: null });
+      try {
+        // The precomputed geometry is built from the committed list, the simple engine matches the track again
+        const trainStore = useTrainStore.getState();
+        engineBeforePreview ??= trainStore.positionEngine;
+        if (trainStore.positionEngine === 'precomputed') {
+          await trainStore.setPositionEngine('simple');
+        }
+        await trainStore.simulationEngine.setRailwayExclusions(exclusions);
+        trainStore.updateTrainPositions();
+
+        // The built map tracks leave out the committed list, so pick them again from the raw railway data
+        const railwayData = (await import('../data/marmaray-track-geometry.json')).default as TrackFeatureCollection;
+        set({
+          previewTrack: buildTrackDisplay(railwayData, exclusions),
+          isPreviewCurrent: get().exclusions === exclusions
+        });
+      } catch (error) {
+        console.error('Error previewing railway exclusions:', error);
+        set({ previewError: error instanceof Error ? error.message : String(error) });
+      } finally {
+        set({ isPreviewing: false });
+      }
+    },
+
+    // Put the trains and the map back on the committed list and the engine they used before the preview
+    closePreview: async () => {
+      const previousEngine = engineBeforePreview;
+      if (!previousEngine) return;
+      engineBeforePreview = null;
+
+      const committed = getCommittedExclusions();
+      set({
+        previewTrack: null,
+        previewError: null,
+        isPreviewCurrent: !hasExclusionChanges(diffExclusions(committed, get().exclusions))
+      });
+      try {
+        const trainStore = useTrainStore.getState();
+        await trainStore.simulationEngine.setRailwayExclusions(committed);
+        if (trainStore.positionEngine !== previousEngine) {
+          await trainStore.setPositionEngine(previousEngine);
+        }
+        trainStore.updateTrainPositions();
+      } catch (error) {
+        console.error('Error restoring the railway after the exclusion preview:', error);
+      }
+    }
+  };
+});
@@ -1,13 +1,25 @@
 import { create } from 'zustand';
-import type { Station } from '../types';
+import type { Station, MapPoint } from '../types';
 import { useTrainStore } from './trainStore';
+import { getSimulationTime } from './clockStore';
+import { usePreferencesStore } from './preferencesStore';
+import { stations } from '../data/stations';
 import {
-  calculateJourney,
-  calculateAllJourneys,
+  calculateDoorToDoorJourneys,
+  type JourneyEndpoint,
   type JourneyPlan,
-  type JourneyOptions
+  type JourneyOptions,
+  type LineStop
 } from '../utils/journeyPlanner';
 
+// What a saved journey brings along besides its two ends
+interface JourneyExtras {
+  firstMile?: LineStop | null;
+  lastMile?: LineStop | null;
+  arriveBy?: Date | null;
+  departAt?: Date | null;
+}
+
 interface JourneyStore {
   // State
   fromStation: Station | null;
@@ -16,31 +28,71 @@ interface JourneyStore {
   allJourneys: JourneyPlan[];
   isCalculating: boolean;
   lastCalculationTime: Date | null;
+  arriveBy: Date | null; // plan for an arrival time instead of leaving now
+  departAt: Date | null; // plan for leaving at a later time instead of now
+  arrivalBuffer: number; // minutes to spare before arriveBy
+  firstMile: LineStop | null; // start on a line connecting at the origin station
+  lastMile: LineStop | null; // end on a line connecting at the destination station
+  fromPoint: MapPoint | null; // start from a point on the map instead of fromStation
+  toPoint: MapPoint | null; // end at a point on the map instead of toStation
+  pickingPoint: 'from' | 'to' | null; // waiting for a click on the map
   
   // Actions
   setFromStation: (station: Station | null) => void;
   setToStation: (station: Station | null) => void;
+  setArriveBy: (time: Date | null) => void;
+  setDepartAt: (time: Date | null) => void;
+  setArrivalBuffer: (minutes: number) => void;
+  setFirstMile: (stop: LineStop | null) => void;
+  setLastMile: (stop: LineStop | null) => void;
+  setFromPoint: (point: MapPoint | null) => void;
+  setToPoint: (point: MapPoint | null) => void;
+  setPickingPoint: (end: 'from' | 'to' | null) => void;
   swapStations: () => void;
+  openJourney: (from: JourneyEndpoint, to: JourneyEndpoint, extras?: JourneyExtras) => void;
   calculateRoute: (options?: JourneyOptions) => void;
   clearJourney: () => void;
   refreshJourney: () => void;
 }
 
 export const useJourneyStore = create<JourneyStore>((set, get) => {
-  // Set up automatic refresh when journey is active
+  // Set up automatic refresh while both journey ends are set
   let refreshInterval: number | null = null;
   
   const startAutoRefresh = () => {
     if (refreshInterval) return;
     
+    // Refresh every 30 simulated seconds, checked once a second so clock changes apply quickly
     refreshInterval = setInterval(() => {
-      const { fromStation, toStation } = get();
-      if (fromStation && toStation) {
+      const { lastCalculationTime } = get();
+      const elapsed = lastCalculationTime
+        ? Math.abs(getSimulationTime().getTime() - lastCalculationTime.getTime())
+        : Infinity;
+      if (getEndpoints() && elapsed >= 30000) {
         get().refreshJourney();
       }
-    }, 30000); // Refresh every 30 seconds
+    }, 1000);
   };
   
+  // Origin and destination as stations or points on the map, when both are set
+  const getEndpoints = (): [JourneyEndpoint, JourneyEndpoint] | null => {
+    const { fromStation, toStation, fromPoint, toPoint } = get();
+    const origin = fromPoint ?? fromStation?.id;
+    const destination = toPoint ?? toStation?.id;
+    return origin && destination ? [origin, destination] : null;
+  };
+
+  // Leave now or at a chosen time, or the latest departure that arrives by the chosen time, with any connecting lines
+  const getJourneyOptions = (currentTime: Date): JourneyOptions => {
+    const { arriveBy, departAt, arrivalBuffer, firstMile, lastMile } = get();
+    return {
+      departureTime: departAt ?? currentTime,
+      ...(arriveBy && { arrivalTime: arriveBy, arrivalBuffer }),
+      ...(firstMile && { firstMile }),
+      ...(lastMile && { lastMile })
+    };
+  };
+
   const stopAutoRefresh = () => {
     if (refreshInterval) {
       clearInterval(refreshInterval);
@@ -48,6 +100,15 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
     }
   };
 
+  // Plan for new ends and list them in the recent searches, unlike a recalculation for the same ends
+  const searchRoute = () => {
+    get().calculateRoute();
+    const endpoints = getEndpoints();
+    if (endpoints && endpoints[0] !== endpoints[1]) {
+      usePreferencesStore.getState().addRecentSearch(endpoints[0], endpoints[1]);
+    }
+  };
+
   return {
     // Initial state
     fromStation: null,
@@ -56,15 +117,23 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
     allJourneys: [],
     isCalculating: false,
     lastCalculationTime: null,
+    arriveBy: null,
+    departAt: null,
+    arrivalBuffer: 5,
+    firstMile: null,
+    lastMile: null,
+    fromPoint: null,
+    toPoint: null,
+    pickingPoint: null,
 
     // Set origin station
     setFromStation: (station: Station | null) => {
-      set({ fromStation: station });
+      // Connecting lines belong to the station they were chosen at
+      set({ fromStation: station, fromPoint: null, firstMile: null });
       
-      // Auto-calculate if both stations are set
-      const { toStation } = get();
-      if (station && toStation && station.id !== toStation.id) {
-        get().calculateRoute();
+      // Auto-calculate if both ends are set
+      if (station && getEndpoints()) {
+        searchRoute();
       } else if (!station) {
         get().clearJourney();
       }
@@ -72,36 +141,119 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
 
     // Set destination station
     setToStation: (station: Station | null) => {
-      set({ toStation: station });
+      set({ toStation: station, toPoint: null, lastMile: null });
       
-      // Auto-calculate if both stations are set
-      const { fromStation } = get();
-      if (station && fromStation && station.id !== fromStation.id) {
-        get().calculateRoute();
+      // Auto-calculate if both ends are set
+      if (station && getEndpoints()) {
+        searchRoute();
       } else if (!station) {
         get().clearJourney();
       }
     },
 
+    // Switch between leaving now (null) and arriving by a time
+    setArriveBy: (time: Date | null) => {
+      set({ arriveBy: time, ...(time && { departAt: null }) });
+      if (getEndpoints()) {
+        get().calculateRoute();
+      }
+    },
+
+    // Switch between leaving now (null) and leaving at a time
+    setDepartAt: (time: Date | null) => {
+      set({ departAt: time, ...(time && { arriveBy: null }) });
+      if (getEndpoints()) {
+        get().calculateRoute();
+      }
+    },
+
+    setArrivalBuffer: (minutes: number) => {
+      set({ arrivalBuffer: minutes });
+      if (getEndpoints() && get().arriveBy) {
+        get().calculateRoute();
+      }
+    },
+
+    setFirstMile: (stop: LineStop | null) => {
+      set({ firstMile: stop });
+      if (getEndpoints()) {
+        get().calculateRoute();
+      }
+    },
+
+    setLastMile: (stop: LineStop | null) => {
+      set({ lastMile: stop });
+      if (getEndpoints()) {
+        get().calculateRoute();
+      }
+    },
+
+    // A point on the map replaces the origin station and its connecting line
+    setFromPoint: (point: MapPoint | null) => {
+      set({ fromPoint: point, fromStation: null, firstMile: null, pickingPoint: null });
+      if (getEndpoints()) {
+        searchRoute();
+      } else {
+        set({ currentJourney: null, allJourneys: [], lastCalculationTime: null });
+        stopAutoRefresh();
+      }
+    },
+
+    setToPoint: (point: MapPoint | null) => {
+      set({ toPoint: point, toStation: null, lastMile: null, pickingPoint: null });
+      if (getEndpoints()) {
+        searchRoute();
+      } else {
+        set({ currentJourney: null, allJourneys: [], lastCalculationTime: null });
+        stopAutoRefresh();
+      }
+    },
+
+    setPickingPoint: (end: 'from' | 'to' | null) => {
+      set({ pickingPoint: end });
+    },
+
     // Swap origin and destination
     swapStations: () => {
-      const { fromStation, toStation } = get();
+      const { fromStation, toStation, firstMile, lastMile, fromPoint, toPoint } = get();
       set({ 
         fromStation: toStation, 
-        toStation: fromStation 
+        toStation: fromStation,
+        firstMile: lastMile,
+        lastMile: firstMile,
+        fromPoint: toPoint,
+        toPoint: fromPoint
       });
       
-      // Recalculate if both stations exist
-      if (fromStation && toStation) {
-        get().calculateRoute();
+      // Recalculate if both ends exist
+      if (getEndpoints()) {
+        searchRoute();
       }
     },
 
+    // Plan a journey from a favorite, a recent search or a saved commute in one go
+    openJourney: (from: JourneyEndpoint, to: JourneyEndpoint, extras: JourneyExtras = {}) => {
+      const findStation = (endpoint: JourneyEndpoint) =>
+        typeof endpoint === 'string' ? stations.find(s => s.id === endpoint) ?? null : null;
+      set({
+        fromStation: findStation(from),
+        toStation: findStation(to),
+        fromPoint: typeof from === 'string' ? null : from,
+        toPoint: typeof to === 'string' ? null : to,
+        firstMile: extras.firstMile ?? null,
+        lastMile: extras.lastMile ?? null,
+        arriveBy: extras.arriveBy ?? null,
+        departAt: extras.departAt ?? null,
+        pickingPoint: null
+      });
+      searchRoute();
+    },
+
     // Calculate journey route
     calculateRoute: (options: JourneyOptions = {}) => {
-      const { fromStation, toStation } = get();
+      const endpoints = getEndpoints();
       
-      if (!fromStation || !toStation || fromStation.id === toStation.id) {
+      if (!endpoints || endpoints[0] === endpoints[1]) {
         set({ 
           currentJourney: null, 
           allJourneys: [],
@@ -113,38 +265,30 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
 
       set({ isCalculating: true });
       
+      const currentTime = getSimulationTime();
+      const journeyOptions: JourneyOptions = { ...getJourneyOptions(currentTime), ...options };
+
       try {
         const trainPositions = useTrainStore.getState().trainPositions;
         
-        // Calculate the best journey
-        const bestJourney = calculateJourney(
-          fromStation.id,
-          toStation.id,
-          trainPositions,
-          options
-        );
-        
-        // Calculate all possible journeys (for future use)
-        const allJourneys = calculateAllJourneys(
-          fromStation.id,
-          toStation.id,
+        // Ranked journeys, the best first
+        const allJourneys = calculateDoorToDoorJourneys(
+          endpoints[0],
+          endpoints[1],
           trainPositions,
-          options
+          journeyOptions
         );
+        const bestJourney = allJourneys[0] ?? null;
 
         set({
           currentJourney: bestJourney,
           allJourneys,
           isCalculating: false,
-          lastCalculationTime: new Date()
+          lastCalculationTime: currentTime
         });
 
-        // Start auto-refresh if journey found
-        if (bestJourney) {
-          startAutoRefresh();
-        } else {
-          stopAutoRefresh();
-        }
+        // Keep refreshing without a journey too, so one that cannot be made now shows up once it can
+        startAutoRefresh();
         
       } catch (error) {
         console.error('Error calculating journey:', error);
@@ -152,7 +296,7 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
           currentJourney: null,
           allJourneys: [],
           isCalculating: false,
-          lastCalculationTime: new Date()
+          lastCalculationTime: currentTime
         });
         stopAutoRefresh();
       }
@@ -164,6 +308,11 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
       set({
         fromStation: null,
         toStation: null,
+        firstMile: null,
+        lastMile: null,
+        fromPoint: null,
+        toPoint: null,
+        pickingPoint: null,
         currentJourney: null,
         allJourneys: [],
         lastCalculationTime: null
@@ -172,25 +321,28 @@ export const useJourneyStore = create<JourneyStore>((set, get) => {
 
     // Refresh current journey with latest train positions
     refreshJourney: () => {
-      const { fromStation, toStation, currentJourney } = get();
+      const endpoints = getEndpoints();
       
-      if (fromStation && toStation && currentJourney) {
+      // Both ends are enough, a disruption that has been cleared brings back the journey it ruled out
+      if (endpoints && endpoints[0] !== endpoints[1]) {
         // Recalculate quietly without showing loading state
         try {
           const trainPositions = useTrainStore.getState().trainPositions;
+          const currentTime = getSimulationTime();
           
-          const refreshedJourney = calculateJourney(
-            fromStation.id,
-            toStation.id,
-            trainPositions
+          const refreshedJourneys = calculateDoorToDoorJourneys(
+            endpoints[0],
+            endpoints[1],
+            trainPositions,
+            getJourneyOptions(currentTime)
           );
 
-          if (refreshedJourney) {
-            set({
-              currentJourney: refreshedJourney,
-              lastCalculationTime: new Date()
-            });
-          }
+          // A journey that can no longer be made is not left on screen
+          set({
+            currentJourney: refreshedJourneys[0] ?? null,
+            allJourneys: refreshedJourneys,
+            lastCalculationTime: currentTime
+          });
         } catch (error) {
           console.error('Error refreshing journey:', error);
         }
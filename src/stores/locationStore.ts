@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { useTimetableStore } from './timetableStore';
+import {
+  browserGeolocation,
+  createMockGeolocation,
+  getGeolocationFailure,
+  type GeoPosition,
+  type GeolocationFailure,
+  type GeolocationProvider
+} from '../utils/geolocation';
+import { findNearestStations, type StationAccess } from '../utils/walkingAccess';
+
+interface LocationStore {
+  // State
+  provider: GeolocationProvider;
+  status: 'idle' | 'locating' | 'located' | 'failed';
+  failure: GeolocationFailure | null;
+  position: GeoPosition | null;
+  nearestStations: StationAccess[]; // nearest first, with the walk from the position
+
+  // Actions
+  setProvider: (provider: GeolocationProvider | null) => void;
+  locate: () => Promise<void>;
+  clearLocation: () => void;
+}
+
+export const useLocationStore = create<LocationStore>((set, get) => ({
+  // Initial state
+  provider: browserGeolocation,
+  status: 'idle',
+  failure: null,
+  position: null,
+  nearestStations: [],
+
+  // Swap in a mocked provider, or back to the browser with null
+  setProvider: (provider: GeolocationProvider | null) => {
+    set({ provider: provider ?? browserGeolocation });
+  },
+
+  // Find the nearest stations and open the timetable of the closest one
+  locate: async () => {
+    set({ status: 'locating', failure: null });
+
+    try {
+      const position = await get().provider.getCurrentPosition();
+      const nearestStations = findNearestStations(position.coordinates);
+      set({ status: 'located', position, nearestStations });
+
+      const nearest = nearestStations[0];
+      if (nearest) {
+        useTimetableStore.getState().selectStation(nearest.station.id);
+        window.dispatchEvent(new CustomEvent('openStationTimetable', {
+          detail: { stationId: nearest.station.id }
+        }));
+      }
+    } catch (error) {
+      set({ status: 'failed', failure: getGeolocationFailure(error), position: null, nearestStations: [] });
+    }
+  },
+
+  clearLocation: () => {
+    set({ status: 'idle', failure: null, position: null, nearestStations: [] });
+  }
+}));
+
+// Pretend to be somewhere from the console while developing, e.g.
+// locationStore.getState().setProvider(createMockGeolocation([29.025, 40.990]))
+if (import.meta.env.DEV) {
+  Object.assign(window, { locationStore: useLocationStore, createMockGeolocation });
+}
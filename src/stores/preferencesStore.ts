@@ -0,0 +1,155 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { JourneyEndpoint, LineStop } from '../utils/journeyPlanner';
+
+export interface FavoriteJourney {
+  from: JourneyEndpoint;
+  to: JourneyEndpoint;
+}
+
+export interface RecentSearch {
+  from: JourneyEndpoint;
+  to: JourneyEndpoint;
+  searchedAt: number; // ms since epoch
+}
+
+export interface SavedCommute {
+  id: string;
+  name: string;
+  from: JourneyEndpoint;
+  to: JourneyEndpoint;
+  firstMile: LineStop | null;
+  lastMile: LineStop | null;
+  arriveBy: string | null; // HH:MM, or leave now
+  alert: CommuteAlert | null;
+}
+
+// When to be reminded to leave for a commute
+export interface CommuteAlert {
+  enabled: boolean;
+  days: number[]; // 0 = Sunday, as Date.getDay()
+  time: string; // HH:MM to arrive by, or to leave after when the commute leaves now
+  leadMinutes: number; // notify this long before it is time to leave
+  walkMinutes: number; // from home to the start of the journey, when that is a station
+}
+
+interface PreferencesState {
+  favoriteStations: string[];
+  favoriteJourneys: FavoriteJourney[];
+  recentSearches: RecentSearch[]; // newest first
+  commutes: SavedCommute[];
+}
+
+interface PreferencesStore extends PreferencesState {
+  // Actions
+  toggleFavoriteStation: (stationId: string) => void;
+  toggleFavoriteJourney: (from: JourneyEndpoint, to: JourneyEndpoint) => void;
+  addRecentSearch: (from: JourneyEndpoint, to: JourneyEndpoint) => void;
+  clearRecentSearches: () => void;
+  saveCommute: (commute: Omit<SavedCommute, 'id' | 'alert'>) => SavedCommute;
+  removeCommute: (id: string) => void;
+  setCommuteAlert: (id: string, alert: CommuteAlert | null) => void;
+}
+
+const MAX_RECENT_SEARCHES = 8;
+
+// Bump when the persisted shape changes and teach migratePreferences the step
+const PREFERENCES_VERSION = 2;
+
+const isSameEndpoint = (a: JourneyEndpoint, b: JourneyEndpoint): boolean =>
+  typeof a === 'string' || typeof b === 'string'
+    ? a === b
+    : a.coordinates[0] === b.coordinates[0] && a.coordinates[1] === b.coordinates[1];
+
+export const isSameJourney = (a: FavoriteJourney, b: FavoriteJourney): boolean =>
+  isSameEndpoint(a.from, b.from) && isSameEndpoint(a.to, b.to);
+
+const emptyPreferences: PreferencesState = {
+  favoriteStations: [],
+  favoriteJourneys: [],
+  recentSearches: [],
+  commutes: []
+};
+
+/**
+ * Bring preferences saved by an older version up to date, one version step at a time
+ * Anything saved before the store was versioned starts afresh
+ */
+function migratePreferences(persisted: unknown, version: number): PreferencesState {
+  if (version < 1) return emptyPreferences;
+
+  const state = persisted as PreferencesState;
+  if (version < 2) {
+    // Commutes gained alerts
+    state.commutes = state.commutes.map(commute => ({ ...commute, alert: null }));
+  }
+  return state;
+}
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...emptyPreferences,
+
+      toggleFavoriteStation: (stationId: string) => {
+        const { favoriteStations } = get();
+        set({
+          favoriteStations: favoriteStations.includes(stationId)
+            ? favoriteStations.filter(id => id !== stationId)
+            : [...favoriteStations, stationId]
+        });
+      },
+
+      toggleFavoriteJourney: (from: JourneyEndpoint, to: JourneyEndpoint) => {
+        const journey = { from, to };
+        const { favoriteJourneys } = get();
+        set({
+          favoriteJourneys: favoriteJourneys.some(favorite => isSameJourney(favorite, journey))
+            ? favoriteJourneys.filter(favorite => !isSameJourney(favorite, journey))
+            : [...favoriteJourneys, journey]
+        });
+      },
+
+      // Move a repeated search to the top instead of listing it twice
+      addRecentSearch: (from: JourneyEndpoint, to: JourneyEndpoint) => {
+        const search = { from, to, searchedAt: Date.now() };
+        set({
+          recentSearches: [search, ...get().recentSearches.filter(recent => !isSameJourney(recent, search))]
+            .slice(0, MAX_RECENT_SEARCHES)
+        });
+      },
+
+      clearRecentSearches: () => {
+        set({ recentSearches: [] });
+      },
+
+      saveCommute: (commute: Omit<SavedCommute, 'id' | 'alert'>) => {
+        const saved = { ...commute, id: `commute-${Date.now().toString(36)}`, alert: null };
+        set({ commutes: [...get().commutes, saved] });
+        return saved;
+      },
+
+      removeCommute: (id: string) => {
+        set({ commutes: get().commutes.filter(commute => commute.id !== id) });
+      },
+
+      setCommuteAlert: (id: string, alert: CommuteAlert | null) => {
+        set({ commutes: get().commutes.map(commute => commute.id === id ? { ...commute, alert } : commute) });
+      }
+    }),
+    {
+      name: 'rayda-preferences',
+      storage: createJSONStorage(() => localStorage),
+      version: PREFERENCES_VERSION,
+      migrate: migratePreferences,
+      // Only the data is saved, the actions come from the store
+      partialize: ({ favoriteStations, favoriteJourneys, recentSearches, commutes }): PreferencesState => ({
+        favoriteStations,
+        favoriteJourneys,
+        recentSearches,
+        commutes
+      })
+    }
+  )
+);
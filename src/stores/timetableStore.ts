@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { useTrainStore } from './trainStore';
+import { getSimulationTime } from './clockStore';
 import { stations } from '../data/stations';
 import { 
   calculateStationArrivals, 
@@ -28,12 +29,15 @@ export const useTimetableStore = create<TimetableStore>((set, get) => {
   const startAutoUpdates = () => {
     if (updateInterval) return;
     
+    // Check every second and refresh after 15 simulated seconds, so faster clock speeds
+    // and jumps in simulated time are picked up right away
     updateInterval = setInterval(() => {
-      const { selectedStationId } = get();
-      if (selectedStationId) {
+      const { selectedStationId, lastUpdateTime } = get();
+      const elapsed = Math.abs(getSimulationTime().getTime() - lastUpdateTime.getTime());
+      if (selectedStationId && elapsed >= 15000) {
         get().updateTimetables();
       }
-    }, 15000); // Update every 15 seconds for more real-time feel
+    }, 1000);
   };
   
   const stopAutoUpdates = () => {
@@ -76,7 +80,8 @@ export const useTimetableStore = create<TimetableStore>((set, get) => {
         return [];
       }
 
-      const arrivals = calculateStationArrivals(stationId, trainPositions, 4);
+      const currentTime = getSimulationTime();
+      const arrivals = calculateStationArrivals(stationId, trainPositions, 4, currentTime);
       
       // Update the timetables map
       const newTimetables = new Map(get().timetables);
@@ -84,7 +89,7 @@ export const useTimetableStore = create<TimetableStore>((set, get) => {
       
       set({ 
         timetables: newTimetables,
-        lastUpdateTime: new Date(),
+        lastUpdateTime: currentTime,
         isCalculating: false
       });
       
@@ -112,9 +117,9 @@ export const useTimetableStore = create<TimetableStore>((set, get) => {
     
     // Return cached if recent (less than 30 seconds old)
     if (cached && cached.length > 0) {
-      const now = new Date();
+      const now = getSimulationTime();
       const oldestArrival = Math.min(...cached.map(a => a.arrivalTime.getTime()));
-      if (now.getTime() < oldestArrival + 30000) { // 30 seconds buffer
+      if (now.getTime() >= get().lastUpdateTime.getTime() && now.getTime() < oldestArrival + 30000) { // 30 seconds buffer
         return cached;
       }
     }
@@ -1,10 +1,13 @@
 import { create } from 'zustand';
 import { TrainSimulationEngine, type TrainPosition } from '../utils/trainSimulation';
+import type { PositionEngineType } from '../utils/positionEngine';
+import { getSimulationTime } from './clockStore';
 
 interface TrainStore {
   // State
   trainPositions: TrainPosition[];
   simulationEngine: TrainSimulationEngine;
+  positionEngine: PositionEngineType;
   isSimulationRunning: boolean;
   lastUpdateTime: Date;
   
@@ -13,6 +16,7 @@ interface TrainStore {
   stopSimulation: () => void;
   updateTrainPositions: () => void;
   getTrainsForRoute: (routeId: string) => TrainPosition[];
+  setPositionEngine: (type: PositionEngineType) => Promise<void>;
 }
 
 export const useTrainStore = create<TrainStore>((set, get) => {
@@ -26,6 +30,7 @@ export const useTrainStore = create<TrainStore>((set, get) => {
     // Initial state
     trainPositions: [],
     simulationEngine,
+    positionEngine: simulationEngine.getPositionEngineType(),
     isSimulationRunning: false,
     lastUpdateTime: new Date(),
 
@@ -41,11 +46,6 @@ export const useTrainStore = create<TrainStore>((set, get) => {
       // Set up interval for very smooth movement updates (every 100ms for fluid animation)
       updateInterval = setInterval(() => {
         get().updateTrainPositions();
-        
-        // Cleanup old trains every 5 minutes
-        if (Date.now() % (5 * 60 * 1000) < 100) {
-          simulationEngine.cleanup();
-        }
       }, 100); // Update 50 times more frequently for very smooth movement
 
       set({ isSimulationRunning: true });
@@ -66,7 +66,7 @@ export const useTrainStore = create<TrainStore>((set, get) => {
 
     // Update train positions
     updateTrainPositions: () => {
-      const currentTime = new Date();
+      const currentTime = getSimulationTime();
       const positions = simulationEngine.updateTrainPositions(currentTime);
       
       set({ 
@@ -79,6 +79,13 @@ export const useTrainStore = create<TrainStore>((set, get) => {
     getTrainsForRoute: (routeId: string) => {
       const { trainPositions } = get();
       return trainPositions.filter(pos => pos.routeId === routeId);
+    },
+
+    // Place trains with another position engine
+    setPositionEngine: async (type: PositionEngineType) => {
+      await simulationEngine.setPositionEngine(type);
+      set({ positionEngine: simulationEngine.getPositionEngineType() });
+      get().updateTrainPositions();
     }
   };
 });
\ No newline at end of file
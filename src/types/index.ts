@@ -2,7 +2,7 @@ export interface Station {
   id: string;
   name: string;
   coordinates: [number, number]; // [longitude, latitude]
-  distanceFromStart: number; // in km
+  distanceFromStart: number; // published km from Halkalı; the app shows and measures with linearReferencing's chainage
 }
 
 export interface Route {
@@ -42,4 +42,69 @@ export interface Timetable {
     routeName: string;
     finalDestination: string;
   }[];
-}
\ No newline at end of file
+}
+export type DayType = 'weekday' | 'saturday' | 'sunday' | 'holiday';
+
+// Day services of the timetable; holidays run the Sunday service
+export type DayServiceId = 'weekday' | 'saturday' | 'sunday';
+
+export interface DayServicePattern {
+  routeHeadways?: Record<string, number>; // minutes, instead of the published headway of the route
+}
+
+export interface CalendarException {
+  date: string; // YYYY-MM-DD for one date, MM-DD for every year
+  name: string;
+  dayType?: DayType; // timetable to run instead of the usual one for that day
+  lateNight?: boolean; // run (true) or cancel (false) the late-night service that evening
+  noService?: boolean; // line closed for the whole day
+}
+
+// An injected disruption; delays are in seconds
+export type Disruption =
+  | {
+      id: string;
+      type: 'train'; // one trip held at a station (its first stop if none is given)
+      tripId: string;
+      serviceDate: Date; // midnight of the service day the trip runs on
+      stationId?: string;
+      delay: number;
+    }
+  | {
+      id: string;
+      type: 'station'; // every train leaving the station in the window is held longer
+      stationId: string;
+      startTime: Date;
+      endTime: Date;
+      delay: number;
+    }
+  | {
+      id: string;
+      type: 'segment'; // track between two adjacent stations blocked in both directions
+      fromStationId: string;
+      toStationId: string;
+      startTime: Date;
+      endTime: Date;
+    };
+
+export type TransitMode = 'metro' | 'tram' | 'ferry' | 'metrobus';
+
+// A line of another operator that passengers can change to at a Marmaray station
+// Its static timetable is a regular headway at the interchange, the same in both directions
+export interface TransitConnection {
+  lineId: string; // as signed, e.g. 'M2'
+  name: string;
+  mode: TransitMode;
+  color: string; // hex color for UI
+  walkTime: number; // in seconds, between the Marmaray platform and the connecting line
+  headway: number; // in minutes
+  firstDeparture: string; // HH:MM at the interchange
+  lastDeparture: string; // HH:MM at the interchange, before the first departure when it is after midnight
+  stops: { name: string; travelTime: number }[]; // main stops, minutes from the interchange
+}
+
+// A place that is not a station: a point picked on the map or typed in as coordinates
+export interface MapPoint {
+  coordinates: [number, number]; // [longitude, latitude]
+  label?: string;
+}
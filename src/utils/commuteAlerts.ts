@@ -0,0 +1,119 @@
+/**
+ * Commute Alerts - When to leave home for a saved commute, and when to say so
+ * Everything takes the current time as an argument, so alerts can be worked out on a fake clock
+ */
+
+import type { SavedCommute } from '../stores/preferencesStore';
+import type { TrainPosition } from './trainSimulation';
+import { calculateDoorToDoorJourneys, getNextClockTime, type JourneyPlan } from './journeyPlanner';
+
+export interface CommuteDeparture {
+  leaveAt: Date; // from home, before any walk to the first station
+  journey: JourneyPlan;
+}
+
+export interface DueAlert {
+  commuteId: string;
+  name: string;
+  leaveAt: Date;
+  trainName: string;
+  trainDeparture: Date;
+}
+
+export interface CommuteAlertState {
+  notified: Record<string, number>; // leave time (ms) already alerted, per commute
+  snoozedUntil: Record<string, number>; // ms, per commute
+}
+
+export const emptyAlertState: CommuteAlertState = { notified: {}, snoozedUntil: {} };
+
+/**
+ * The recommended departure from home on the commute's next alert day
+ * The alert time is tried from today for a week; the first alert day that can still be made wins
+ */
+export function planCommuteDeparture(
+  commute: SavedCommute,
+  now: Date,
+  trainPositions: TrainPosition[] = []
+): CommuteDeparture | null {
+  const { alert } = commute;
+  if (!alert) return null;
+
+  const walk = alert.walkMinutes * 60 * 1000;
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  const today = getNextClockTime(alert.time, new Date(midnight.getTime() - 1));
+  if (!today) return null;
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const target = new Date(today);
+    target.setDate(target.getDate() + dayOffset);
+    if (!alert.days.includes(target.getDay())) continue;
+
+    // Arrive by the alert time, or leave once it has come
+    const earliest = new Date(Math.max(now.getTime(), commute.arriveBy ? 0 : target.getTime()) + walk);
+    const journey = calculateDoorToDoorJourneys(commute.from, commute.to, trainPositions, {
+      departureTime: earliest,
+      ...(commute.arriveBy && { arrivalTime: target }),
+      ...(commute.firstMile && { firstMile: commute.firstMile }),
+      ...(commute.lastMile && { lastMile: commute.lastMile })
+    }, 1)[0];
+    if (!journey?.nextDeparture) continue;
+
+    const start = journey.nextDeparture.arrivalTime.getTime() - journey.totalTime * 1000;
+    const leaveAt = new Date(start - walk);
+    if (leaveAt >= now) return { leaveAt, journey };
+  }
+
+  return null;
+}
+
+/**
+ * Commutes whose reminder is due: within the lead time of leaving, not snoozed and not yet alerted
+ * for this departure
+ */
+export function getDueAlerts(
+  commutes: SavedCommute[],
+  state: CommuteAlertState,
+  now: Date,
+  trainPositions: TrainPosition[] = []
+): DueAlert[] {
+  return commutes.flatMap(commute => {
+    const { alert } = commute;
+    if (!alert?.enabled) return [];
+    if ((state.snoozedUntil[commute.id] ?? 0) > now.getTime()) return [];
+
+    const departure = planCommuteDeparture(commute, now, trainPositions);
+    if (!departure) return [];
+
+    const { leaveAt, journey } = departure;
+    const notifyAt = leaveAt.getTime() - alert.leadMinutes * 60 * 1000;
+    if (now.getTime() < notifyAt || state.notified[commute.id] === leaveAt.getTime()) return [];
+
+    return [{
+      commuteId: commute.id,
+      name: commute.name,
+      leaveAt,
+      trainName: journey.nextDeparture!.displayName,
+      trainDeparture: journey.nextDeparture!.departureTime
+    }];
+  });
+}
+
+/**
+ * Remember the alerted departures so each is only announced once
+ */
+export function markAlerted(state: CommuteAlertState, alerts: DueAlert[]): CommuteAlertState {
+  const notified = { ...state.notified };
+  for (const alert of alerts) notified[alert.commuteId] = alert.leaveAt.getTime();
+  return { ...state, notified };
+}
+
+/**
+ * Hold a commute's alert until a time, then announce it again
+ */
+export function snoozeAlert(state: CommuteAlertState, commuteId: string, until: Date): CommuteAlertState {
+  const notified = { ...state.notified };
+  delete notified[commuteId];
+  return { notified, snoozedUntil: { ...state.snoozedUntil, [commuteId]: until.getTime() } };
+}
@@ -0,0 +1,351 @@
+/**
+ * Connection Scan - Earliest-arrival journeys over the scheduled trips, changing trains where it helps
+ * Every hop of every trip between two consecutive stops is a connection; scanning them in departure
+ * order finds the earliest arrival at each station, and the trips that reached the destination are
+ * followed back to the origin to give the legs. Trains of all Marmaray service patterns share the
+ * platforms, so a change only needs the minimum transfer time
+ */
+
+import {
+  getServiceDate,
+  getTripsForServiceDate,
+  type ScheduledTrip,
+  type TripConnection
+} from './timetableEngine';
+
+// Seconds to step off one train and onto another at the same platform
+export const MIN_TRANSFER_TIME = 120;
+
+export interface Itinerary {
+  legs: TripConnection[]; // one per train, in travel order
+  departureTime: Date;
+  arrivalTime: Date;
+  transfers: number;
+}
+
+interface Connection {
+  trip: ScheduledTrip;
+  serviceDate: Date;
+  tripKey: string; // trip ids repeat every service day
+  fromIndex: number; // the hop runs from this stop to the next
+  departure: number; // ms timestamps
+  arrival: number;
+}
+
+interface ReachedBy {
+  connection: Connection;
+  boardIndex: number;
+}
+
+interface DepartedBy {
+  connection: Connection;
+  alightIndex: number;
+}
+
+// Keyed by the trips array, which is rebuilt whenever the disruptions change
+const connectionCache = new WeakMap<ScheduledTrip[], Connection[]>();
+
+/**
+ * Ranked journeys between two stations leaving after the given time: earliest arrival first,
+ * then fewer changes. Journeys that leave earlier without arriving sooner or with fewer changes are dropped
+ */
+export function findItineraries(
+  fromStationId: string,
+  toStationId: string,
+  fromTime: Date,
+  limit: number = 3
+): Itinerary[] {
+  if (fromStationId === toStationId) return [];
+
+  const connections = getConnections(getServiceDate(fromTime), 1);
+  const candidates: Itinerary[] = [];
+  let searchTime = fromTime.getTime();
+
+  // Each following search leaves after the previous best, giving the next departures
+  for (let i = 0; i < limit; i++) {
+    const itinerary = scanEarliestArrival(connections, fromStationId, toStationId, searchTime);
+    if (!itinerary) break;
+    candidates.push(itinerary);
+    searchTime = itinerary.departureTime.getTime() + 1000;
+  }
+
+  // A slower through train is still an alternative to changing
+  const direct = scanEarliestArrival(connections, fromStationId, toStationId, fromTime.getTime(), false);
+  if (direct) candidates.push(direct);
+
+  return rankItineraries(candidates, limit, (a, b) =>
+    a.arrivalTime.getTime() - b.arrivalTime.getTime() ||
+    a.transfers - b.transfers ||
+    b.departureTime.getTime() - a.departureTime.getTime()
+  );
+}
+
+/**
+ * Ranked journeys between two stations arriving by the given time: latest departure first,
+ * then fewer changes. Journeys that arrive earlier without leaving later or with fewer changes are dropped
+ */
+export function findLatestItineraries(
+  fromStationId: string,
+  toStationId: string,
+  arriveBy: Date,
+  limit: number = 3
+): Itinerary[] {
+  if (fromStationId === toStationId) return [];
+
+  const connections = getConnections(getServiceDate(arriveBy), -1);
+  const candidates: Itinerary[] = [];
+  let deadline = arriveBy.getTime();
+
+  // Each following search arrives before the previous best, giving the earlier departures
+  for (let i = 0; i < limit; i++) {
+    const itinerary = scanLatestDeparture(connections, fromStationId, toStationId, deadline);
+    if (!itinerary) break;
+    candidates.push(itinerary);
+    deadline = itinerary.arrivalTime.getTime() - 1000;
+  }
+
+  const direct = scanLatestDeparture(connections, fromStationId, toStationId, arriveBy.getTime(), false);
+  if (direct) candidates.push(direct);
+
+  return rankItineraries(candidates, limit, (a, b) =>
+    b.departureTime.getTime() - a.departureTime.getTime() ||
+    a.transfers - b.transfers ||
+    a.arrivalTime.getTime() - b.arrivalTime.getTime()
+  );
+}
+
+/**
+ * Distinct journeys nobody beats on departure, arrival and changes, best first
+ */
+function rankItineraries(
+  candidates: Itinerary[],
+  limit: number,
+  compare: (a: Itinerary, b: Itinerary) => number
+): Itinerary[] {
+  const unique = candidates.filter((itinerary, index) =>
+    candidates.findIndex(other => itineraryKey(other) === itineraryKey(itinerary)) === index
+  );
+
+  return unique
+    .filter(itinerary => !unique.some(other => other !== itinerary && dominates(other, itinerary)))
+    .sort(compare)
+    .slice(0, limit);
+}
+
+/**
+ * Earliest arrival at the destination leaving the origin at or after the given time
+ * Without transfers only trips running through from origin to destination are used
+ */
+function scanEarliestArrival(
+  connections: Connection[],
+  fromStationId: string,
+  toStationId: string,
+  fromTime: number,
+  allowTransfers: boolean = true
+): Itinerary | null {
+  const earliest = new Map<string, number>([[fromStationId, fromTime]]);
+  const reachedBy = new Map<string, ReachedBy>();
+  const boarded = new Map<string, number>(); // trip key -> stop index where it was boarded
+
+  for (const connection of connections) {
+    if (connection.departure < fromTime) continue;
+    if (connection.departure >= (earliest.get(toStationId) ?? Infinity)) break;
+
+    const { trip, tripKey, fromIndex } = connection;
+    const fromStation = trip.stops[fromIndex].stationId;
+
+    if (!boarded.has(tripKey)) {
+      const reachedAt = earliest.get(fromStation);
+      if (reachedAt === undefined) continue;
+
+      // Changing trains needs time; the origin is boarded directly
+      const change = fromStation !== fromStationId;
+      if (change && (!allowTransfers || reachedAt + MIN_TRANSFER_TIME * 1000 > connection.departure)) continue;
+      boarded.set(tripKey, fromIndex);
+    }
+
+    const toStation = trip.stops[fromIndex + 1].stationId;
+    if (connection.arrival < (earliest.get(toStation) ?? Infinity)) {
+      earliest.set(toStation, connection.arrival);
+      reachedBy.set(toStation, { connection, boardIndex: boarded.get(tripKey)! });
+    }
+  }
+
+  if (!reachedBy.has(toStationId)) return null;
+
+  // Walk back from the destination, one train at a time
+  const legs: TripConnection[] = [];
+  let stationId = toStationId;
+  while (stationId !== fromStationId) {
+    const { connection, boardIndex } = reachedBy.get(stationId)!;
+    const { trip, serviceDate } = connection;
+    const toIndex = connection.fromIndex + 1;
+
+    legs.unshift({
+      trip,
+      serviceDate,
+      fromIndex: boardIndex,
+      toIndex,
+      departureTime: new Date(toTimestamp(serviceDate, trip.stops[boardIndex].departureTime)),
+      arrivalTime: new Date(connection.arrival)
+    });
+    stationId = trip.stops[boardIndex].stationId;
+  }
+
+  return toItinerary(skipDetours(legs, fromTime));
+}
+
+/**
+ * Latest departure from the origin that reaches the destination by the deadline
+ * The earliest-arrival scan run backwards: connections in reverse departure order, boarding trains
+ * from the destination end
+ */
+function scanLatestDeparture(
+  connections: Connection[],
+  fromStationId: string,
+  toStationId: string,
+  deadline: number,
+  allowTransfers: boolean = true
+): Itinerary | null {
+  const latest = new Map<string, number>([[toStationId, deadline]]);
+  const departedBy = new Map<string, DepartedBy>();
+  const alighted = new Map<string, number>(); // trip key -> stop index where it is left
+
+  for (let i = connections.length - 1; i >= 0; i--) {
+    const connection = connections[i];
+    if (connection.departure <= (latest.get(fromStationId) ?? -Infinity)) break;
+    if (connection.arrival > deadline) continue;
+
+    const { trip, tripKey, fromIndex } = connection;
+    const toStation = trip.stops[fromIndex + 1].stationId;
+
+    if (!alighted.has(tripKey)) {
+      const neededBy = latest.get(toStation);
+      if (neededBy === undefined) continue;
+
+      // Changing trains needs time; the destination is reached directly
+      const change = toStation !== toStationId;
+      if (change && (!allowTransfers || connection.arrival + MIN_TRANSFER_TIME * 1000 > neededBy)) continue;
+      alighted.set(tripKey, fromIndex + 1);
+    }
+
+    const fromStation = trip.stops[fromIndex].stationId;
+    if (connection.departure > (latest.get(fromStation) ?? -Infinity)) {
+      latest.set(fromStation, connection.departure);
+      departedBy.set(fromStation, { connection, alightIndex: alighted.get(tripKey)! });
+    }
+  }
+
+  if (!departedBy.has(fromStationId)) return null;
+
+  // Walk forward from the origin, one train at a time
+  const legs: TripConnection[] = [];
+  let stationId = fromStationId;
+  while (stationId !== toStationId) {
+    const { connection, alightIndex } = departedBy.get(stationId)!;
+    const { trip, serviceDate } = connection;
+
+    legs.push({
+      trip,
+      serviceDate,
+      fromIndex: connection.fromIndex,
+      toIndex: alightIndex,
+      departureTime: new Date(connection.departure),
+      arrivalTime: new Date(toTimestamp(serviceDate, trip.stops[alightIndex].arrivalTime))
+    });
+    stationId = trip.stops[alightIndex].stationId;
+  }
+
+  return toItinerary(skipDetours(legs, legs[0].departureTime.getTime()));
+}
+
+/**
+ * Leave out rides that only go back to catch a train that also calls at an earlier boarding point
+ * (e.g. one stop west to board an eastbound train that passes the origin a few minutes later)
+ */
+function skipDetours(legs: TripConnection[], fromTime: number): TripConnection[] {
+  for (let last = legs.length - 1; last > 0; last--) {
+    const { trip, serviceDate, toIndex } = legs[last];
+
+    for (let first = 0; first < last; first++) {
+      const stationId = legs[first].trip.stops[legs[first].fromIndex].stationId;
+      const readyAt = first === 0 ? fromTime : legs[first - 1].arrivalTime.getTime() + MIN_TRANSFER_TIME * 1000;
+      const boardIndex = trip.stops.findIndex((stop, index) =>
+        index < toIndex && stop.stationId === stationId && toTimestamp(serviceDate, stop.departureTime) >= readyAt
+      );
+      if (boardIndex === -1) continue;
+
+      const through: TripConnection = {
+        ...legs[last],
+        fromIndex: boardIndex,
+        departureTime: new Date(toTimestamp(serviceDate, trip.stops[boardIndex].departureTime))
+      };
+      return skipDetours([...legs.slice(0, first), through, ...legs.slice(last + 1)], fromTime);
+    }
+  }
+
+  return legs;
+}
+
+function toItinerary(legs: TripConnection[]): Itinerary {
+  return {
+    legs,
+    departureTime: legs[0].departureTime,
+    arrivalTime: legs[legs.length - 1].arrivalTime,
+    transfers: legs.length - 1
+  };
+}
+
+/**
+ * Hops of the trips running on a service day and the day after (1) or before (-1), in departure order
+ */
+function getConnections(serviceDate: Date, otherDay: 1 | -1): Connection[] {
+  const neighbour = new Date(serviceDate);
+  neighbour.setDate(neighbour.getDate() + otherDay);
+
+  return [serviceDate, neighbour]
+    .flatMap(day => getDayConnections(day))
+    .sort((a, b) => a.departure - b.departure || a.arrival - b.arrival);
+}
+
+function getDayConnections(serviceDate: Date): Connection[] {
+  const trips = getTripsForServiceDate(serviceDate);
+  const cached = connectionCache.get(trips);
+  if (cached) return cached;
+
+  const connections: Connection[] = [];
+  for (const trip of trips) {
+    const tripKey = `${serviceDate.getTime()}:${trip.id}`;
+    for (let i = 0; i < trip.stops.length - 1; i++) {
+      connections.push({
+        trip,
+        serviceDate,
+        tripKey,
+        fromIndex: i,
+        departure: toTimestamp(serviceDate, trip.stops[i].departureTime),
+        arrival: toTimestamp(serviceDate, trip.stops[i + 1].arrivalTime)
+      });
+    }
+  }
+
+  connectionCache.set(trips, connections);
+  return connections;
+}
+
+function toTimestamp(serviceDate: Date, seconds: number): number {
+  return serviceDate.getTime() + seconds * 1000;
+}
+
+function itineraryKey(itinerary: Itinerary): string {
+  return itinerary.legs.map(leg => `${leg.serviceDate.getTime()}:${leg.trip.id}:${leg.fromIndex}-${leg.toIndex}`).join('|');
+}
+
+/**
+ * Leaves no earlier, arrives no later and changes no more often, and is better in one of them
+ */
+function dominates(a: Itinerary, b: Itinerary): boolean {
+  const departure = a.departureTime.getTime() - b.departureTime.getTime();
+  const arrival = b.arrivalTime.getTime() - a.arrivalTime.getTime();
+  const transfers = b.transfers - a.transfers;
+  return departure >= 0 && arrival >= 0 && transfers >= 0 && (departure > 0 || arrival > 0 || transfers > 0);
+}
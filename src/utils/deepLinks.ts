@@ -0,0 +1,169 @@
+/**
+ * Deep Links - Stations, journeys and trains in the page's query string so a view can be
+ * shared or bookmarked, e.g. ?station=234, ?from=275&to=302&at=08:00 or ?train=...&day=2026-10-19
+ * A departure board link (?board=234) suits a wall screen left on one station.
+ *
+ * Times are service time, so 00:30 and 24:30 are both the late-night service after midnight.
+ * A journey's date and a train's day are the service date they run on; without one a journey
+ * leaves or arrives at the next such time.
+ *
+ * Only the query string changes, so links keep working under the GitHub Pages base path.
+ */
+
+import { stations } from '../data/stations';
+import { parseCoordinates } from './walkingAccess';
+import { formatDateKey } from './serviceCalendar';
+import { getServiceDate, SERVICE_DAY_START_HOUR, toServiceSeconds, tripTimeToDate } from './timetableEngine';
+import type { JourneyEndpoint } from './journeyPlanner';
+
+export interface DeepLink {
+  station?: string;
+  from?: JourneyEndpoint;
+  to?: JourneyEndpoint;
+  at?: string; // leave at HH:MM
+  by?: string; // arrive by HH:MM
+  date?: string; // service date of at or by, YYYY-MM-DD
+  train?: string;
+  day?: string; // service date the train runs on, YYYY-MM-DD
+  board?: string; // station shown on the departure board
+}
+
+// Service time runs up to 27:59, the late-night service before the next day starts
+const CLOCK_PATTERN = /^([01]\d|2[0-7]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isStationId = (value: string) => stations.some(station => station.id === value);
+
+// A station id or "latitude,longitude"
+function parseEndpoint(value: string | null): JourneyEndpoint | undefined {
+  if (!value) return undefined;
+  if (isStationId(value)) return value;
+
+  const coordinates = parseCoordinates(value);
+  return coordinates ? { coordinates } : undefined;
+}
+
+function formatEndpoint(endpoint: JourneyEndpoint): string {
+  if (typeof endpoint === 'string') return endpoint;
+  const [longitude, latitude] = endpoint.coordinates;
+  return `${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+}
+
+/**
+ * Midnight of a YYYY-MM-DD service date, or null if it is not a date
+ */
+export function parseServiceDate(value: string | null | undefined): Date | null {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) || formatDateKey(date) !== value ? null : date;
+}
+
+/**
+ * A time as service time (04:00-27:59) and the service date it belongs to
+ */
+export function formatLinkTime(time: Date): { clock: string; date: string } {
+  const serviceDate = getServiceDate(time);
+  const minutes = Math.floor(toServiceSeconds(time, serviceDate) / 60);
+  const clock = [Math.floor(minutes / 60), minutes % 60].map(part => String(part).padStart(2, '0')).join(':');
+  return { clock, date: formatDateKey(serviceDate) };
+}
+
+/**
+ * The time a link's HH:MM stands for: on its service date, or the next time it comes round
+ */
+export function resolveLinkTime(clock: string, date: string | undefined, now: Date): Date {
+  const [hours, minutes] = clock.split(':').map(Number);
+  // Before the service day starts is after midnight, at the end of the service day
+  const seconds = ((hours < SERVICE_DAY_START_HOUR ? hours + 24 : hours) * 60 + minutes) * 60;
+
+  const serviceDate = parseServiceDate(date);
+  if (serviceDate) return tripTimeToDate(serviceDate, seconds);
+
+  const time = tripTimeToDate(getServiceDate(now), seconds);
+  if (time <= now) time.setDate(time.getDate() + 1);
+  return time;
+}
+
+/**
+ * Read a deep link from a query string, dropping values that do not name anything
+ */
+export function parseDeepLink(search: string): DeepLink {
+  const params = new URLSearchParams(search);
+  const link: DeepLink = {};
+
+  const station = params.get('station');
+  if (station && isStationId(station)) link.station = station;
+
+  const from = parseEndpoint(params.get('from'));
+  const to = parseEndpoint(params.get('to'));
+  if (from && to) {
+    link.from = from;
+    link.to = to;
+
+    const at = params.get('at');
+    const by = params.get('by');
+    if (by && CLOCK_PATTERN.test(by)) {
+      link.by = by;
+    } else if (at && CLOCK_PATTERN.test(at)) {
+      link.at = at;
+    }
+
+    const date = params.get('date');
+    if ((link.by || link.at) && parseServiceDate(date)) link.date = date!;
+  }
+
+  const train = params.get('train');
+  if (train) {
+    link.train = train;
+    const day = params.get('day');
+    if (parseServiceDate(day)) link.day = day!;
+  }
+
+  const board = params.get('board');
+  if (board && isStationId(board)) link.board = board;
+
+  return link;
+}
+
+/**
+ * Write a deep link as a query string, including the leading "?" when not empty
+ */
+export function buildDeepLink(link: DeepLink): string {
+  const params = new URLSearchParams();
+  if (link.station) params.set('station', link.station);
+  if (link.from && link.to) {
+    params.set('from', formatEndpoint(link.from));
+    params.set('to', formatEndpoint(link.to));
+    if (link.by) {
+      params.set('by', link.by);
+    } else if (link.at) {
+      params.set('at', link.at);
+    }
+    if ((link.by || link.at) && link.date) params.set('date', link.date);
+  }
+  if (link.train) {
+    params.set('train', link.train);
+    if (link.day) params.set('day', link.day);
+  }
+  if (link.board) params.set('board', link.board);
+
+  // Keep the commas in coordinates and colons in times readable
+  const search = params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':');
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Change part of the deep link in the address bar without adding a history entry;
+ * undefined values remove their parameter
+ */
+export function updateDeepLink(changes: Partial<DeepLink>): void {
+  const link = { ...parseDeepLink(window.location.search), ...changes };
+  const search = buildDeepLink(link);
+  if (search === window.location.search) return;
+
+  window.history.replaceState(
+    window.history.state,
+    '',
+    `${window.location.pathname}${search}${window.location.hash}`
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Delay Model - Runs the trips of a service day through the signalling and any injected disruptions
+ * Each track is split into block sections: the line between two stations and each platform. A train
+ * may only enter a block once the train ahead has cleared it, and trains leave a station at least a
+ * minimum headway apart, so trains on the same track never overlap. Holds show up as delays on the
+ * stops and pass on to the trains behind. Trains never run early
+ */
+
+import type { Disruption } from '../types';
+import type { ScheduledTrip, TripStop } from './timetableEngine';
+import { getStationChainage } from './linearReferencing';
+
+// Seconds between two trains leaving a station on the same track
+export const MIN_HEADWAY = 120;
+// Seconds after the train ahead has cleared a block before the signal behind it turns green
+export const BLOCK_CLEARANCE = 30;
+
+interface TrainRun {
+  trip: ScheduledTrip;
+  track: 'east' | 'west'; // route directions differ between routes, tracks follow the direction of travel
+  index: number; // stop the train is standing at or running towards
+  running: boolean; // on the line towards the stop rather than at its platform
+  ready: number; // earliest time the train can make its next move: leave the stop or arrive at it
+  stops: TripStop[]; // operated stops so far
+}
+
+interface BlockOccupation {
+  tripId: string;
+  releasedAt: number | null; // null while the train is still in the block
+}
+
+let disruptions: Disruption[] = [];
+const tripCache = new Map<number, ScheduledTrip[]>();
+const MAX_CACHED_DAYS = 7;
+
+/**
+ * Replace the active disruptions
+ */
+export function setDisruptions(next: Disruption[]): void {
+  disruptions = next;
+  tripCache.clear();
+}
+
+export function getDisruptions(): Disruption[] {
+  return disruptions;
+}
+
+/**
+ * The trips of a service day as they are operated: held by the block sections and by active disruptions
+ * Affected trips are copies with shifted times and a delay on each late stop; the rest are returned as is
+ */
+export function dispatchTrips(trips: ScheduledTrip[], serviceDate: Date): ScheduledTrip[] {
+  const cached = tripCache.get(serviceDate.getTime());
+  if (cached) return cached;
+
+  const operated = runTrips(trips, serviceDate);
+  if (tripCache.size >= MAX_CACHED_DAYS) tripCache.clear();
+  tripCache.set(serviceDate.getTime(), operated);
+  return operated;
+}
+
+/**
+ * Move every train block by block in time order, so each move sees the trains that moved before it
+ */
+function runTrips(trips: ScheduledTrip[], serviceDate: Date): ScheduledTrip[] {
+  const blocks = new Map<string, BlockOccupation>();
+  const lastDepartures = new Map<string, number>();
+  const runsById = new Map<string, TrainRun>();
+  const operated = new Map<ScheduledTrip, TripStop[]>();
+
+  let pending: TrainRun[] = trips.map(trip => {
+    const first = trip.stops[0];
+    const last = trip.stops[trip.stops.length - 1];
+    const run: TrainRun = {
+      trip,
+      track: (getStationChainage(last.stationId) ?? 0) > (getStationChainage(first.stationId) ?? 0) ? 'east' : 'west',
+      index: 0,
+      running: false,
+      ready: holdDeparture(trip, 0, first.departureTime, serviceDate),
+      stops: [{ stationId: first.stationId, arrivalTime: first.arrivalTime, departureTime: first.departureTime }]
+    };
+    runsById.set(trip.id, run);
+    return run;
+  });
+
+  // Earliest time a block is clear for the train, given the train last seen in it
+  const clearFrom = (key: string, run: TrainRun, time: number): number => {
+    const occupation = blocks.get(key);
+    if (!occupation || occupation.tripId === run.trip.id) return time;
+    // Still inside: it moves no earlier than its own ready time, and goes first on a tie
+    const releasedAt = occupation.releasedAt ?? Math.max(runsById.get(occupation.tripId)?.ready ?? time, time) + 1;
+    return Math.max(time, releasedAt + BLOCK_CLEARANCE);
+  };
+
+  // Scheduled time of the next move, to settle ties in favour of the train due first
+  const scheduledMove = (run: TrainRun): number => {
+    const stop = run.trip.stops[run.index];
+    return run.running ? stop.arrivalTime : stop.departureTime;
+  };
+
+  while (pending.length > 0) {
+    let run = pending[0];
+    for (const candidate of pending) {
+      if (candidate.ready < run.ready || (candidate.ready === run.ready && scheduledMove(candidate) < scheduledMove(run))) {
+        run = candidate;
+      }
+    }
+
+    const { trip, track, index } = run;
+    const stop = trip.stops[index];
+    const platformKey = `${track}:platform:${stop.stationId}`;
+
+    if (run.running) {
+      // Arrive once the train ahead has left the platform; until then wait at the signal outside
+      const arrival = clearFrom(platformKey, run, run.ready);
+      if (arrival > run.ready) {
+        run.ready = arrival;
+        continue;
+      }
+
+      const lineBlock = blocks.get(`${track}:line:${stop.stationId}`);
+      if (lineBlock?.tripId === trip.id) lineBlock.releasedAt = arrival;
+
+      if (index === trip.stops.length - 1) {
+        // Terminating trains clear the platform into the sidings
+        run.stops.push({ stationId: stop.stationId, arrivalTime: arrival, departureTime: arrival });
+        blocks.set(platformKey, { tripId: trip.id, releasedAt: arrival });
+        operated.set(trip, run.stops);
+        pending = pending.filter(other => other !== run);
+        runsById.delete(trip.id);
+        continue;
+      }
+
+      // Dwell times are kept, so a late train stays late
+      const earliest = Math.max(stop.departureTime, arrival + stop.departureTime - stop.arrivalTime);
+      run.stops.push({ stationId: stop.stationId, arrivalTime: arrival, departureTime: earliest });
+      run.ready = holdDeparture(trip, index, earliest, serviceDate);
+      run.running = false;
+      blocks.set(platformKey, { tripId: trip.id, releasedAt: null });
+      continue;
+    }
+
+    // Leave once the line ahead is clear and the minimum headway has passed. A train starting here
+    // comes out of the sidings, so it needs the platform to be clear as well
+    const next = trip.stops[index + 1];
+    const lineKey = `${track}:line:${next.stationId}`;
+    let departure = clearFrom(lineKey, run, run.ready);
+    if (index === 0) departure = clearFrom(platformKey, run, departure);
+    const lastDeparture = lastDepartures.get(`${track}:${stop.stationId}`);
+    if (lastDeparture !== undefined) departure = Math.max(departure, lastDeparture + MIN_HEADWAY);
+    departure = reopenSegment(trip, index, departure, serviceDate);
+
+    if (departure > run.ready) {
+      run.ready = departure;
+      continue;
+    }
+
+    run.stops[index].departureTime = departure;
+    lastDepartures.set(`${track}:${stop.stationId}`, departure);
+    const platform = blocks.get(platformKey);
+    if (index === 0) {
+      // First stops have no dwell: the train pulls in and leaves at once
+      run.stops[index].arrivalTime = departure;
+      blocks.set(platformKey, { tripId: trip.id, releasedAt: departure });
+    } else if (platform?.tripId === trip.id) {
+      platform.releasedAt = departure;
+    }
+    blocks.set(lineKey, { tripId: trip.id, releasedAt: null });
+
+    // Running times are kept as well
+    run.index = index + 1;
+    run.running = true;
+    run.ready = departure + next.arrivalTime - stop.departureTime;
+  }
+
+  return trips.map(trip => {
+    const stops = operated.get(trip)!;
+    let changed = false;
+
+    const withDelays = stops.map((stop, index) => {
+      const scheduled = trip.stops[index];
+      if (stop.arrivalTime !== scheduled.arrivalTime || stop.departureTime !== scheduled.departureTime) changed = true;
+
+      // Passengers care about arrivals, except at the first stop
+      const delay = index === 0 ? stop.departureTime - scheduled.departureTime : stop.arrivalTime - scheduled.arrivalTime;
+      return delay > 0 ? { ...stop, delay } : stop;
+    });
+
+    return changed ? { ...trip, stops: withDelays } : trip;
+  });
+}
+
+/**
+ * Departure after the disruptions that hold a train at one of its stops
+ * Applied once, when the train arrives at the stop
+ */
+function holdDeparture(trip: ScheduledTrip, index: number, departureTime: number, serviceDate: Date): number {
+  const stop = trip.stops[index];
+  const toSeconds = (time: Date) => (time.getTime() - serviceDate.getTime()) / 1000;
+  let departure = departureTime;
+
+  for (const disruption of disruptions) {
+    switch (disruption.type) {
+      case 'train':
+        if (
+          disruption.tripId === trip.id &&
+          disruption.serviceDate.getTime() === serviceDate.getTime() &&
+          (disruption.stationId ?? trip.stops[0].stationId) === stop.stationId
+        ) {
+          departure += disruption.delay;
+        }
+        break;
+
+      case 'station':
+        if (
+          disruption.stationId === stop.stationId &&
+          departure >= toSeconds(disruption.startTime) &&
+          departure < toSeconds(disruption.endTime)
+        ) {
+          departure += disruption.delay;
+        }
+        break;
+    }
+  }
+
+  return departure;
+}
+
+/**
+ * Earliest departure into the track towards the next stop, after any blockage there has ended
+ */
+function reopenSegment(trip: ScheduledTrip, index: number, departureTime: number, serviceDate: Date): number {
+  const stop = trip.stops[index];
+  const next = trip.stops[index + 1];
+  const toSeconds = (time: Date) => (time.getTime() - serviceDate.getTime()) / 1000;
+  let departure = departureTime;
+
+  for (const disruption of disruptions) {
+    if (disruption.type !== 'segment') continue;
+
+    const blocksSegment =
+      (disruption.fromStationId === stop.stationId && disruption.toStationId === next.stationId) ||
+      (disruption.fromStationId === next.stationId && disruption.toStationId === stop.stationId);
+    const reopens = toSeconds(disruption.endTime);
+    if (blocksSegment && departure >= toSeconds(disruption.startTime) && departure < reopens) {
+      departure = reopens;
+    }
+  }
+
+  return departure;
+}
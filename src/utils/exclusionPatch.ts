@@ -0,0 +1,144 @@
+/**
+ * Exclusion Patch - Turns an edited set of excluded railway features into changes to
+ * src/data/excludedRailwaySegments.ts, keeping the file's hand-written batches and comments
+ */
+
+import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
+import type { RailwayExclusions } from './positionEngine';
+
+export interface ExclusionChanges {
+  addedIds: number[];
+  removedIds: number[];
+  addedNames: string[];
+  removedNames: string[];
+}
+
+const IDS_PER_LINE = 7;
+const ADDED_COMMENT = 'Added with the Map debug exclusion editor';
+
+/**
+ * The exclusions in the committed file, without the ids listed twice
+ */
+export function getCommittedExclusions(): RailwayExclusions {
+  return { ids: Array.from(new Set(excludedRailwayIds)), names: Array.from(new Set(excludedRailwayNames)) };
+}
+
+export function diffExclusions(base: RailwayExclusions, edited: RailwayExclusions): ExclusionChanges {
+  const baseIds = new Set(base.ids);
+  const editedIds = new Set(edited.ids);
+  const baseNames = new Set(base.names);
+  const editedNames = new Set(edited.names);
+
+  return {
+    addedIds: [...editedIds].filter(id => !baseIds.has(id)).sort((a, b) => a - b),
+    removedIds: [...baseIds].filter(id => !editedIds.has(id)).sort((a, b) => a - b),
+    addedNames: [...editedNames].filter(name => !baseNames.has(name)).sort(),
+    removedNames: [...baseNames].filter(name => !editedNames.has(name)).sort()
+  };
+}
+
+export function hasExclusionChanges(changes: ExclusionChanges): boolean {
+  return changes.addedIds.length + changes.removedIds.length + changes.addedNames.length + changes.removedNames.length > 0;
+}
+
+/**
+ * Apply the changes to the source of excludedRailwaySegments.ts. Removed entries are taken out
+ * where they are listed, added ones go in a new batch at the end of their list
+ */
+export function patchExclusionSource(source: string, changes: ExclusionChanges): string {
+  const removedIds = new Set(changes.removedIds);
+  source = editList(source, 'excludedRailwayIds', lines => {
+    const kept = lines.flatMap(line => {
+      const { code, comment } = splitComment(line);
+      const edited = code.replace(/(?<![\d-])(\d+)(?![\d-]),?\s*/g, (match, id: string) =>
+        removedIds.has(Number(id)) ? '' : match);
+      if (edited === code) return [line];
+      // Drop lines that only listed removed ids
+      return edited.trim() || comment ? [`${edited.trimEnd()}${comment}`.trimEnd()] : [];
+    });
+
+    const added = chunk(changes.addedIds, IDS_PER_LINE).map(ids => `  ${ids.join(', ')}`);
+    return appendBatch(kept, added);
+  });
+
+  const removedNames = new Set(changes.removedNames.map(quote));
+  source = editList(source, 'excludedRailwayNames', lines => {
+    const kept = lines.filter(line => {
+      const { code } = splitComment(line);
+      return ![...removedNames].some(name => code.includes(name));
+    });
+    return appendBatch(kept, changes.addedNames.map(name => `  ${quote(name)}`));
+  });
+
+  return source;
+}
+
+/**
+ * Replace the lines between `export const name = [` and its closing `];`
+ */
+function editList(source: string, name: string, edit: (lines: string[]) => string[]): string {
+  const opening = `export const ${name} = [\n`;
+  const start = source.indexOf(opening);
+  if (start === -1) throw new Error(`${name} not found in excludedRailwaySegments.ts`);
+
+  const bodyStart = start + opening.length;
+  const bodyEnd = source.indexOf('\n];', bodyStart);
+  if (bodyEnd === -1) throw new Error(`${name} is not closed in excludedRailwaySegments.ts`);
+
+  const lines = source.slice(bodyStart, bodyEnd).split('\n');
+  return source.slice(0, bodyStart) + edit(lines).join('\n') + source.slice(bodyEnd);
+}
+
+/**
+ * Add a commented batch of entries after the last one. Like the rest of the file,
+ * only the last entry of a list has no comma
+ */
+function appendBatch(lines: string[], added: string[]): string[] {
+  const result = [...lines];
+  let hasEntries = false;
+  for (let i = result.length - 1; i >= 0; i--) {
+    const { code, comment } = splitComment(result[i]);
+    if (!code.trim()) continue;
+    const entry = code.trimEnd().replace(/,$/, '');
+    result[i] = `${entry}${added.length > 0 ? ',' : ''}${comment}`;
+    hasEntries = true;
+    break;
+  }
+
+  if (added.length === 0) return result;
+  return [
+    ...result,
+    ...(hasEntries ? [''] : []),
+    `  // ${ADDED_COMMENT}`,
+    ...added.map((line, index) => index < added.length - 1 ? `${line},` : line)
+  ];
+}
+
+/**
+ * Split a line at its `//` comment, outside of string literals
+ */
+function splitComment(line: string): { code: string; comment: string } {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+    } else if (line[i] === "'") {
+      quoted = !quoted;
+    } else if (!quoted && line.startsWith('//', i)) {
+      // Keep the space before the comment with it
+      const codeEnd = line.slice(0, i).trimEnd().length;
+      return { code: line.slice(0, codeEnd), comment: line.slice(codeEnd) };
+    }
+  }
+  return { code: line, comment: '' };
+}
+
+function quote(name: string): string {
+  return `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) chunks.push(values.slice(i, i + size));
+  return chunks;
+}
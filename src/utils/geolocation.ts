@@ -0,0 +1,65 @@
+/**
+ * Geolocation - Where the user is, from the browser or a mocked provider
+ * The provider can be swapped, so the nearest-station mode can be tried from anywhere
+ */
+
+export interface GeoPosition {
+  coordinates: [number, number]; // [longitude, latitude]
+  accuracy: number; // meters
+}
+
+export type GeolocationFailure = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+export interface GeolocationProvider {
+  // Rejects with an Error whose message is a GeolocationFailure
+  getCurrentPosition: () => Promise<GeoPosition>;
+}
+
+const FAILURES: GeolocationFailure[] = ['unsupported', 'denied', 'unavailable', 'timeout'];
+
+/**
+ * The browser Geolocation API
+ */
+export const browserGeolocation: GeolocationProvider = {
+  getCurrentPosition: () => new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('unsupported'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        coordinates: [position.coords.longitude, position.coords.latitude],
+        accuracy: position.coords.accuracy
+      }),
+      error => reject(new Error(
+        error.code === error.PERMISSION_DENIED ? 'denied'
+          : error.code === error.TIMEOUT ? 'timeout'
+          : 'unavailable'
+      )),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  })
+};
+
+/**
+ * A provider that always reports the same position, or always fails
+ */
+export function createMockGeolocation(
+  result: [number, number] | GeolocationFailure,
+  accuracy: number = 20
+): GeolocationProvider {
+  return {
+    getCurrentPosition: () => typeof result === 'string'
+      ? Promise.reject(new Error(result))
+      : Promise.resolve({ coordinates: result, accuracy })
+  };
+}
+
+/**
+ * The failure behind a rejected position request
+ */
+export function getGeolocationFailure(error: unknown): GeolocationFailure {
+  const message = error instanceof Error ? error.message : '';
+  return FAILURES.find(failure => failure === message) ?? 'unavailable';
+}
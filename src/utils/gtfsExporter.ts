@@ -0,0 +1,230 @@
+/**
+ * GTFS Exporter - Publishes Rayda's station, route and schedule data as a GTFS static feed
+ * Used by scripts/export-gtfs.js; the output can be read back with gtfsImporter
+ */
+
+import type { Station, Route, InterStationTime } from '../types';
+import type { GtfsRecord, GtfsTables } from './gtfsImporter';
+import { formatGtfsDate } from './gtfsImporter';
+import { getRouteServiceWindow } from './scheduleCalculator';
+import { getStationChainage } from './linearReferencing';
+import { createZipArchive } from './zipArchive';
+
+export interface GtfsExportInput {
+  stations: Station[];
+  routes: Route[];
+  interStationTimes: InterStationTime[];
+  // Track geometry per route id as [longitude, latitude] points in forward direction.
+  // Routes without geometry get a straight line through their stations
+  routeShapes?: Record<string, [number, number][]>;
+  // Calendar validity (defaults to today and one year from today)
+  startDate?: Date;
+  endDate?: Date;
+}
+
+const AGENCY_ID = 'TCDD';
+const SERVICE_ID = 'daily';
+const DEFAULT_INTER_STATION_TIME = 120; // seconds, same fallback as the route calculators
+
+// Column order for every file we write, following the GTFS reference
+const COLUMNS: Record<string, string[]> = {
+  'agency.txt': ['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang'],
+  'stops.txt': ['stop_id', 'stop_name', 'stop_lat', 'stop_lon', 'location_type'],
+  'routes.txt': ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type', 'route_color', 'route_text_color'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id', 'trip_headsign', 'direction_id', 'shape_id'],
+  'stop_times.txt': ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'shape_dist_traveled'],
+  'calendar.txt': ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  'frequencies.txt': ['trip_id', 'start_time', 'end_time', 'headway_secs', 'exact_times'],
+  'feed_info.txt': ['feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'feed_start_date', 'feed_end_date', 'feed_version']
+};
+
+/**
+ * Export the network as a GTFS zip
+ */
+export function exportGtfsFeed(input: GtfsExportInput): Uint8Array {
+  const tables = buildGtfsTables(input);
+  const files: Record<string, string> = {};
+
+  tables.forEach((records, fileName) => {
+    files[fileName] = serializeCsv(records, COLUMNS[fileName]);
+  });
+
+  return createZipArchive(files);
+}
+
+/**
+ * Build the feed as raw records keyed by file name (the same shape readGtfsTables returns)
+ */
+export function buildGtfsTables(input: GtfsExportInput): GtfsTables {
+  const { stations, routes, interStationTimes, routeShapes = {} } = input;
+  const startDate = input.startDate ?? new Date();
+  const endDate = input.endDate ?? addYears(startDate, 1);
+
+  const stationsById = new Map(stations.map(station => [station.id, station]));
+  const travelTimes = new Map(interStationTimes.map(t => [`${t.fromStationId}>${t.toStationId}`, t.time]));
+
+  const trips: GtfsRecord[] = [];
+  const stopTimes: GtfsRecord[] = [];
+  const shapes: GtfsRecord[] = [];
+  const frequencies: GtfsRecord[] = [];
+
+  for (const route of routes) {
+    const window = getRouteServiceWindow(route.id);
+    if (!window) continue;
+    const forwardShape = routeShapes[route.id] ?? route.stations.map(id => stationsById.get(id)!.coordinates);
+
+    const directions: { direction: 'forward' | 'backward'; stationIds: string[]; shape: [number, number][] }[] = [
+      { direction: 'forward', stationIds: route.stations, shape: forwardShape },
+      { direction: 'backward', stationIds: [...route.stations].reverse(), shape: [...forwardShape].reverse() }
+    ];
+
+    directions.forEach(({ direction, stationIds, shape }, directionId) => {
+      // One template trip per direction, repeated through the service window by frequencies.txt
+      const tripId = `${route.id}-${direction}`;
+      const shapeId = tripId;
+      const headsign = stationsById.get(stationIds[stationIds.length - 1])?.name ?? '';
+
+      trips.push({
+        route_id: route.id,
+        service_id: SERVICE_ID,
+        trip_id: tripId,
+        trip_headsign: headsign,
+        direction_id: String(directionId),
+        shape_id: shapeId
+      });
+
+      // Distances along the line are the stations' chainage, the same the app measures journeys with,
+      // rather than the drawn track, which carries extra length from sidings and junction curves
+      const origin = getStationChainage(stationIds[0]);
+      let time = window.startMinutes * 60;
+      stationIds.forEach((stationId, index) => {
+        if (index > 0) {
+          time += travelTimes.get(`${stationIds[index - 1]}>${stationId}`) ?? DEFAULT_INTER_STATION_TIME;
+        }
+        stopTimes.push({
+          trip_id: tripId,
+          arrival_time: formatGtfsTime(time),
+          departure_time: formatGtfsTime(time),
+          stop_id: stationId,
+          stop_sequence: String(index + 1),
+          shape_dist_traveled: chainageFrom(origin, stationId)
+        });
+      });
+
+      shape.forEach(([lng, lat], index) => {
+        shapes.push({
+          shape_id: shapeId,
+          shape_pt_lat: lat.toFixed(6),
+          shape_pt_lon: lng.toFixed(6),
+          shape_pt_sequence: String(index + 1)
+        });
+      });
+
+      frequencies.push({
+        trip_id: tripId,
+        start_time: formatGtfsTime(window.startMinutes * 60),
+        end_time: formatGtfsTime(window.endMinutes * 60),
+        headway_secs: String(route.frequency * 60),
+        exact_times: '0'
+      });
+    });
+  }
+
+  const tables: GtfsTables = new Map();
+
+  tables.set('agency.txt', [{
+    agency_id: AGENCY_ID,
+    agency_name: 'TCDD Taşımacılık',
+    agency_url: 'https://www.tcddtasimacilik.gov.tr',
+    agency_timezone: 'Europe/Istanbul',
+    agency_lang: 'tr'
+  }]);
+
+  tables.set('stops.txt', stations.map(station => ({
+    stop_id: station.id,
+    stop_name: station.name,
+    stop_lat: station.coordinates[1].toFixed(6),
+    stop_lon: station.coordinates[0].toFixed(6),
+    location_type: '0'
+  })));
+
+  tables.set('routes.txt', routes.map(route => ({
+    route_id: route.id,
+    agency_id: AGENCY_ID,
+    route_short_name: 'Marmaray',
+    route_long_name: route.name,
+    route_type: '2', // Rail
+    route_color: route.color.replace('#', '').toUpperCase(),
+    route_text_color: 'FFFFFF'
+  })));
+
+  tables.set('trips.txt', trips);
+  tables.set('stop_times.txt', stopTimes);
+
+  tables.set('calendar.txt', [{
+    service_id: SERVICE_ID,
+    monday: '1',
+    tuesday: '1',
+    wednesday: '1',
+    thursday: '1',
+    friday: '1',
+    saturday: '1',
+    sunday: '1',
+    start_date: formatGtfsDate(startDate),
+    end_date: formatGtfsDate(endDate)
+  }]);
+
+  tables.set('shapes.txt', shapes);
+  tables.set('frequencies.txt', frequencies);
+
+  tables.set('feed_info.txt', [{
+    feed_publisher_name: 'Rayda',
+    feed_publisher_url: 'https://omerdikyol.github.io/rayda',
+    feed_lang: 'tr',
+    feed_start_date: formatGtfsDate(startDate),
+    feed_end_date: formatGtfsDate(endDate),
+    feed_version: formatGtfsDate(startDate)
+  }]);
+
+  return tables;
+}
+
+/**
+ * Serialize records as RFC 4180 CSV, quoting only fields that need it
+ */
+export function serializeCsv(records: GtfsRecord[], columns: string[]): string {
+  const escape = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const lines = [columns.join(',')];
+  for (const record of records) {
+    lines.push(columns.map(column => escape(record[column] ?? '')).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Format seconds after midnight as a GTFS time (HH:MM:SS, hours may exceed 23)
+ */
+export function formatGtfsTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+}
+
+/**
+ * Kilometres along the line from the trip's first stop, empty for a station without chainage
+ */
+function chainageFrom(origin: number | null, stationId: string): string {
+  const chainage = getStationChainage(stationId);
+  return origin === null || chainage === null ? '' : Math.abs(chainage - origin).toFixed(2);
+}
@@ -0,0 +1,700 @@
+/**
+ * GTFS Importer - Builds Rayda's station, route and travel time data from a GTFS static feed
+ * Used by scripts/import-gtfs.js to regenerate src/data from the IMM feed
+ */
+
+import type { Station, Route, InterStationTime } from '../types';
+import { readZipArchive } from './zipArchive';
+import { calculateDistance } from './railwayGraph';
+
+export type GtfsRecord = Record<string, string>;
+
+export interface GtfsStop {
+  stopId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  parentStation?: string;
+}
+
+export interface GtfsRoute {
+  routeId: string;
+  shortName: string;
+  longName: string;
+  color?: string;
+}
+
+export interface GtfsTrip {
+  tripId: string;
+  routeId: string;
+  serviceId: string;
+  directionId?: string;
+  shapeId?: string;
+}
+
+export interface GtfsStopTime {
+  tripId: string;
+  stopId: string;
+  stopSequence: number;
+  arrivalTime: number; // seconds after midnight, may exceed 24h
+  departureTime: number; // seconds after midnight, may exceed 24h
+  shapeDistTraveled?: number; // in the feed's shape distance unit
+}
+
+export interface GtfsCalendar {
+  serviceId: string;
+  days: boolean[]; // Sunday-first, matching Date.getDay()
+  startDate: string; // YYYYMMDD
+  endDate: string; // YYYYMMDD
+}
+
+export interface GtfsFrequency {
+  tripId: string;
+  startTime: number; // seconds after midnight
+  endTime: number; // seconds after midnight
+  headwaySecs: number;
+}
+
+export interface GtfsShapePoint {
+  shapeId: string;
+  lat: number;
+  lon: number;
+  sequence: number;
+}
+
+export interface GtfsFeed {
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  stopTimes: GtfsStopTime[];
+  calendar: GtfsCalendar[];
+  shapes: GtfsShapePoint[];
+  frequencies: GtfsFrequency[];
+}
+
+export type GtfsTables = Map<string, GtfsRecord[]>;
+
+export interface GtfsImportOptions {
+  // Text encoding of the feed files. 'auto' uses UTF-8 when valid, else ISO-8859-9 (Turkish)
+  encoding?: 'auto' | string;
+  // Only import routes whose id, short name or long name matches (case-insensitive)
+  routeFilter?: string;
+  // Only use trips running on this date (defaults to every service in calendar.txt)
+  serviceDate?: Date;
+  // Drop stop patterns with fewer trips than this (depot moves, short workings).
+  // A frequency-based trip counts once for every departure frequencies.txt repeats it
+  minTripsPerPattern?: number;
+  // Unit of shape_dist_traveled; 'auto' compares it with the distance between the stops
+  shapeDistUnit?: 'auto' | 'km' | 'm';
+  // Existing routes whose ids, names and colors should be kept when termini match
+  knownRoutes?: Route[];
+}
+
+export interface GtfsImportResult {
+  stations: Station[];
+  routes: Route[];
+  interStationTimes: InterStationTime[];
+  report: string[];
+}
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+
+/**
+ * Import a GTFS zip and build stations, routes and inter-station times
+ */
+export async function importGtfsFeed(
+  zipData: Uint8Array,
+  options: GtfsImportOptions = {}
+): Promise<GtfsImportResult> {
+  const feed = await readGtfsFeed(zipData, options.encoding);
+  return buildNetworkFromGtfs(feed, options);
+}
+
+/**
+ * Read and parse all supported files of a GTFS zip
+ */
+export async function readGtfsFeed(zipData: Uint8Array, encoding: string = 'auto'): Promise<GtfsFeed> {
+  const tables = await readGtfsTables(zipData, encoding);
+
+  for (const required of REQUIRED_FILES) {
+    if (!tables.has(required)) {
+      throw new Error(`GTFS feed is missing required file ${required}`);
+    }
+  }
+
+  return parseGtfsTables(tables);
+}
+
+/**
+ * Read every .txt file of a GTFS zip as raw CSV records, keyed by file name
+ */
+export async function readGtfsTables(zipData: Uint8Array, encoding: string = 'auto'): Promise<GtfsTables> {
+  const archive = await readZipArchive(zipData);
+  const tables: GtfsTables = new Map();
+
+  // Some publishers nest the feed inside a folder - index files by their base name
+  archive.forEach((content, path) => {
+    const fileName = path.split('/').pop()!;
+    if (fileName.endsWith('.txt')) {
+      tables.set(fileName, parseCsv(decodeGtfsText(content, encoding)));
+    }
+  });
+
+  return tables;
+}
+
+/**
+ * Decode feed text. IMM publishes its feed in ISO-8859-9, which mangles ı/ş/ğ/İ when read as UTF-8
+ */
+export function decodeGtfsText(content: Uint8Array, encoding: string = 'auto'): string {
+  let text: string;
+
+  if (encoding === 'auto') {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(content);
+    } catch {
+      text = new TextDecoder('iso-8859-9').decode(content);
+    }
+  } else {
+    text = new TextDecoder(encoding).decode(content);
+  }
+
+  // Strip the byte order mark some exporters prepend
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Parse RFC 4180 CSV into records keyed by the header row
+ */
+export function parseCsv(text: string): GtfsRecord[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.length > 1 || r[0] !== '');
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return body.map(values => {
+    const record: GtfsRecord = {};
+    columns.forEach((column, index) => {
+      record[column] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Parse a GTFS time (HH:MM:SS, hours may exceed 23) into seconds after midnight
+ */
+export function parseGtfsTime(value: string): number {
+  const [hours, minutes, seconds = '0'] = value.split(':');
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/**
+ * Convert raw CSV records into typed GTFS entities
+ */
+export function parseGtfsTables(tables: GtfsTables): GtfsFeed {
+  const table = (fileName: string): GtfsRecord[] => tables.get(fileName) ?? [];
+
+  return {
+    stops: table('stops.txt').map(r => ({
+      stopId: r.stop_id,
+      name: r.stop_name,
+      lat: Number(r.stop_lat),
+      lon: Number(r.stop_lon),
+      parentStation: r.parent_station || undefined
+    })),
+    routes: table('routes.txt').map(r => ({
+      routeId: r.route_id,
+      shortName: r.route_short_name ?? '',
+      longName: r.route_long_name ?? '',
+      color: r.route_color || undefined
+    })),
+    trips: table('trips.txt').map(r => ({
+      tripId: r.trip_id,
+      routeId: r.route_id,
+      serviceId: r.service_id,
+      directionId: r.direction_id || undefined,
+      shapeId: r.shape_id || undefined
+    })),
+    stopTimes: table('stop_times.txt')
+      .filter(r => r.arrival_time || r.departure_time)
+      .map(r => ({
+        tripId: r.trip_id,
+        stopId: r.stop_id,
+        stopSequence: Number(r.stop_sequence),
+        arrivalTime: parseGtfsTime(r.arrival_time || r.departure_time),
+        departureTime: parseGtfsTime(r.departure_time || r.arrival_time),
+        shapeDistTraveled: r.shape_dist_traveled ? Number(r.shape_dist_traveled) : undefined
+      })),
+    calendar: table('calendar.txt').map(r => ({
+      serviceId: r.service_id,
+      days: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'].map(
+        day => r[day] === '1'
+      ),
+      startDate: r.start_date,
+      endDate: r.end_date
+    })),
+    shapes: table('shapes.txt').map(r => ({
+      shapeId: r.shape_id,
+      lat: Number(r.shape_pt_lat),
+      lon: Number(r.shape_pt_lon),
+      sequence: Number(r.shape_pt_sequence)
+    })),
+    frequencies: table('frequencies.txt').map(r => ({
+      tripId: r.trip_id,
+      startTime: parseGtfsTime(r.start_time),
+      endTime: parseGtfsTime(r.end_time),
+      headwaySecs: Number(r.headway_secs)
+    }))
+  };
+}
+
+interface StopPattern {
+  stopIds: string[];
+  tripIds: string[];
+  departures: number; // trips, with frequency-based trips counted per departure
+  directionId?: string;
+  shapeId?: string;
+}
+
+/**
+ * Build Rayda's network structures from a parsed feed
+ */
+export function buildNetworkFromGtfs(feed: GtfsFeed, options: GtfsImportOptions = {}): GtfsImportResult {
+  const { routeFilter, serviceDate, minTripsPerPattern = 5, shapeDistUnit = 'auto', knownRoutes = [] } = options;
+  const report: string[] = [];
+
+  // Select routes
+  const filter = routeFilter?.toLocaleLowerCase('tr-TR');
+  const selectedRoutes = feed.routes.filter(route =>
+    !filter ||
+    [route.routeId, route.shortName, route.longName].some(value =>
+      value.toLocaleLowerCase('tr-TR').includes(filter)
+    )
+  );
+  if (selectedRoutes.length === 0) {
+    throw new Error(`No GTFS routes match "${routeFilter}"`);
+  }
+  report.push(`Routes: ${selectedRoutes.map(r => r.shortName || r.longName || r.routeId).join(', ')}`);
+
+  // Select trips by route and active service
+  const routeIds = new Set(selectedRoutes.map(r => r.routeId));
+  const activeServices = getActiveServiceIds(feed.calendar, serviceDate);
+  const trips = feed.trips.filter(trip =>
+    routeIds.has(trip.routeId) && (!activeServices || activeServices.has(trip.serviceId))
+  );
+  report.push(`Trips: ${trips.length}`);
+
+  // Resolve platforms to their parent station
+  const stopsById = new Map(feed.stops.map(stop => [stop.stopId, stop]));
+  const resolveStationId = (stopId: string): string => stopsById.get(stopId)?.parentStation || stopId;
+
+  // Group stop times per trip
+  const tripIds = new Set(trips.map(trip => trip.tripId));
+  const stopTimesByTrip = new Map<string, GtfsStopTime[]>();
+  for (const stopTime of feed.stopTimes) {
+    if (!tripIds.has(stopTime.tripId)) continue;
+    const list = stopTimesByTrip.get(stopTime.tripId) ?? [];
+    list.push({ ...stopTime, stopId: resolveStationId(stopTime.stopId) });
+    stopTimesByTrip.set(stopTime.tripId, list);
+  }
+  stopTimesByTrip.forEach(list => list.sort((a, b) => a.stopSequence - b.stopSequence));
+
+  // Group trips into stop patterns
+  const patterns = new Map<string, StopPattern>();
+  for (const trip of trips) {
+    const stopTimes = stopTimesByTrip.get(trip.tripId);
+    if (!stopTimes || stopTimes.length < 2) continue;
+
+    const stopIds = stopTimes.map(st => st.stopId);
+    const key = stopIds.join('>');
+    const pattern = patterns.get(key) ??
+      { stopIds, tripIds: [], departures: 0, directionId: trip.directionId, shapeId: trip.shapeId };
+    pattern.tripIds.push(trip.tripId);
+    pattern.departures += countDepartures(trip.tripId, feed.frequencies);
+    patterns.set(key, pattern);
+  }
+
+  const mainPatterns = Array.from(patterns.values()).filter(p => p.departures >= minTripsPerPattern);
+  report.push(`Stop patterns: ${patterns.size} (${mainPatterns.length} with at least ${minTripsPerPattern} trips)`);
+  if (mainPatterns.length === 0) {
+    throw new Error('No stop pattern has enough trips to import');
+  }
+
+  // Merge each pattern with its reverse into one bidirectional route
+  const routePatterns = mergeReversePatterns(mainPatterns, stopsById);
+
+  // Stations in the order they appear on the longest pattern
+  const longestPattern = routePatterns.reduce((a, b) => (b.forward.stopIds.length > a.forward.stopIds.length ? b : a));
+  const stationIds = new Set(routePatterns.flatMap(p => p.forward.stopIds));
+  const distances = calculateDistancesFromStart(
+    longestPattern.forward,
+    routePatterns,
+    stopsById,
+    feed.shapes,
+    stopTimesByTrip.get(longestPattern.forward.tripIds[0])!,
+    shapeDistUnit,
+    report
+  );
+
+  const stations: Station[] = Array.from(stationIds).map(stationId => {
+    const stop = stopsById.get(stationId);
+    if (!stop) throw new Error(`stop_times.txt references unknown stop ${stationId}`);
+    return {
+      id: stationId,
+      name: normalizeStationName(stop.name),
+      coordinates: [stop.lon, stop.lat],
+      distanceFromStart: Math.round((distances.get(stationId) ?? 0) * 100) / 100
+    };
+  });
+
+  // Routes
+  const gtfsRoutesById = new Map(selectedRoutes.map(route => [route.routeId, route]));
+  const tripsById = new Map(trips.map(trip => [trip.tripId, trip]));
+  const routes: Route[] = routePatterns.map(({ forward, backward }) => {
+    const stopIds = forward.stopIds;
+    const termini: [string, string] = [stopIds[0], stopIds[stopIds.length - 1]];
+    const known = knownRoutes.find(route =>
+      (route.termini[0] === termini[0] && route.termini[1] === termini[1]) ||
+      (route.termini[0] === termini[1] && route.termini[1] === termini[0])
+    );
+    const gtfsRoute = gtfsRoutesById.get(tripsById.get(forward.tripIds[0])!.routeId)!;
+    const frequency = calculateMedianHeadway([forward, backward], stopTimesByTrip, feed.frequencies);
+
+    const firstName = stations.find(s => s.id === termini[0])!.name;
+    const lastName = stations.find(s => s.id === termini[1])!.name;
+    const lineName = gtfsRoute.longName || gtfsRoute.shortName || gtfsRoute.routeId;
+
+    return {
+      id: known?.id ?? `${slugify(gtfsRoute.shortName || gtfsRoute.routeId)}-${termini[0]}-${termini[1]}`,
+      name: known?.name ?? `${lineName} ${firstName}-${lastName}`,
+      termini,
+      frequency,
+      stations: stopIds,
+      color: known?.color ?? (gtfsRoute.color ? `#${gtfsRoute.color.toUpperCase()}` : '#0066CC')
+    };
+  });
+
+  routes.forEach(route =>
+    report.push(`Route ${route.id}: ${route.stations.length} stations, every ${route.frequency} min`)
+  );
+
+  const interStationTimes = calculateInterStationTimes(longestPattern.forward.stopIds, stopTimesByTrip);
+  report.push(`Stations: ${stations.length}, inter-station times: ${interStationTimes.length}`);
+
+  return { stations, routes, interStationTimes, report };
+}
+
+/**
+ * Service ids running on the given date, or on any weekday when no date is given
+ * Returns null when the feed has no calendar.txt (every trip is used)
+ */
+function getActiveServiceIds(calendar: GtfsCalendar[], serviceDate?: Date): Set<string> | null {
+  if (calendar.length === 0) return null;
+
+  if (!serviceDate) {
+    return new Set(calendar.filter(c => c.days.slice(1, 6).some(Boolean)).map(c => c.serviceId));
+  }
+
+  const ymd = formatGtfsDate(serviceDate);
+  return new Set(
+    calendar
+      .filter(c => c.days[serviceDate.getDay()] && c.startDate <= ymd && ymd <= c.endDate)
+      .map(c => c.serviceId)
+  );
+}
+
+/**
+ * Format a date as GTFS YYYYMMDD
+ */
+export function formatGtfsDate(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Pair each pattern with the pattern running the same stops in reverse
+ * The direction_id 0 pattern (or the westbound-starting one) becomes the route's forward direction
+ */
+function mergeReversePatterns(
+  patterns: StopPattern[],
+  stopsById: Map<string, GtfsStop>
+): { forward: StopPattern; backward: StopPattern | null }[] {
+  const remaining = [...patterns].sort((a, b) => b.departures - a.departures);
+  const merged: { forward: StopPattern; backward: StopPattern | null }[] = [];
+
+  while (remaining.length > 0) {
+    const pattern = remaining.shift()!;
+    const reverseKey = [...pattern.stopIds].reverse().join('>');
+    const reverseIndex = remaining.findIndex(p => p.stopIds.join('>') === reverseKey);
+    const reverse = reverseIndex === -1 ? null : remaining.splice(reverseIndex, 1)[0];
+
+    if (!reverse) {
+      merged.push({ forward: pattern, backward: null });
+      continue;
+    }
+
+    let patternIsForward: boolean;
+    if (pattern.directionId !== undefined && reverse.directionId !== undefined) {
+      patternIsForward = pattern.directionId === '0';
+    } else {
+      const first = stopsById.get(pattern.stopIds[0]);
+      const last = stopsById.get(pattern.stopIds[pattern.stopIds.length - 1]);
+      patternIsForward = !first || !last || first.lon <= last.lon;
+    }
+
+    merged.push(patternIsForward ? { forward: pattern, backward: reverse } : { forward: reverse, backward: pattern });
+  }
+
+  return merged;
+}
+
+/**
+ * Departures a trip stands for: one, or every departure frequencies.txt repeats it for
+ */
+function countDepartures(tripId: string, frequencies: GtfsFrequency[]): number {
+  const tripFrequencies = frequencies.filter(f => f.tripId === tripId && f.headwaySecs > 0);
+  if (tripFrequencies.length === 0) return 1;
+
+  return tripFrequencies.reduce(
+    (total, f) => total + Math.max(1, Math.ceil((f.endTime - f.startTime) / f.headwaySecs)),
+    0
+  );
+}
+
+/**
+ * Distance of each station from the start of the longest pattern in km
+ * Prefers shape_dist_traveled from stop_times.txt, then the pattern's shape, then straight lines between stops
+ */
+function calculateDistancesFromStart(
+  longest: StopPattern,
+  patterns: { forward: StopPattern }[],
+  stopsById: Map<string, GtfsStop>,
+  shapePoints: GtfsShapePoint[],
+  longestStopTimes: GtfsStopTime[],
+  shapeDistUnit: 'auto' | 'km' | 'm',
+  report: string[]
+): Map<string, number> {
+  const distances = new Map<string, number>();
+  const shape = shapePoints
+    .filter(point => point.shapeId === longest.shapeId)
+    .sort((a, b) => a.sequence - b.sequence);
+
+  if (longestStopTimes.every(st => st.shapeDistTraveled !== undefined)) {
+    // Distances published in stop_times.txt, in the unit of the feed
+    const origin = longestStopTimes[0].shapeDistTraveled!;
+    const unit = shapeDistUnit === 'auto' ? detectShapeDistUnit(longestStopTimes, stopsById) : shapeDistUnit;
+    const toKm = unit === 'm' ? 1 / 1000 : 1;
+    report.push(`shape_dist_traveled in ${unit === 'm' ? 'metres' : 'kilometres'}${shapeDistUnit === 'auto' ? ' (detected)' : ''}`);
+    longestStopTimes.forEach(st => distances.set(st.stopId, (st.shapeDistTraveled! - origin) * toKm));
+  } else if (shape.length >= 2) {
+    // Cumulative length along the shape
+    const cumulative = [0];
+    for (let i = 1; i < shape.length; i++) {
+      cumulative.push(cumulative[i - 1] + haversineKm(shape[i - 1], shape[i]));
+    }
+
+    for (const stopId of longest.stopIds) {
+      const stop = stopsById.get(stopId);
+      if (!stop) continue;
+      let bestIndex = 0;
+      let bestDistance = Infinity;
+      shape.forEach((point, index) => {
+        const d = haversineKm(point, stop);
+        if (d < bestDistance) {
+          bestDistance = d;
+          bestIndex = index;
+        }
+      });
+      distances.set(stopId, cumulative[bestIndex]);
+    }
+  } else {
+    let total = 0;
+    longest.stopIds.forEach((stopId, index) => {
+      if (index > 0) {
+        const prev = stopsById.get(longest.stopIds[index - 1]);
+        const stop = stopsById.get(stopId);
+        if (prev && stop) total += haversineKm(prev, stop);
+      }
+      distances.set(stopId, total);
+    });
+  }
+
+  // Stations that are only served by other patterns get a straight-line offset from a shared neighbour
+  for (const { forward } of patterns) {
+    forward.stopIds.forEach((stopId, index) => {
+      if (distances.has(stopId)) return;
+      const neighbourId = forward.stopIds[index - 1] ?? forward.stopIds[index + 1];
+      const neighbour = stopsById.get(neighbourId);
+      const stop = stopsById.get(stopId);
+      if (neighbour && stop) {
+        distances.set(stopId, (distances.get(neighbourId) ?? 0) + haversineKm(neighbour, stop));
+      }
+    });
+  }
+
+  return distances;
+}
+
+/**
+ * Feeds publish shape_dist_traveled in kilometres or metres. The track between the stops is a bit
+ * longer than the straight lines, so the published length is close to them in kilometres and
+ * about a thousand times more in metres
+ */
+function detectShapeDistUnit(stopTimes: GtfsStopTime[], stopsById: Map<string, GtfsStop>): 'km' | 'm' {
+  let straightKm = 0;
+  for (let i = 1; i < stopTimes.length; i++) {
+    const prev = stopsById.get(stopTimes[i - 1].stopId);
+    const stop = stopsById.get(stopTimes[i].stopId);
+    if (prev && stop) straightKm += haversineKm(prev, stop);
+  }
+
+  const published = Math.abs(stopTimes[stopTimes.length - 1].shapeDistTraveled! - stopTimes[0].shapeDistTraveled!);
+  // The geometric mean of the two candidates separates them whatever the detours
+  return straightKm > 0 && published / straightKm > Math.sqrt(1000) ? 'm' : 'km';
+}
+
+/**
+ * Median headway in minutes between consecutive departures from each pattern's first stop
+ * Frequency-based trips (frequencies.txt) contribute their headway_secs instead
+ */
+function calculateMedianHeadway(
+  patterns: (StopPattern | null)[],
+  stopTimesByTrip: Map<string, GtfsStopTime[]>,
+  frequencies: GtfsFrequency[]
+): number {
+  const headways: number[] = [];
+
+  for (const pattern of patterns) {
+    if (!pattern) continue;
+
+    const patternTrips = new Set(pattern.tripIds);
+    const patternFrequencies = frequencies.filter(f => patternTrips.has(f.tripId));
+    if (patternFrequencies.length > 0) {
+      patternFrequencies.forEach(f => headways.push(f.headwaySecs));
+      continue;
+    }
+
+    const departures = pattern.tripIds
+      .map(tripId => stopTimesByTrip.get(tripId)![0].departureTime)
+      .sort((a, b) => a - b);
+
+    for (let i = 1; i < departures.length; i++) {
+      const headway = departures[i] - departures[i - 1];
+      if (headway > 0) headways.push(headway);
+    }
+  }
+
+  return headways.length > 0 ? Math.max(1, Math.round(median(headways) / 60)) : 15;
+}
+
+/**
+ * Median running time between every pair of consecutive stops, ordered along the main line
+ */
+function calculateInterStationTimes(
+  lineOrder: string[],
+  stopTimesByTrip: Map<string, GtfsStopTime[]>
+): InterStationTime[] {
+  const samples = new Map<string, number[]>();
+
+  stopTimesByTrip.forEach(stopTimes => {
+    for (let i = 1; i < stopTimes.length; i++) {
+      const key = `${stopTimes[i - 1].stopId}>${stopTimes[i].stopId}`;
+      const time = stopTimes[i].arrivalTime - stopTimes[i - 1].departureTime;
+      if (time <= 0) continue;
+      const list = samples.get(key) ?? [];
+      list.push(time);
+      samples.set(key, list);
+    }
+  });
+
+  // Forward pairs along the main line first, then the reverse, then anything else
+  const position = new Map(lineOrder.map((stopId, index) => [stopId, index]));
+  const rank = (key: string): number => {
+    const [from, to] = key.split('>');
+    const fromIndex = position.get(from) ?? Infinity;
+    const toIndex = position.get(to) ?? Infinity;
+    if (fromIndex < toIndex) return fromIndex;
+    if (toIndex < fromIndex) return lineOrder.length + toIndex;
+    return Infinity;
+  };
+
+  return Array.from(samples.entries())
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([key, times]) => {
+      const [fromStationId, toStationId] = key.split('>');
+      return { fromStationId, toStationId, time: Math.round(median(times)) };
+    });
+}
+
+/**
+ * IMM stop names are upper case with a line suffix ("HALKALI MARMARAY") - convert to title case
+ */
+function normalizeStationName(name: string): string {
+  const cleaned = name.replace(/\s+marmaray$/i, '').trim();
+  if (cleaned !== cleaned.toLocaleUpperCase('tr-TR')) return cleaned;
+
+  return cleaned
+    .toLocaleLowerCase('tr-TR')
+    .split(' ')
+    .map(word => word.charAt(0).toLocaleUpperCase('tr-TR') + word.slice(1))
+    .join(' ');
+}
+
+function slugify(value: string): string {
+  return value
+    .toLocaleLowerCase('tr-TR')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  return calculateDistance({ lng: a.lon, lat: a.lat }, { lng: b.lon, lat: b.lat }) / 1000;
+}
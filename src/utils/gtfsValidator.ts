@@ -0,0 +1,267 @@
+/**
+ * GTFS Validator - Checks a feed against the core rules of the GTFS static reference
+ * Covers the subset of checks that matter for the feeds Rayda reads and writes
+ */
+
+import type { GtfsRecord, GtfsTables } from './gtfsImporter';
+import { parseGtfsTime } from './gtfsImporter';
+
+export interface GtfsValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  'agency.txt': ['agency_name', 'agency_url', 'agency_timezone'],
+  'stops.txt': ['stop_id'],
+  'routes.txt': ['route_id', 'route_type'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id'],
+  'stop_times.txt': ['trip_id', 'stop_id', 'stop_sequence'],
+  'calendar.txt': ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  'frequencies.txt': ['trip_id', 'start_time', 'end_time', 'headway_secs']
+};
+
+const TIME_PATTERN = /^\d{1,2}:\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{8}$/;
+const COLOR_PATTERN = /^[0-9A-Fa-f]{6}$/;
+
+// Individual problems are capped per check so a broken feed does not flood the report
+const MAX_ISSUES_PER_CHECK = 20;
+
+/**
+ * Validate a feed read with readGtfsTables or built with buildGtfsTables
+ */
+export function validateGtfsTables(tables: GtfsTables): GtfsValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const table = (fileName: string): GtfsRecord[] => tables.get(fileName) ?? [];
+
+  // Required files
+  for (const fileName of ['agency.txt', 'stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt']) {
+    if (!tables.has(fileName)) errors.push(`Missing required file ${fileName}`);
+  }
+  if (!tables.has('calendar.txt') && !tables.has('calendar_dates.txt')) {
+    errors.push('Missing calendar.txt or calendar_dates.txt');
+  }
+
+  // Required columns and values
+  for (const [fileName, columns] of Object.entries(REQUIRED_COLUMNS)) {
+    const issues = limitedList(errors);
+    table(fileName).forEach((record, index) => {
+      for (const column of columns) {
+        if (!record[column]) issues.push(`${fileName} row ${index + 2}: missing ${column}`);
+      }
+    });
+  }
+
+  // Unique identifiers
+  checkUnique(table('stops.txt'), 'stop_id', 'stops.txt', errors);
+  checkUnique(table('routes.txt'), 'route_id', 'routes.txt', errors);
+  checkUnique(table('trips.txt'), 'trip_id', 'trips.txt', errors);
+  checkUnique(table('calendar.txt'), 'service_id', 'calendar.txt', errors);
+  if (table('agency.txt').length > 1) {
+    checkUnique(table('agency.txt'), 'agency_id', 'agency.txt', errors);
+  }
+
+  // Agency
+  const timezones = new Set(table('agency.txt').map(a => a.agency_timezone));
+  if (timezones.size > 1) errors.push('agency.txt: all agencies must share one agency_timezone');
+
+  // Stops
+  const stopIssues = limitedList(errors);
+  table('stops.txt').forEach(stop => {
+    const lat = Number(stop.stop_lat);
+    const lon = Number(stop.stop_lon);
+    const isStation = !stop.location_type || stop.location_type === '0' || stop.location_type === '1';
+    if (isStation && (!stop.stop_name || Number.isNaN(lat) || Number.isNaN(lon))) {
+      stopIssues.push(`stops.txt: stop ${stop.stop_id} needs stop_name, stop_lat and stop_lon`);
+    } else if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      stopIssues.push(`stops.txt: stop ${stop.stop_id} has coordinates out of range`);
+    }
+  });
+
+  // Routes
+  const agencyIds = new Set(table('agency.txt').map(a => a.agency_id).filter(Boolean));
+  const routeIssues = limitedList(errors);
+  table('routes.txt').forEach(route => {
+    if (!route.route_short_name && !route.route_long_name) {
+      routeIssues.push(`routes.txt: route ${route.route_id} needs route_short_name or route_long_name`);
+    }
+    if (route.route_type && !/^\d+$/.test(route.route_type)) {
+      routeIssues.push(`routes.txt: route ${route.route_id} has invalid route_type "${route.route_type}"`);
+    }
+    for (const column of ['route_color', 'route_text_color']) {
+      if (route[column] && !COLOR_PATTERN.test(route[column])) {
+        routeIssues.push(`routes.txt: route ${route.route_id} has invalid ${column} "${route[column]}"`);
+      }
+    }
+    if (route.agency_id && agencyIds.size > 0 && !agencyIds.has(route.agency_id)) {
+      routeIssues.push(`routes.txt: route ${route.route_id} references unknown agency ${route.agency_id}`);
+    }
+  });
+
+  // Calendar
+  const calendarIssues = limitedList(errors);
+  table('calendar.txt').forEach(service => {
+    if (!DATE_PATTERN.test(service.start_date) || !DATE_PATTERN.test(service.end_date)) {
+      calendarIssues.push(`calendar.txt: service ${service.service_id} has invalid dates`);
+    } else if (service.start_date > service.end_date) {
+      calendarIssues.push(`calendar.txt: service ${service.service_id} ends before it starts`);
+    }
+  });
+
+  // Trips
+  const routeIds = new Set(table('routes.txt').map(r => r.route_id));
+  const serviceIds = new Set([
+    ...table('calendar.txt').map(c => c.service_id),
+    ...table('calendar_dates.txt').map(c => c.service_id)
+  ]);
+  const shapeIds = new Set(table('shapes.txt').map(s => s.shape_id));
+  const tripIssues = limitedList(errors);
+  table('trips.txt').forEach(trip => {
+    if (!routeIds.has(trip.route_id)) tripIssues.push(`trips.txt: trip ${trip.trip_id} references unknown route ${trip.route_id}`);
+    if (!serviceIds.has(trip.service_id)) tripIssues.push(`trips.txt: trip ${trip.trip_id} references unknown service ${trip.service_id}`);
+    if (trip.shape_id && !shapeIds.has(trip.shape_id)) tripIssues.push(`trips.txt: trip ${trip.trip_id} references unknown shape ${trip.shape_id}`);
+    if (trip.direction_id && trip.direction_id !== '0' && trip.direction_id !== '1') {
+      tripIssues.push(`trips.txt: trip ${trip.trip_id} has invalid direction_id "${trip.direction_id}"`);
+    }
+  });
+
+  // Stop times
+  const tripIds = new Set(table('trips.txt').map(t => t.trip_id));
+  const stopIds = new Set(table('stops.txt').map(s => s.stop_id));
+  const stopTimesByTrip = new Map<string, GtfsRecord[]>();
+  const stopTimeIssues = limitedList(errors);
+  table('stop_times.txt').forEach(stopTime => {
+    if (!tripIds.has(stopTime.trip_id)) stopTimeIssues.push(`stop_times.txt: unknown trip ${stopTime.trip_id}`);
+    if (!stopIds.has(stopTime.stop_id)) stopTimeIssues.push(`stop_times.txt: unknown stop ${stopTime.stop_id}`);
+    for (const column of ['arrival_time', 'departure_time']) {
+      if (stopTime[column] && !TIME_PATTERN.test(stopTime[column])) {
+        stopTimeIssues.push(`stop_times.txt: trip ${stopTime.trip_id} has invalid ${column} "${stopTime[column]}"`);
+      }
+    }
+    const list = stopTimesByTrip.get(stopTime.trip_id) ?? [];
+    list.push(stopTime);
+    stopTimesByTrip.set(stopTime.trip_id, list);
+  });
+
+  const sequenceIssues = limitedList(errors);
+  stopTimesByTrip.forEach((list, tripId) => {
+    const sorted = [...list].sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence));
+    if (sorted.length < 2) sequenceIssues.push(`stop_times.txt: trip ${tripId} has fewer than two stops`);
+
+    // First and last stop must be timed
+    for (const stopTime of [sorted[0], sorted[sorted.length - 1]]) {
+      if (!stopTime.arrival_time || !stopTime.departure_time) {
+        sequenceIssues.push(`stop_times.txt: trip ${tripId} must have times at its first and last stop`);
+      }
+    }
+
+    let previous = -Infinity;
+    let previousSequence = -Infinity;
+    for (const stopTime of sorted) {
+      const sequence = Number(stopTime.stop_sequence);
+      if (sequence === previousSequence) {
+        sequenceIssues.push(`stop_times.txt: trip ${tripId} repeats stop_sequence ${sequence}`);
+      }
+      previousSequence = sequence;
+
+      for (const column of ['arrival_time', 'departure_time']) {
+        if (!stopTime[column] || !TIME_PATTERN.test(stopTime[column])) continue;
+        const time = parseGtfsTime(stopTime[column]);
+        if (time < previous) {
+          sequenceIssues.push(`stop_times.txt: trip ${tripId} goes back in time at stop ${stopTime.stop_id}`);
+        }
+        previous = time;
+      }
+    }
+  });
+
+  tripIds.forEach(tripId => {
+    if (!stopTimesByTrip.has(tripId)) warnings.push(`trips.txt: trip ${tripId} has no stop times`);
+  });
+
+  // Shapes
+  const shapePoints = new Map<string, GtfsRecord[]>();
+  table('shapes.txt').forEach(point => {
+    const list = shapePoints.get(point.shape_id) ?? [];
+    list.push(point);
+    shapePoints.set(point.shape_id, list);
+  });
+  const shapeIssues = limitedList(errors);
+  shapePoints.forEach((points, shapeId) => {
+    const sorted = [...points].sort((a, b) => Number(a.shape_pt_sequence) - Number(b.shape_pt_sequence));
+    if (sorted.length < 2) shapeIssues.push(`shapes.txt: shape ${shapeId} has fewer than two points`);
+    let previous = -Infinity;
+    for (const point of sorted) {
+      if (!point.shape_dist_traveled) continue;
+      const distance = Number(point.shape_dist_traveled);
+      if (distance < previous) {
+        shapeIssues.push(`shapes.txt: shape ${shapeId} has decreasing shape_dist_traveled`);
+        break;
+      }
+      previous = distance;
+    }
+  });
+
+  // Frequencies
+  const frequencyIssues = limitedList(errors);
+  table('frequencies.txt').forEach(frequency => {
+    if (!tripIds.has(frequency.trip_id)) frequencyIssues.push(`frequencies.txt: unknown trip ${frequency.trip_id}`);
+    if (!TIME_PATTERN.test(frequency.start_time) || !TIME_PATTERN.test(frequency.end_time)) {
+      frequencyIssues.push(`frequencies.txt: trip ${frequency.trip_id} has invalid start_time or end_time`);
+    } else if (parseGtfsTime(frequency.start_time) >= parseGtfsTime(frequency.end_time)) {
+      frequencyIssues.push(`frequencies.txt: trip ${frequency.trip_id} ends before it starts`);
+    }
+    if (!(Number(frequency.headway_secs) > 0)) {
+      frequencyIssues.push(`frequencies.txt: trip ${frequency.trip_id} has invalid headway_secs`);
+    }
+  });
+
+  // Unused entities are allowed but usually a mistake
+  const usedStops = new Set(table('stop_times.txt').map(st => st.stop_id));
+  const parentStops = new Set(table('stops.txt').map(s => s.parent_station).filter(Boolean));
+  table('stops.txt').forEach(stop => {
+    if (!usedStops.has(stop.stop_id) && !parentStops.has(stop.stop_id)) {
+      warnings.push(`stops.txt: stop ${stop.stop_id} is not served by any trip`);
+    }
+  });
+
+  const usedRoutes = new Set(table('trips.txt').map(t => t.route_id));
+  table('routes.txt').forEach(route => {
+    if (!usedRoutes.has(route.route_id)) warnings.push(`routes.txt: route ${route.route_id} has no trips`);
+  });
+
+  if (!tables.has('feed_info.txt')) warnings.push('Missing recommended file feed_info.txt');
+
+  return { errors, warnings };
+}
+
+function checkUnique(records: GtfsRecord[], column: string, fileName: string, errors: string[]): void {
+  const seen = new Set<string>();
+  const issues = limitedList(errors);
+  for (const record of records) {
+    const value = record[column];
+    if (!value) continue;
+    if (seen.has(value)) issues.push(`${fileName}: duplicate ${column} ${value}`);
+    seen.add(value);
+  }
+}
+
+/**
+ * Wrap an issue list so one check adds at most MAX_ISSUES_PER_CHECK entries plus a summary line
+ */
+function limitedList(target: string[]): { push: (issue: string) => void } {
+  let count = 0;
+  return {
+    push(issue: string) {
+      count++;
+      if (count <= MAX_ISSUES_PER_CHECK) {
+        target.push(issue);
+      } else if (count === MAX_ISSUES_PER_CHECK + 1) {
+        target.push('... further issues of this kind omitted');
+      }
+    }
+  };
+}
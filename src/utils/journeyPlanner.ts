@@ -1,18 +1,47 @@
 import { stations } from '../data/stations';
 import { routes } from '../data/routes';
 import { interStationTimes } from '../data/interStationTimes';
-import type { Station, Route } from '../types';
+import type { Station, Route, MapPoint } from '../types';
 import type { TrainPosition } from './trainSimulation';
-import { calculateStationArrivals } from './timetableCalculations';
-import { 
-  calculateScheduledDeparture
-} from './scheduleCalculator';
+import { getTrainDisplayName } from './trainNaming';
+import type { TripConnection } from './timetableEngine';
+import { findItineraries, findLatestItineraries, type Itinerary } from './connectionScan';
+import { getServiceSchedules } from './scheduleCalculator';
+import {
+  findConnection,
+  planFirstMile,
+  planFirstMileBy,
+  planLastMile,
+  planLastMileBy,
+  type AccessLeg
+} from './transitConnections';
+import { findNearestStations, walkToStation, walkFromStation, type StationAccess, type WalkingLeg } from './walkingAccess';
+import { getChainageDistance } from './linearReferencing';
+
+export interface JourneyLeg {
+  route: Route;
+  direction: 'forward' | 'backward';
+  trainId: string;
+  displayName: string;
+  fromStation: Station;
+  toStation: Station;
+  departureTime: Date;
+  arrivalTime: Date;
+  stations: Station[];
+  delay: number; // seconds late at the end of the leg
+}
 
 export interface JourneyPlan {
   fromStation: Station;
   toStation: Station;
-  route: Route;
+  route: Route; // of the first train
   direction: 'forward' | 'backward';
+  legs: JourneyLeg[]; // one per train, empty when no trip was found
+  transfers: number;
+  firstMile: AccessLeg | null; // on a connecting line to the first train
+  lastMile: AccessLeg | null; // on a connecting line from the last train
+  accessWalk: WalkingLeg | null; // from a point on the map to the first station
+  egressWalk: WalkingLeg | null; // from the last station to a point on the map
   totalTime: number; // in seconds
   totalDistance: number; // in km
   stationCount: number;
@@ -21,17 +50,38 @@ export interface JourneyPlan {
     trainId: string;
     displayName: string;
     departureTime: Date;
-    arrivalTime: Date;
-    minutesToDeparture: number;
+    arrivalTime: Date; // at the destination, after any changes and the last mile or walk
+    minutesToDeparture: number; // until the journey starts, with any first mile or walk
     totalJourneyMinutes: number;
     isScheduled: boolean; // true if based on schedule, false if from live trains
     waitingMinutes?: number; // for scheduled departures
+    delay: number; // seconds late at the destination, already included in arrivalTime
   } | null;
 }
 
 export interface JourneyOptions {
   departureTime?: Date; // When user wants to leave (default: now)
   maxWaitTime?: number; // Maximum wait time in minutes (default: 30)
+  arrivalTime?: Date; // Arrive by this time instead: the latest departures that make it, none before departureTime
+  arrivalBuffer?: number; // Minutes to spare before arrivalTime (default: 5)
+  firstMile?: LineStop; // Start at a stop of a line connecting at the origin station
+  lastMile?: LineStop; // End at a stop of a line connecting at the destination station
+}
+
+export interface LineStop {
+  lineId: string;
+  stopName: string;
+}
+
+// Either end of a door-to-door journey: a station id or a point on the map
+export type JourneyEndpoint = string | MapPoint;
+
+interface PlannedItinerary {
+  itinerary: Itinerary;
+  firstMile: AccessLeg | null;
+  lastMile: AccessLeg | null;
+  accessWalk: WalkingLeg | null;
+  egressWalk: WalkingLeg | null;
 }
 
 /**
@@ -43,50 +93,260 @@ export function calculateJourney(
   trainPositions: TrainPosition[],
   options: JourneyOptions = {}
 ): JourneyPlan | null {
-  const { departureTime = new Date(), maxWaitTime = 30 } = options;
+  return calculateAllJourneys(fromStationId, toStationId, trainPositions, options)[0] ?? null;
+}
+
+/**
+ * Ranked journeys between two stations, changing between service patterns where that is faster
+ * The first is the best; the others leave later or change less often. When arriving by a time
+ * the first is the latest departure that makes it and the others leave earlier
+ */
+export function calculateAllJourneys(
+  fromStationId: string,
+  toStationId: string,
+  trainPositions: TrainPosition[],
+  options: JourneyOptions = {},
+  limit: number = 3
+): JourneyPlan[] {
+  const { departureTime = new Date(), arrivalTime, arrivalBuffer = 5 } = options;
+  // A planned arrival is not waiting for the service to start, however far off it is
+  const maxWaitTime = options.maxWaitTime ?? (arrivalTime ? Infinity : 30);
 
   const fromStation = stations.find(s => s.id === fromStationId);
   const toStation = stations.find(s => s.id === toStationId);
 
   if (!fromStation || !toStation || fromStation.id === toStation.id) {
-    return null;
+    return [];
+  }
+
+  const itineraries = planItineraries(
+    fromStationId,
+    toStationId,
+    departureTime,
+    arrivalTime && new Date(arrivalTime.getTime() - arrivalBuffer * 60 * 1000),
+    options,
+    limit
+  );
+  if (itineraries.length > 0) {
+    return itineraries.map(planned =>
+      buildJourneyPlan(fromStation, toStation, planned, trainPositions, departureTime, maxWaitTime)
+    );
+  }
+  // No train arriving in time is no journey, rather than one that would arrive late
+  if (arrivalTime || options.firstMile || options.lastMile) {
+    return [];
   }
 
-  // Find which route connects these stations
+  // Without a trip (e.g. a timetable gap) fall back to the route map for the journey details
   const routeInfo = findConnectingRoute(fromStationId, toStationId);
   if (!routeInfo) {
-    return null;
+    return [];
   }
 
   const { route, direction, fromIndex, toIndex } = routeInfo;
-
-  // Calculate journey details
   const journeyStations = getJourneyStations(route, direction, fromIndex, toIndex);
-  const totalTime = calculateJourneyTime(journeyStations);
-  const totalDistance = calculateJourneyDistance(journeyStations);
 
-  // Find next available train (live or scheduled)
-  const nextDeparture = findNextDeparture(
-    fromStationId,
-    toStationId,
-    route.id,
+  return [{
+    fromStation,
+    toStation,
+    route,
     direction,
-    trainPositions,
-    departureTime,
-    maxWaitTime,
-    totalTime
-  );
+    legs: [],
+    transfers: 0,
+    firstMile: null,
+    lastMile: null,
+    accessWalk: null,
+    egressWalk: null,
+    totalTime: calculateJourneyTime(journeyStations),
+    totalDistance: calculateJourneyDistance(journeyStations),
+    stationCount: journeyStations.length - 1, // Don't count origin
+    stations: journeyStations,
+    nextDeparture: null
+  }];
+}
+
+/**
+ * Ranked door-to-door journeys where either end may be a point on the map
+ * A point is walked to or from its nearest stations; every pair of stations is planned and the
+ * journeys are ranked on when they reach the destination point (or leave the origin point when
+ * arriving by a time)
+ */
+export function calculateDoorToDoorJourneys(
+  origin: JourneyEndpoint,
+  destination: JourneyEndpoint,
+  trainPositions: TrainPosition[],
+  options: JourneyOptions = {},
+  limit: number = 3
+): JourneyPlan[] {
+  if (typeof origin === 'string' && typeof destination === 'string') {
+    return calculateAllJourneys(origin, destination, trainPositions, options, limit);
+  }
+
+  const { departureTime = new Date(), arrivalTime, arrivalBuffer = 5 } = options;
+  const maxWaitTime = options.maxWaitTime ?? (arrivalTime ? Infinity : 30);
+  const arriveBy = arrivalTime && new Date(arrivalTime.getTime() - arrivalBuffer * 60 * 1000);
+
+  // Connecting lines start and end at a station, so they only apply to a station end
+  const stationOptions: JourneyOptions = {
+    ...options,
+    firstMile: typeof origin === 'string' ? options.firstMile : undefined,
+    lastMile: typeof destination === 'string' ? options.lastMile : undefined
+  };
+
+  const candidates: PlannedItinerary[] = [];
+  for (const from of getEndpointAccess(origin)) {
+    for (const to of getEndpointAccess(destination)) {
+      if (from.station.id === to.station.id) continue;
+
+      const itineraries = planItineraries(
+        from.station.id,
+        to.station.id,
+        new Date(departureTime.getTime() + from.walkTime * 1000),
+        arriveBy && new Date(arriveBy.getTime() - to.walkTime * 1000),
+        stationOptions,
+        limit
+      );
+      candidates.push(...itineraries.map(planned => ({
+        ...planned,
+        accessWalk: typeof origin === 'string' ? null : walkToStation(origin, from, getStart(planned)),
+        egressWalk: typeof destination === 'string' ? null : walkFromStation(destination, to, getEnd(planned))
+      })));
+    }
+  }
+
+  return dropDominated(candidates)
+    .sort((a, b) => arriveBy
+      ? getStart(b).getTime() - getStart(a).getTime() || a.itinerary.transfers - b.itinerary.transfers
+      : getEnd(a).getTime() - getEnd(b).getTime() || a.itinerary.transfers - b.itinerary.transfers)
+    .slice(0, limit)
+    .map(planned => {
+      const { legs } = planned.itinerary;
+      const fromStation = stations.find(s => s.id === legs[0].trip.stops[legs[0].fromIndex].stationId)!;
+      const lastLeg = legs[legs.length - 1];
+      const toStation = stations.find(s => s.id === lastLeg.trip.stops[lastLeg.toIndex].stationId)!;
+      return buildJourneyPlan(fromStation, toStation, planned, trainPositions, departureTime, maxWaitTime);
+    });
+}
+
+/**
+ * A station end needs no walk; a point on the map can walk to any of its nearest stations
+ */
+function getEndpointAccess(endpoint: JourneyEndpoint): StationAccess[] {
+  if (typeof endpoint !== 'string') return findNearestStations(endpoint.coordinates);
+
+  const station = stations.find(s => s.id === endpoint);
+  return station ? [{ station, distance: 0, walkTime: 0 }] : [];
+}
+
+/**
+ * Train itineraries with the first and last mile on connecting lines
+ * The train search starts after the earliest first mile (or ends before the latest last mile when
+ * arriving by a time); each itinerary then gets the latest first mile and earliest last mile that fit
+ */
+function planItineraries(
+  fromStationId: string,
+  toStationId: string,
+  departureTime: Date,
+  arriveBy: Date | undefined,
+  options: JourneyOptions,
+  limit: number
+): PlannedItinerary[] {
+  const firstMileLine = options.firstMile &&
+    findConnection(fromStationId, options.firstMile.lineId, options.firstMile.stopName);
+  const lastMileLine = options.lastMile &&
+    findConnection(toStationId, options.lastMile.lineId, options.lastMile.stopName);
+  if ((options.firstMile && !firstMileLine) || (options.lastMile && !lastMileLine)) return [];
+
+  let itineraries: Itinerary[];
+  if (arriveBy) {
+    const latestLastMile = lastMileLine && planLastMileBy(toStationId, lastMileLine, options.lastMile!.stopName, arriveBy);
+    if (lastMileLine && !latestLastMile) return [];
+    itineraries = findLatestItineraries(fromStationId, toStationId, latestLastMile?.departureTime ?? arriveBy, limit);
+  } else {
+    const earliestFirstMile = firstMileLine &&
+      planFirstMile(fromStationId, firstMileLine, options.firstMile!.stopName, departureTime);
+    if (firstMileLine && !earliestFirstMile) return [];
+    itineraries = findItineraries(fromStationId, toStationId, earliestFirstMile?.arrivalTime ?? departureTime, limit);
+  }
+
+  const planned = itineraries
+    .map(itinerary => ({
+      itinerary,
+      accessWalk: null,
+      egressWalk: null,
+      firstMile: firstMileLine
+        ? planFirstMileBy(fromStationId, firstMileLine, options.firstMile!.stopName, itinerary.departureTime)
+        : null,
+      lastMile: lastMileLine
+        ? planLastMile(toStationId, lastMileLine, options.lastMile!.stopName, itinerary.arrivalTime)
+        : null
+    }))
+    .filter(planned =>
+      (!firstMileLine || planned.firstMile) &&
+      (!lastMileLine || planned.lastMile) &&
+      getStart(planned) >= departureTime
+    );
+
+  return dropDominated(planned);
+}
+
+/**
+ * Drop journeys that leave earlier than another but get there no sooner with no fewer changes,
+ * e.g. trains that wait for the same connecting vehicle; only the one that leaves last is worth showing.
+ * Of journeys with the same times and changes (e.g. boarding the same train at neighbouring stations)
+ * the first is kept
+ */
+function dropDominated(planned: PlannedItinerary[]): PlannedItinerary[] {
+  return planned.filter((candidate, index) => !planned.some((other, otherIndex) => {
+    if (other === candidate || other.itinerary.transfers > candidate.itinerary.transfers) return false;
+    const start = getStart(other).getTime() - getStart(candidate).getTime();
+    const end = getEnd(other).getTime() - getEnd(candidate).getTime();
+    return end <= 0 && (start > 0 || (start === 0 && end === 0 &&
+      other.itinerary.transfers === candidate.itinerary.transfers && otherIndex < index));
+  }));
+}
+
+const getStart = (planned: PlannedItinerary): Date =>
+  planned.accessWalk?.departureTime ?? planned.firstMile?.departureTime ?? planned.itinerary.departureTime;
+
+const getEnd = (planned: PlannedItinerary): Date =>
+  planned.egressWalk?.arrivalTime ?? planned.lastMile?.arrivalTime ?? planned.itinerary.arrivalTime;
+
+/**
+ * Turn the trains of an itinerary into a journey plan
+ */
+function buildJourneyPlan(
+  fromStation: Station,
+  toStation: Station,
+  planned: PlannedItinerary,
+  trainPositions: TrainPosition[],
+  departureTime: Date,
+  maxWaitTime: number
+): JourneyPlan {
+  const { itinerary, firstMile, lastMile, accessWalk, egressWalk } = planned;
+  const legs = itinerary.legs.map(connection => describeLeg(connection, trainPositions));
+  const start = getStart(planned);
+  const end = getEnd(planned);
+
+  // Transfer stations appear once, as the end of one leg and not the start of the next
+  const journeyStations = legs.flatMap((leg, index) => index === 0 ? leg.stations : leg.stations.slice(1));
 
   return {
     fromStation,
     toStation,
-    route,
-    direction,
-    totalTime,
-    totalDistance,
+    route: legs[0].route,
+    direction: legs[0].direction,
+    legs,
+    transfers: itinerary.transfers,
+    firstMile,
+    lastMile,
+    accessWalk,
+    egressWalk,
+    totalTime: (end.getTime() - start.getTime()) / 1000,
+    totalDistance: calculateJourneyDistance(journeyStations),
     stationCount: journeyStations.length - 1, // Don't count origin
     stations: journeyStations,
-    nextDeparture
+    nextDeparture: describeDeparture(itinerary, legs[0], start, end, trainPositions, departureTime, maxWaitTime)
   };
 }
 
@@ -135,6 +395,16 @@ function getJourneyStations(
   return journeyStations;
 }
 
+/**
+ * Get the stations a scheduled trip calls at between origin and destination
+ */
+function getTripStations(connection: TripConnection): Station[] {
+  return connection.trip.stops
+    .slice(connection.fromIndex, connection.toIndex + 1)
+    .map(stop => stations.find(s => s.id === stop.stationId))
+    .filter((station): station is Station => station !== undefined);
+}
+
 /**
  * Calculate total journey time in seconds
  */
@@ -164,21 +434,42 @@ function calculateJourneyDistance(journeyStations: Station[]): number {
   const firstStation = journeyStations[0];
   const lastStation = journeyStations[journeyStations.length - 1];
   
-  return Math.abs(lastStation.distanceFromStart - firstStation.distanceFromStart);
+  return getChainageDistance(firstStation.id, lastStation.id) ?? 0;
 }
 
 /**
- * Find the next available train for this journey (live or scheduled)
+ * One train of a journey, using the live train's name when it is on the map
  */
-function findNextDeparture(
-  fromStationId: string,
-  toStationId: string,
-  routeId: string,
-  direction: 'forward' | 'backward',
+function describeLeg(connection: TripConnection, trainPositions: TrainPosition[]): JourneyLeg {
+  const { trip } = connection;
+  const liveTrain = trainPositions.find(position => position.trainId === trip.id);
+  const legStations = getTripStations(connection);
+
+  return {
+    route: routes.find(r => r.id === trip.routeId)!,
+    direction: trip.direction,
+    trainId: trip.id,
+    displayName: liveTrain?.displayName ?? getTrainDisplayName(trip.id, trip.routeId, trip.direction),
+    fromStation: legStations[0],
+    toStation: legStations[legStations.length - 1],
+    departureTime: connection.departureTime,
+    arrivalTime: connection.arrivalTime,
+    stations: legStations,
+    delay: trip.stops[connection.toIndex].delay ?? 0
+  };
+}
+
+/**
+ * Describe the departure of the first train, with the start and end of the whole journey
+ */
+function describeDeparture(
+  itinerary: Itinerary,
+  firstLeg: JourneyLeg,
+  start: Date,
+  end: Date,
   trainPositions: TrainPosition[],
   departureTime: Date,
-  maxWaitTime: number,
-  journeyTime: number
+  maxWaitTime: number
 ): {
   trainId: string;
   displayName: string;
@@ -188,74 +479,42 @@ function findNextDeparture(
   totalJourneyMinutes: number;
   isScheduled: boolean;
   waitingMinutes?: number;
-} | null {
-  // First try to find live trains
-  const arrivals = calculateStationArrivals(fromStationId, trainPositions, 10);
-  
-  // Filter for trains going in the right direction on the right route
-  const suitableTrains = arrivals.filter(arrival => 
-    arrival.routeId === routeId && 
-    arrival.direction === direction &&
-    arrival.minutesAway <= maxWaitTime
+  delay: number;
+} {
+  const lastLeg = itinerary.legs[itinerary.legs.length - 1];
+  const minutesToDeparture = Math.max(
+    0,
+    Math.ceil((start.getTime() - departureTime.getTime()) / (1000 * 60))
   );
-
-  if (suitableTrains.length > 0) {
-    // Found live trains - use the first one
-    const nextTrain = suitableTrains[0];
-    const arrivalTime = new Date(nextTrain.arrivalTime.getTime() + journeyTime * 1000);
-    
-    return {
-      trainId: nextTrain.trainId,
-      displayName: nextTrain.displayName,
-      departureTime: nextTrain.arrivalTime,
-      arrivalTime: arrivalTime,
-      minutesToDeparture: nextTrain.minutesAway,
-      totalJourneyMinutes: Math.ceil((journeyTime + nextTrain.minutesAway * 60) / 60),
-      isScheduled: false
-    };
-  }
-
-  // No live trains available - try to find scheduled departure
-  const scheduledDeparture = calculateScheduledDeparture(
-    fromStationId,
-    toStationId,
-    routeId,
-    direction,
-    journeyTime,
-    departureTime
+  const totalJourneyMinutes = Math.ceil(
+    (end.getTime() - departureTime.getTime()) / (1000 * 60)
   );
 
-  if (scheduledDeparture) {
-    return {
-      trainId: `scheduled-${scheduledDeparture.trainNumber}`,
-      displayName: scheduledDeparture.trainNumber,
-      departureTime: scheduledDeparture.departureTime,
-      arrivalTime: scheduledDeparture.estimatedArrival,
-      minutesToDeparture: scheduledDeparture.waitingMinutes,
-      totalJourneyMinutes: scheduledDeparture.totalJourneyMinutes,
-      isScheduled: true,
-      waitingMinutes: scheduledDeparture.waitingMinutes
-    };
-  }
+  // Beyond the wait limit the departure is a service start (e.g. the first train tomorrow)
+  const isLive = trainPositions.some(position => position.trainId === firstLeg.trainId);
+  const isScheduled = !isLive && minutesToDeparture > maxWaitTime;
 
-  return null;
+  return {
+    trainId: firstLeg.trainId,
+    displayName: firstLeg.displayName,
+    departureTime: itinerary.departureTime,
+    arrivalTime: end,
+    minutesToDeparture,
+    totalJourneyMinutes,
+    isScheduled,
+    waitingMinutes: isScheduled ? minutesToDeparture : undefined,
+    delay: lastLeg.trip.stops[lastLeg.toIndex].delay ?? 0
+  };
 }
 
 /**
- * Get all possible journeys between two stations (for routes with transfers)
- * Currently Marmaray is a single line, but this prepares for future expansions
+ * Name of a journey end: the station, or the point as typed in or as latitude, longitude
  */
-export function calculateAllJourneys(
-  fromStationId: string,
-  toStationId: string,
-  trainPositions: TrainPosition[],
-  options: JourneyOptions = {}
-): JourneyPlan[] {
-  const directJourney = calculateJourney(fromStationId, toStationId, trainPositions, options);
-  
-  // For now, return direct journey only since Marmaray is a single line
-  // In the future, this could calculate transfer options
-  return directJourney ? [directJourney] : [];
+export function getEndpointName(endpoint: JourneyEndpoint): string {
+  if (typeof endpoint === 'string') {
+    return stations.find(s => s.id === endpoint)?.name ?? endpoint;
+  }
+  return endpoint.label ?? `${endpoint.coordinates[1].toFixed(5)}, ${endpoint.coordinates[0].toFixed(5)}`;
 }
 
 /**
@@ -311,15 +570,8 @@ export function getJourneySummary(journey: JourneyPlan, t?: (key: string) => str
  * Check if journey is currently possible (within service hours)
  */
 export function isJourneyPossible(routeId: string, currentTime: Date = new Date()): boolean {
-  const hour = currentTime.getHours();
-  
-  if (routeId === 'marmaray-evening') {
-    // Evening service: 20:50 - 23:30
-    return hour >= 20 || hour < 24;
-  } else {
-    // Regular services: 6:00 AM - 22:30
-    return hour >= 6 && hour < 23;
-  }
+  // Service windows follow the service day, so late-night trains after midnight count
+  return getServiceSchedules(currentTime).some(schedule => schedule.routeId === routeId && schedule.isActive);
 }
 
 /**
@@ -338,6 +590,19 @@ export function formatJourneyTime(seconds: number, t?: (key: string) => string):
   return `${hours}${hourText} ${remainingMinutes}${minText}`;
 }
 
+/**
+ * The next time the clock shows HH:MM, tomorrow if it has passed today
+ */
+export function getNextClockTime(value: string, now: Date): Date | null {
+  const [hours, minutes] = value.split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return null;
+
+  const time = new Date(now);
+  time.setHours(hours, minutes, 0, 0);
+  if (time <= now) time.setDate(time.getDate() + 1);
+  return time;
+}
+
 /**
  * Get intermediate stops for a journey
  */
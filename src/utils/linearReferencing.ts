@@ -0,0 +1,336 @@
+/**
+ * Linear Referencing - Positions along the Marmaray line as chainage, in km from Halkalı
+ * Chainage is measured along the matched track of the main line, so a station's chainage is the
+ * track length from Halkalı to it. scripts/build-route-geometry.js measures the stations into
+ * station-chainages.json; converting between coordinates and chainage needs the precomputed
+ * route geometry, see loadLinearReferencing
+ */
+
+import { stations } from '../data/stations';
+import stationChainages from '../data/station-chainages.json';
+import { loadRouteGeometry, type RouteGeometry, type RouteGeometryLeg } from './routeGeometryArtifact';
+import type { Coordinate } from './positionEngine';
+
+export interface LinearPosition {
+  routeId: string;
+  chainage: number; // km from Halkalı
+  offset: number; // meters between the point and the track
+  coordinate: Coordinate; // the point snapped to the track
+}
+
+export interface ChainageRange {
+  routeId: string;
+  from: number; // km, the lower end
+  to: number; // km, the higher end
+  maxOffset: number; // meters, furthest any point is from the track
+}
+
+export interface LocateOptions {
+  routeId?: string;
+  // Only look between two adjacent stations of the route, e.g. where a train is running
+  between?: [string, string];
+}
+
+// Track of one route running through every station, with the chainage of each point
+interface ReferenceLine {
+  routeId: string;
+  lngs: number[];
+  lats: number[];
+  chainages: number[];
+  legs: Map<string, [number, number]>; // first and last point of each leg, by station pair
+}
+
+const METERS_PER_DEGREE = 111320;
+const CHAINAGE_DECIMALS = 3; // meters
+
+const stationsById = new Map(stations.map(station => [station.id, station]));
+
+let referenceLines: ReferenceLine[] | null = null;
+let loading: Promise<void> | null = null;
+
+const legKey = (fromStationId: string, toStationId: string) => `${fromStationId}>${toStationId}`;
+
+/**
+ * Chainage of a station in km, or null for a station the track was not measured for
+ */
+export function getStationChainage(stationId: string): number | null {
+  return (stationChainages as Record<string, number>)[stationId] ?? null;
+}
+
+/**
+ * A station's chainage in km for display, or "–" for a station without one
+ */
+export function formatStationChainage(stationId: string): string {
+  const chainage = getStationChainage(stationId);
+  return chainage === null ? '–' : chainage.toFixed(2);
+}
+
+/**
+ * Chainage a share of the way from one station to another, e.g. a train between them
+ * Null if either station has no chainage
+ */
+export function interpolateChainage(fromStationId: string, toStationId: string, fraction: number): number | null {
+  const from = getStationChainage(fromStationId);
+  const to = getStationChainage(toStationId);
+  if (from === null || to === null) return null;
+  return from + (to - from) * Math.max(0, Math.min(1, fraction));
+}
+
+/**
+ * Distance along the line between two stations in km, or null if either has no chainage
+ */
+export function getChainageDistance(fromStationId: string, toStationId: string): number | null {
+  const from = getStationChainage(fromStationId);
+  const to = getStationChainage(toStationId);
+  return from === null || to === null ? null : Math.abs(to - from);
+}
+
+/**
+ * Measure every station along the matched track, for station-chainages.json. The route with the
+ * most stations is the main line and runs from km 0; stations only other routes serve continue
+ * from a measured neighbour
+ */
+export function measureStationChainages(routes: RouteGeometry[]): Record<string, number> {
+  const chainages = new Map<string, number>();
+  const byLength = [...routes].sort((a, b) => b.stations.length - a.stations.length);
+
+  const mainLine = byLength[0];
+  if (mainLine) chainages.set(mainLine.stations[0], 0);
+
+  // Each pass measures the legs that start or end at a measured station
+  let measured = -1;
+  while (chainages.size > measured) {
+    measured = chainages.size;
+    for (const geometry of byLength) {
+      // Routes run the same way as the main line unless their measured stations say otherwise
+      const known = geometry.stations.filter(id => chainages.has(id));
+      const sign = known.length >= 2 && chainages.get(known[known.length - 1])! < chainages.get(known[0])! ? -1 : 1;
+
+      for (const leg of geometry.legs) {
+        const from = chainages.get(leg.fromStationId);
+        const to = chainages.get(leg.toStationId);
+        if ((from === undefined) === (to === undefined)) continue;
+
+        const length = traceLeg(geometry, leg)?.length ?? 0;
+        if (from !== undefined) chainages.set(leg.toStationId, from + sign * length);
+        else chainages.set(leg.fromStationId, to! - sign * length);
+      }
+    }
+  }
+
+  const factor = 10 ** CHAINAGE_DECIMALS;
+  return Object.fromEntries(
+    Array.from(chainages, ([stationId, chainage]) => [stationId, Math.round(chainage * factor) / factor])
+  );
+}
+
+/**
+ * Load the route geometry the coordinate conversions work on. Safe to call more than once
+ */
+export function loadLinearReferencing(): Promise<void> {
+  loading ??= loadRouteGeometry()
+    .then(({ routes }) => {
+      referenceLines = routes.map(buildReferenceLine);
+    })
+    .catch(error => {
+      loading = null;
+      throw error;
+    });
+  return loading;
+}
+
+export function isLinearReferencingReady(): boolean {
+  return referenceLines !== null;
+}
+
+/**
+ * Nearest point on the track to a coordinate, with its chainage
+ * Returns null until loadLinearReferencing has finished, or when no route matches the options
+ */
+export function locateCoordinate(coordinate: Coordinate, options: LocateOptions = {}): LinearPosition | null {
+  let best: LinearPosition | null = null;
+
+  for (const line of getLines(options.routeId)) {
+    let range: [number, number] | undefined = [0, line.lngs.length - 1];
+    if (options.between) {
+      range = line.legs.get(legKey(options.between[0], options.between[1]));
+      if (!range) continue;
+    }
+
+    const position = projectOntoLine(line, coordinate, range[0], range[1]);
+    if (position && (!best || position.offset < best.offset)) best = position;
+  }
+
+  return best;
+}
+
+/**
+ * Move a coordinate onto the nearest track
+ */
+export function snapToTrack(coordinate: Coordinate, options: LocateOptions = {}): Coordinate | null {
+  return locateCoordinate(coordinate, options)?.coordinate ?? null;
+}
+
+/**
+ * Point on the track at a chainage, on the given route or the first route that reaches it
+ */
+export function getCoordinateAtChainage(chainage: number, routeId?: string): Coordinate | null {
+  for (const line of getLines(routeId)) {
+    const { lngs, lats, chainages } = line;
+    for (let i = 1; i < chainages.length; i++) {
+      const low = Math.min(chainages[i - 1], chainages[i]);
+      const high = Math.max(chainages[i - 1], chainages[i]);
+      if (chainage < low || chainage > high) continue;
+
+      const fraction = high > low ? (chainage - chainages[i - 1]) / (chainages[i] - chainages[i - 1]) : 0;
+      return {
+        lng: lngs[i - 1] + (lngs[i] - lngs[i - 1]) * fraction,
+        lat: lats[i - 1] + (lats[i] - lats[i - 1]) * fraction
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stretch of the line a railway feature runs alongside, e.g. an excluded segment
+ */
+export function locateLine(coordinates: Coordinate[], options: LocateOptions = {}): ChainageRange | null {
+  if (coordinates.length === 0) return null;
+
+  // Keep every point on the route the first point is nearest to
+  const first = locateCoordinate(coordinates[0], options);
+  if (!first) return null;
+
+  const positions = coordinates.map(coordinate => locateCoordinate(coordinate, { ...options, routeId: first.routeId })!);
+  const chainages = positions.map(position => position.chainage);
+
+  return {
+    routeId: first.routeId,
+    from: Math.min(...chainages),
+    to: Math.max(...chainages),
+    maxOffset: Math.max(...positions.map(position => position.offset))
+  };
+}
+
+function getLines(routeId?: string): ReferenceLine[] {
+  if (!referenceLines) return [];
+  return routeId ? referenceLines.filter(line => line.routeId === routeId) : referenceLines;
+}
+
+/**
+ * Chain the legs of a route, each measured between the chainages of its stations
+ */
+function buildReferenceLine(geometry: RouteGeometry): ReferenceLine {
+  const line: ReferenceLine = { routeId: geometry.routeId, lngs: [], lats: [], chainages: [], legs: new Map() };
+
+  for (const leg of geometry.legs) {
+    const trace = traceLeg(geometry, leg);
+    const from = getStationChainage(leg.fromStationId);
+    const to = getStationChainage(leg.toStationId);
+    if (!trace || from === null || to === null) continue;
+
+    // Legs meet at their shared station
+    const start = line.lngs.length > 0 ? line.lngs.length - 1 : 0;
+    trace.points.forEach(([lng, lat], i) => {
+      if (i === 0 && line.lngs.length > 0) return;
+      const fraction = trace.length > 0 ? trace.distances[i] / trace.length : i / (trace.points.length - 1);
+      line.lngs.push(lng);
+      line.lats.push(lat);
+      line.chainages.push(from + (to - from) * fraction);
+    });
+
+    const range: [number, number] = [start, line.lngs.length - 1];
+    line.legs.set(legKey(leg.fromStationId, leg.toStationId), range);
+    line.legs.set(legKey(leg.toStationId, leg.fromStationId), range);
+  }
+
+  return line;
+}
+
+/**
+ * The matched track can stop short of a station or run past it, so a leg runs from station
+ * to station through the track points that keep moving towards the next station.
+ * Distances are in km from the first station
+ */
+function traceLeg(
+  geometry: RouteGeometry,
+  leg: RouteGeometryLeg
+): { points: [number, number][]; distances: number[]; length: number } | null {
+  const from = stationsById.get(leg.fromStationId);
+  const to = stationsById.get(leg.toStationId);
+  if (!from || !to) return null;
+
+  const points: [number, number][] = [from.coordinates];
+  let lastFraction = 0;
+  for (let i = leg.start; i <= leg.end; i++) {
+    const point: [number, number] = [geometry.lngs[i], geometry.lats[i]];
+    const fraction = getChordFraction(from.coordinates, to.coordinates, point);
+    // Points that double back or overshoot would make the line cross itself
+    if (fraction <= lastFraction || fraction >= 1) continue;
+    points.push(point);
+    lastFraction = fraction;
+  }
+  points.push(to.coordinates);
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + getDistance(points[i - 1], points[i]) / 1000);
+  }
+
+  return { points, distances, length: distances[distances.length - 1] };
+}
+
+/**
+ * How far a point has come from one station towards the next, as a share of the straight line
+ */
+function getChordFraction(from: [number, number], to: [number, number], [lng, lat]: [number, number]): number {
+  const scale = Math.cos(from[1] * Math.PI / 180);
+  const dx = (to[0] - from[0]) * scale;
+  const dy = to[1] - from[1];
+  const lengthSquared = dx * dx + dy * dy;
+  return lengthSquared > 0 ? ((lng - from[0]) * scale * dx + (lat - from[1]) * dy) / lengthSquared : 0;
+}
+
+/**
+ * Flat-earth distance in meters, accurate enough over the length of a leg
+ */
+function getDistance([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number {
+  const x = (lng2 - lng1) * Math.cos(((lat1 + lat2) / 2) * Math.PI / 180);
+  return Math.hypot(x, lat2 - lat1) * METERS_PER_DEGREE;
+}
+
+function projectOntoLine(line: ReferenceLine, coordinate: Coordinate, startIndex: number, endIndex: number): LinearPosition | null {
+  const { lngs, lats, chainages } = line;
+  const scale = Math.cos(coordinate.lat * Math.PI / 180);
+  let best: LinearPosition | null = null;
+
+  for (let i = startIndex + 1; i <= endIndex; i++) {
+    // Work in meters around the coordinate
+    const ax = (lngs[i - 1] - coordinate.lng) * scale * METERS_PER_DEGREE;
+    const ay = (lats[i - 1] - coordinate.lat) * METERS_PER_DEGREE;
+    const bx = (lngs[i] - coordinate.lng) * scale * METERS_PER_DEGREE;
+    const by = (lats[i] - coordinate.lat) * METERS_PER_DEGREE;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    const offset = Math.hypot(ax + dx * t, ay + dy * t);
+
+    if (!best || offset < best.offset) {
+      best = {
+        routeId: line.routeId,
+        chainage: chainages[i - 1] + (chainages[i] - chainages[i - 1]) * t,
+        offset,
+        coordinate: {
+          lng: lngs[i - 1] + (lngs[i] - lngs[i - 1]) * t,
+          lat: lats[i - 1] + (lats[i] - lats[i - 1]) * t
+        }
+      };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,98 @@
+/**
+ * Motion Profile - Accelerate, cruise and brake between two stops
+ * A profile always covers its distance in exactly its duration, so timetable running times are kept
+ */
+
+export interface MotionProfile {
+  distance: number; // meters
+  duration: number; // seconds
+  cruiseSpeed: number; // m/s, 0 for a constant-speed fallback
+  accelerationTime: number; // seconds
+  brakingTime: number; // seconds
+}
+
+export interface MotionState {
+  distance: number; // meters from the start of the profile
+  speed: number; // m/s
+}
+
+// Marmaray EMUs (Hyundai Rotem) in normal service
+export const TRAIN_ACCELERATION = 1.0; // m/s²
+export const TRAIN_DECELERATION = 0.9; // m/s², service braking
+
+/**
+ * Fit an accelerate/cruise/brake profile to a distance and running time
+ * Cruise speed is capped by the line speed; when the nominal rates cannot meet the running time
+ * the acceleration and braking phases are shortened, and as a last resort the train runs at
+ * constant speed
+ */
+export function createMotionProfile(distance: number, duration: number, maxSpeed: number = Infinity): MotionProfile {
+  const constant: MotionProfile = { distance, duration, cruiseSpeed: 0, accelerationTime: 0, brakingTime: 0 };
+  if (distance <= 0 || duration <= 0) return constant;
+
+  const averageSpeed = distance / duration;
+  // Time lost to accelerating and braking, per unit of cruise speed squared
+  const rampFactor = 1 / (2 * TRAIN_ACCELERATION) + 1 / (2 * TRAIN_DECELERATION);
+  const discriminant = duration * duration - 4 * rampFactor * distance;
+
+  // Slowest cruise speed that makes the time with the nominal rates, or a triangular profile if none does
+  let cruiseSpeed = discriminant >= 0
+    ? (duration - Math.sqrt(discriminant)) / (2 * rampFactor)
+    : 2 * averageSpeed;
+  cruiseSpeed = Math.min(cruiseSpeed, maxSpeed, 2 * averageSpeed);
+
+  // The line speed is below the speed needed to keep time
+  if (cruiseSpeed <= averageSpeed) return constant;
+
+  // Ramp times that cover exactly the distance at this cruise speed, split like the nominal rates
+  const rampTime = 2 * (cruiseSpeed * duration - distance) / cruiseSpeed;
+  const accelerationShare = (1 / TRAIN_ACCELERATION) / (1 / TRAIN_ACCELERATION + 1 / TRAIN_DECELERATION);
+
+  return {
+    distance,
+    duration,
+    cruiseSpeed,
+    accelerationTime: rampTime * accelerationShare,
+    brakingTime: rampTime * (1 - accelerationShare)
+  };
+}
+
+/**
+ * Distance covered and speed at a time into the profile
+ */
+export function getMotionState(profile: MotionProfile, elapsed: number): MotionState {
+  const { distance, duration, cruiseSpeed, accelerationTime, brakingTime } = profile;
+  const t = Math.max(0, Math.min(duration, elapsed));
+
+  if (duration <= 0) return { distance: elapsed > 0 ? distance : 0, speed: 0 };
+  if (cruiseSpeed === 0) return { distance: distance * t / duration, speed: distance / duration };
+
+  if (t < accelerationTime) {
+    return { distance: cruiseSpeed * t * t / (2 * accelerationTime), speed: cruiseSpeed * t / accelerationTime };
+  }
+
+  const brakingStart = duration - brakingTime;
+  if (t <= brakingStart) {
+    return { distance: cruiseSpeed * (accelerationTime / 2 + t - accelerationTime), speed: cruiseSpeed };
+  }
+
+  const remaining = duration - t;
+  return {
+    distance: distance - cruiseSpeed * remaining * remaining / (2 * brakingTime),
+    speed: cruiseSpeed * remaining / brakingTime
+  };
+}
+
+/**
+ * Fraction of the distance covered after a fraction of the running time, with the speed at that point
+ */
+export function getDistanceProgress(
+  profile: MotionProfile,
+  timeProgress: number
+): { progress: number; speed: number } {
+  const state = getMotionState(profile, timeProgress * profile.duration);
+  return {
+    progress: profile.distance > 0 ? state.distance / profile.distance : timeProgress,
+    speed: state.speed
+  };
+}
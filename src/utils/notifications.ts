@@ -0,0 +1,45 @@
+/**
+ * Notifications - Web notifications, through the service worker when it is running so they
+ * can carry actions (e.g. snooze) and still show when the tab is in the background
+ */
+
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+export interface AppNotification {
+  tag: string; // a newer notification with the same tag replaces the older one
+  title: string;
+  body: string;
+  actions?: { action: string; title: string }[];
+  data?: Record<string, unknown>;
+}
+
+export function getNotificationSupport(): NotificationSupport {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationSupport> {
+  if (!('Notification' in window)) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Show a notification if the user allowed them; returns whether it was shown
+ */
+export async function showNotification(notification: AppNotification): Promise<boolean> {
+  if (getNotificationSupport() !== 'granted') return false;
+
+  const { title, ...options } = notification;
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration()
+    : undefined;
+
+  if (registration) {
+    // Actions are only supported on service worker notifications. The app is served under a base path
+    const icon = new URL('train-icon.svg', registration.scope).href;
+    await registration.showNotification(title, { ...options, icon } as NotificationOptions);
+  } else {
+    new Notification(title, { tag: options.tag, body: options.body, data: options.data });
+  }
+  return true;
+}
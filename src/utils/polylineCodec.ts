@@ -0,0 +1,82 @@
+/**
+ * Polyline Codec - The encoded polyline algorithm used by mapping APIs, for compact
+ * coordinate lists and other number sequences in the generated geometry files
+ * Each value is stored as the difference from the previous one, in printable characters
+ */
+
+import type { Coordinate } from './positionEngine';
+
+/**
+ * Encode a sequence of numbers rounded to the given number of decimals
+ */
+export function encodeValues(values: ArrayLike<number>, precision: number, dimensions = 1): string {
+  const factor = 10 ** precision;
+  const previous = new Array<number>(dimensions).fill(0);
+  let encoded = '';
+
+  for (let i = 0; i < values.length; i++) {
+    const value = Math.round(values[i] * factor);
+    const dimension = i % dimensions;
+    let delta = value - previous[dimension];
+    previous[dimension] = value;
+
+    // Zigzag so negative deltas stay small, then 5 bits per character
+    delta = delta < 0 ? -delta * 2 - 1 : delta * 2;
+    while (delta >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (delta & 0x1f)) + 63);
+      delta = Math.floor(delta / 32);
+    }
+    encoded += String.fromCharCode(delta + 63);
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode numbers written by encodeValues, with the same precision and dimensions
+ */
+export function decodeValues(encoded: string, precision: number, dimensions = 1): Float64Array {
+  const factor = 10 ** precision;
+  const previous = new Array<number>(dimensions).fill(0);
+  const values: number[] = [];
+  let index = 0;
+
+  while (index < encoded.length) {
+    let result = 0;
+    let shift = 1;
+    let byte: number;
+    do {
+      if (index >= encoded.length) throw new Error('Invalid encoded polyline');
+      byte = encoded.charCodeAt(index++) - 63;
+      result += (byte & 0x1f) * shift;
+      shift *= 32;
+    } while (byte >= 0x20);
+
+    const delta = result % 2 === 1 ? -(result + 1) / 2 : result / 2;
+    const dimension = values.length % dimensions;
+    previous[dimension] += delta;
+    values.push(previous[dimension] / factor);
+  }
+
+  if (values.length % dimensions !== 0) {
+    throw new Error('Invalid encoded polyline');
+  }
+
+  return Float64Array.from(values);
+}
+
+/**
+ * Encode coordinates in the usual latitude, longitude order
+ */
+export function encodePolyline(coordinates: Coordinate[], precision = 6): string {
+  return encodeValues(coordinates.flatMap(({ lng, lat }) => [lat, lng]), precision, 2);
+}
+
+export function decodePolyline(encoded: string, precision = 6): Coordinate[] {
+  const values = decodeValues(encoded, precision, 2);
+  const coordinates: Coordinate[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    coordinates.push({ lat: values[i], lng: values[i + 1] });
+  }
+  return coordinates;
+}
@@ -0,0 +1,106 @@
+/**
+ * Position Engine - Places trains on the track from their route and progress
+ * The simple calculator matches track pieces to each pair of stations, the graph calculator
+ * routes over the railway network built from the geometry, and the precomputed calculator
+ * reads the simple calculator's result from a file generated at build time
+ */
+
+import type { Station, Route } from '../types';
+import type { Coordinate } from './railwayGraph';
+import { PrecomputedRouteCalculator } from './precomputedRouteCalculator';
+
+export type { Coordinate };
+
+export type PositionEngineType = 'precomputed' | 'simple' | 'graph';
+
+export interface SegmentPosition {
+  coordinate: Coordinate;
+  bearing: number; // degrees clockwise from north
+  speed: number; // m/s
+  distanceProgress: number; // 0-1 share of the distance between the two stations covered
+}
+
+export interface TrainPositionResult extends SegmentPosition {
+  progress: number; // 0-1 along the whole route, as a share of the running time
+  currentSegment: {
+    fromStationId: string;
+    toStationId: string;
+    fromStation: Station;
+    toStation: Station;
+  };
+}
+
+export interface RouteSummary {
+  routeId: string;
+  totalDistance: number; // meters
+  totalTravelTime: number; // seconds
+}
+
+// Railway features left out of the track, by OSM way id and by name
+export interface RailwayExclusions {
+  ids: number[];
+  names: string[];
+}
+
+export interface NetworkStats {
+  totalNodes: number;
+  totalEdges: number;
+  totalLength: number; // km
+  stationNodes: number;
+  junctionNodes: number;
+}
+
+export interface PositionEngine {
+  readonly type: PositionEngineType;
+
+  initialize(stations: Station[]): Promise<void>;
+  calculateRoutePattern(route: Route): RouteSummary | null;
+
+  /**
+   * Position along a whole route pattern, with progress 0-1 of its running time
+   */
+  calculateTrainPosition(
+    routeId: string,
+    direction: 'forward' | 'backward',
+    progress: number,
+    stations: Station[]
+  ): TrainPositionResult | null;
+
+  /**
+   * Position between two adjacent stations of a route, with progress 0-1 of the running time between them
+   * The running time defaults to the inter-station time; trips pass their scheduled time instead
+   */
+  calculateSegmentPosition(
+    routeId: string,
+    fromStationId: string,
+    toStationId: string,
+    progress: number,
+    duration?: number
+  ): SegmentPosition | null;
+
+  getNetworkStats(): NetworkStats;
+
+  // Replaces the excluded railway features, starting from excludedRailwaySegments; reinitialize applies them
+  setExclusions(exclusions: RailwayExclusions): void;
+  reinitialize(): Promise<void>;
+  getExclusions(): RailwayExclusions;
+}
+
+/**
+ * The simple and graph calculators process the raw track geometry, so they are only
+ * loaded when asked for
+ */
+export async function createPositionEngine(type: PositionEngineType): Promise<PositionEngine> {
+  switch (type) {
+    case 'simple': {
+      const { SimpleRouteCalculator } = await import('./simpleRouteCalculator');
+      return new SimpleRouteCalculator();
+    }
+    case 'graph': {
+      const { RouteCalculator } = await import('./routeCalculator');
+      return new RouteCalculator();
+    }
+    default:
+      return new PrecomputedRouteCalculator();
+  }
+}
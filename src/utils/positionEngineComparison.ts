@@ -0,0 +1,81 @@
+/**
+ * Position Engine Comparison - Samples two position engines along every segment of the
+ * route patterns and reports how far apart they place trains, to check changes to either engine
+ */
+
+import type { Route } from '../types';
+import type { PositionEngine, PositionEngineType } from './positionEngine';
+import { calculateDistance } from './railwayGraph';
+
+export interface SegmentComparison {
+  routeId: string;
+  fromStationId: string;
+  toStationId: string;
+  samples: number; // positions both engines returned
+  missing: PositionEngineType[]; // engines without a position for the segment
+  meanDistance: number; // meters
+  maxDistance: number; // meters
+  meanBearingDifference: number; // degrees, 0-180
+  maxBearingDifference: number; // degrees, 0-180
+}
+
+function bearingDifference(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+/**
+ * Compare the engines between each pair of adjacent stations, in both directions of travel.
+ * Both engines must be initialized with the route patterns calculated
+ */
+export function compareEngines(
+  engineA: PositionEngine,
+  engineB: PositionEngine,
+  routes: Route[],
+  samplesPerSegment = 20
+): SegmentComparison[] {
+  const comparisons: SegmentComparison[] = [];
+
+  for (const route of routes) {
+    for (let i = 0; i < route.stations.length - 1; i++) {
+      const pairs = [
+        [route.stations[i], route.stations[i + 1]],
+        [route.stations[i + 1], route.stations[i]]
+      ];
+
+      for (const [fromStationId, toStationId] of pairs) {
+        const distances: number[] = [];
+        const bearingDifferences: number[] = [];
+        const missing = new Set<PositionEngineType>();
+
+        // Sample the middle of each step, as the ends have no direction of travel ahead or behind
+        for (let sample = 0; sample < samplesPerSegment; sample++) {
+          const progress = (sample + 0.5) / samplesPerSegment;
+          const a = engineA.calculateSegmentPosition(route.id, fromStationId, toStationId, progress);
+          const b = engineB.calculateSegmentPosition(route.id, fromStationId, toStationId, progress);
+          if (!a) missing.add(engineA.type);
+          if (!b) missing.add(engineB.type);
+          if (!a || !b) continue;
+
+          distances.push(calculateDistance(a.coordinate, b.coordinate));
+          bearingDifferences.push(bearingDifference(a.bearing, b.bearing));
+        }
+
+        const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+        comparisons.push({
+          routeId: route.id,
+          fromStationId,
+          toStationId,
+          samples: distances.length,
+          missing: Array.from(missing),
+          meanDistance: mean(distances),
+          maxDistance: Math.max(0, ...distances),
+          meanBearingDifference: mean(bearingDifferences),
+          maxBearingDifference: Math.max(0, ...bearingDifferences)
+        });
+      }
+    }
+  }
+
+  return comparisons;
+}
@@ -0,0 +1,228 @@
+/**
+ * Precomputed Route Calculator - Places trains on the route geometry generated at build time
+ * from the simple route calculator's track matching, loaded when the engine initializes
+ */
+
+import type { Station, Route } from '../types';
+import { interStationTimes } from '../data/interStationTimes';
+import { excludedRailwayIds } from '../data/excludedRailwaySegments';
+import { createMotionProfile, getDistanceProgress } from './motionProfile';
+import { loadRouteGeometry, type RouteGeometry, type RouteGeometryLeg } from './routeGeometryArtifact';
+import type {
+  Coordinate,
+  NetworkStats,
+  PositionEngine,
+  RailwayExclusions,
+  RouteSummary,
+  SegmentPosition,
+  TrainPositionResult
+} from './positionEngine';
+
+export class PrecomputedRouteCalculator implements PositionEngine {
+  readonly type = 'precomputed' as const;
+  private geometry = new Map<string, RouteGeometry>();
+  private routeCache = new Map<string, RouteGeometry>();
+  private stations: Station[] = [];
+  private excludedFeatureIds = new Set<number>(excludedRailwayIds);
+  private excludedFeatureNames = new Set<string>();
+
+  async initialize(stations: Station[]): Promise<void> {
+    console.log('🚂 Initializing Precomputed Route Calculator...');
+    this.stations = stations;
+
+    const { excludedFeatures, routes } = await loadRouteGeometry();
+    excludedFeatures.forEach(name => this.excludedFeatureNames.add(name));
+    for (const geometry of routes) {
+      this.geometry.set(geometry.routeId, geometry);
+    }
+
+    console.log(`📍 Loaded precomputed geometry for ${this.geometry.size} routes`);
+  }
+
+  calculateRoutePattern(route: Route): RouteSummary | null {
+    const geometry = this.geometry.get(route.id);
+    if (!geometry || geometry.stations.join('>') !== route.stations.join('>')) {
+      console.warn(`Precomputed geometry for ${route.id} is missing or out of date, run npm run data:build-route-geometry`);
+      return null;
+    }
+
+    this.routeCache.set(route.id, geometry);
+
+    return {
+      routeId: route.id,
+      totalDistance: geometry.legs.reduce((sum, leg) => sum + this.getLegLength(geometry, leg), 0),
+      totalTravelTime: geometry.legs.reduce((sum, leg) => sum + this.getInterStationTime(leg.fromStationId, leg.toStationId), 0)
+    };
+  }
+
+  calculateTrainPosition(
+    routeId: string,
+    direction: 'forward' | 'backward',
+    progress: number,
+    stations: Station[]
+  ): TrainPositionResult | null {
+    const geometry = this.routeCache.get(routeId);
+    if (!geometry || geometry.legs.length === 0) {
+      console.warn(`No route info for ${routeId}`);
+      return null;
+    }
+
+    const reversed = direction === 'backward';
+    const legs = reversed ? [...geometry.legs].reverse() : geometry.legs;
+
+    // Progress is a share of the running time; each leg takes its inter-station time in this direction
+    const travelTimes = legs.map(leg => reversed
+      ? this.getInterStationTime(leg.toStationId, leg.fromStationId)
+      : this.getInterStationTime(leg.fromStationId, leg.toStationId));
+    const targetTime = travelTimes.reduce((sum, time) => sum + time, 0) * Math.max(0, Math.min(1, progress));
+
+    let currentTime = 0;
+    let legIndex = legs.length - 1;
+    let timeProgress = 1;
+    for (let i = 0; i < legs.length; i++) {
+      if (currentTime + travelTimes[i] >= targetTime) {
+        legIndex = i;
+        timeProgress = travelTimes[i] > 0 ? (targetTime - currentTime) / travelTimes[i] : 0;
+        break;
+      }
+      currentTime += travelTimes[i];
+    }
+
+    const leg = legs[legIndex];
+    const motion = this.applyMotionProfile(leg, timeProgress, travelTimes[legIndex]);
+    const fromStationId = reversed ? leg.toStationId : leg.fromStationId;
+    const toStationId = reversed ? leg.fromStationId : leg.toStationId;
+    const findStation = (id: string): Station =>
+      stations.find(s => s.id === id) ?? { id, name: id, coordinates: [0, 0], distanceFromStart: 0 };
+
+    return {
+      ...this.positionOnLeg(geometry, leg, motion.progress, reversed),
+      progress,
+      speed: motion.speed,
+      distanceProgress: motion.progress,
+      currentSegment: {
+        fromStationId,
+        toStationId,
+        fromStation: findStation(fromStationId),
+        toStation: findStation(toStationId)
+      }
+    };
+  }
+
+  calculateSegmentPosition(
+    routeId: string,
+    fromStationId: string,
+    toStationId: string,
+    progress: number,
+    duration?: number
+  ): SegmentPosition | null {
+    const geometry = this.routeCache.get(routeId);
+    const leg = geometry?.legs.find(candidate =>
+      (candidate.fromStationId === fromStationId && candidate.toStationId === toStationId) ||
+      (candidate.fromStationId === toStationId && candidate.toStationId === fromStationId)
+    );
+    if (!geometry || !leg) return null;
+
+    const motion = this.applyMotionProfile(leg, progress, duration ?? this.getInterStationTime(fromStationId, toStationId));
+    return {
+      ...this.positionOnLeg(geometry, leg, motion.progress, leg.fromStationId !== fromStationId),
+      speed: motion.speed,
+      distanceProgress: motion.progress
+    };
+  }
+
+  getNetworkStats(): NetworkStats {
+    const routes = Array.from(this.geometry.values());
+    return {
+      totalNodes: 0,
+      totalEdges: routes.reduce((sum, geometry) => sum + geometry.legs.length, 0),
+      totalLength: routes.reduce((sum, geometry) =>
+        sum + geometry.legs.reduce((legSum, leg) => legSum + this.getLegLength(geometry, leg), 0), 0) / 1000,
+      stationNodes: this.stations.length,
+      junctionNodes: 0
+    };
+  }
+
+  /**
+   * Exclusions are applied when the geometry is built, so these only take effect after
+   * changing excludedRailwaySegments.ts and rebuilding
+   */
+  setExclusions(exclusions: RailwayExclusions): void {
+    this.excludedFeatureIds = new Set(exclusions.ids);
+    this.excludedFeatureNames = new Set(exclusions.names);
+  }
+
+  async reinitialize(): Promise<void> {
+    console.warn('⚠️ Precomputed route geometry cannot change its excluded features - use the simple engine to try exclusions');
+  }
+
+  getExclusions(): RailwayExclusions {
+    return { ids: Array.from(this.excludedFeatureIds), names: Array.from(this.excludedFeatureNames) };
+  }
+
+  // Private helper methods
+
+  /**
+   * Same motion as the simple calculator: speeds come from the distance along the line,
+   * the track geometry only places the train
+   */
+  private applyMotionProfile(leg: RouteGeometryLeg, timeProgress: number, duration: number): { progress: number; speed: number } {
+    const profile = createMotionProfile(leg.lineDistance, duration, leg.maxSpeed);
+    return getDistanceProgress(profile, Math.max(0, Math.min(1, timeProgress)));
+  }
+
+  private positionOnLeg(
+    geometry: RouteGeometry,
+    leg: RouteGeometryLeg,
+    progress: number,
+    reversed: boolean
+  ): { coordinate: Coordinate; bearing: number } {
+    const coordinate = this.interpolateAlongLeg(geometry, leg, progress, reversed);
+    const lookAhead = this.interpolateAlongLeg(geometry, leg, Math.min(progress + 0.01, 1), reversed);
+
+    // Same flat bearing as the simple calculator, so switching engines doesn't turn the trains
+    const angle = Math.atan2(lookAhead.lng - coordinate.lng, lookAhead.lat - coordinate.lat);
+    return { coordinate, bearing: (angle * 180 / Math.PI + 360) % 360 };
+  }
+
+  private interpolateAlongLeg(geometry: RouteGeometry, leg: RouteGeometryLeg, progress: number, reversed: boolean): Coordinate {
+    const { lngs, lats, distances } = geometry;
+    const length = this.getLegLength(geometry, leg);
+    if (length === 0) return { lng: lngs[leg.start], lat: lats[leg.start] };
+
+    progress = Math.max(0, Math.min(1, progress));
+    const targetDistance = reversed
+      ? distances[leg.end] - length * progress
+      : distances[leg.start] + length * progress;
+
+    // First point at or beyond the target distance
+    let low = leg.start + 1;
+    let high = leg.end;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (distances[middle] >= targetDistance) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+
+    const span = distances[low] - distances[low - 1];
+    const pointProgress = span > 0 ? (targetDistance - distances[low - 1]) / span : 0;
+    return {
+      lng: lngs[low - 1] + (lngs[low] - lngs[low - 1]) * pointProgress,
+      lat: lats[low - 1] + (lats[low] - lats[low - 1]) * pointProgress
+    };
+  }
+
+  private getLegLength(geometry: RouteGeometry, leg: RouteGeometryLeg): number {
+    return geometry.distances[leg.end] - geometry.distances[leg.start];
+  }
+
+  private getInterStationTime(fromStationId: string, toStationId: string): number {
+    const timeData = interStationTimes.find(
+      t => t.fromStationId === fromStationId && t.toStationId === toStationId
+    );
+    return timeData ? timeData.time : 120; // Default 2 minutes if not found
+  }
+}
@@ -35,6 +35,8 @@ export interface RailwayEdge {
     maxSpeed?: number;
     usage?: string; // 'main', 'branch', 'industrial'
     direction?: 'forward' | 'backward' | 'both';
+    featureId?: number; // OSM way the edge was built from, none for connectors
+    name?: string;
   };
   travelTime: number; // Estimated travel time in seconds
 }
@@ -56,6 +58,24 @@ export interface RoutePath {
   endNodeId: string;
 }
 
+/**
+ * Haversine distance in meters between two coordinates
+ */
+export function calculateDistance(coord1: Coordinate, coord2: Coordinate): number {
+  const R = 6371000; // Earth's radius in meters
+  const φ1 = (coord1.lat * Math.PI) / 180;
+  const φ2 = (coord2.lat * Math.PI) / 180;
+  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
+  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
 export class RailwayGraph {
   private nodes = new Map<string, RailwayNode>();
   private edges = new Map<string, RailwayEdge>();
@@ -188,18 +208,7 @@ export class RailwayGraph {
    * Calculate Haversine distance between two coordinates
    */
   calculateDistance(coord1: Coordinate, coord2: Coordinate): number {
-    const R = 6371000; // Earth's radius in meters
-    const φ1 = (coord1.lat * Math.PI) / 180;
-    const φ2 = (coord2.lat * Math.PI) / 180;
-    const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-    const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+    return calculateDistance(coord1, coord2);
   }
 
   /**
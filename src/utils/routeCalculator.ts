@@ -8,6 +8,10 @@ import { PathfindingEngine, type PathfindingOptions } from './pathfinder';
 import { TrackProcessor } from './trackProcessor';
 import type { Station, Route } from '../types';
 import marmarayTrackGeometry from '../data/marmaray-track-geometry.json';
+import { interStationTimes } from '../data/interStationTimes';
+import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
+import { createMotionProfile, getDistanceProgress } from './motionProfile';
+import type { NetworkStats, PositionEngine, RailwayExclusions, SegmentPosition, TrainPositionResult } from './positionEngine';
 
 export interface RouteInfo {
   routeId: string;
@@ -15,25 +19,31 @@ export interface RouteInfo {
   totalDistance: number;
   totalTravelTime: number;
   segments: PathSegment[];
+  legs?: StationLeg[]; // route patterns only, in forward order
 }
 
-export interface TrainPositionResult {
-  coordinate: Coordinate;
-  bearing: number;
-  progress: number; // 0-1 along entire route
-  currentSegment: {
-    fromStationId: string;
-    toStationId: string;
-    fromStation: Station;
-    toStation: Station;
-  };
+// The track between two consecutive stations of a route pattern
+export interface StationLeg {
+  fromStationId: string;
+  toStationId: string;
+  distance: number; // meters
+  travelTime: number; // seconds in forward direction, from the inter-station times
+  maxSpeed: number; // m/s, length-weighted line speed of the edges
+  segments: PathSegment[]; // in forward order; empty where the geometry has a gap and the leg is a straight line
 }
 
-export class RouteCalculator {
+// Line speed for legs without track, same default as the track processor
+const DEFAULT_MAX_SPEED_KMH = 80;
+
+export class RouteCalculator implements PositionEngine {
+  readonly type = 'graph' as const;
   private graph: RailwayGraph;
   private pathfinder: PathfindingEngine;
   private trackProcessor: TrackProcessor;
   private routeCache = new Map<string, RouteInfo>();
+  private stations: Station[] = [];
+  private excludedFeatureIds = new Set<number>(excludedRailwayIds);
+  private excludedFeatureNames = new Set<string>(excludedRailwayNames);
   private isInitialized = false;
 
   constructor() {
@@ -50,11 +60,17 @@ export class RouteCalculator {
 
     console.log('🚂 Initializing Route Calculator...');
     const startTime = Date.now();
+    this.stations = stations;
 
     try {
-      // Process track geometry data
-      console.log(`📍 Processing ${(marmarayTrackGeometry as any).features.length} track features...`);
-      await this.trackProcessor.processTrackData(marmarayTrackGeometry as any, stations);
+      // Process track geometry data, leaving out the same features as the simple calculator
+      const geoData = marmarayTrackGeometry as any;
+      const features = geoData.features.filter((feature: any) =>
+        !(feature.properties.name && this.excludedFeatureNames.has(feature.properties.name)) &&
+        !(feature.properties.id && this.excludedFeatureIds.has(feature.properties.id))
+      );
+      console.log(`📍 Processing ${features.length} track features...`);
+      await this.trackProcessor.processTrackData({ ...geoData, features }, stations);
 
       // Pre-calculate routes for known route patterns
       await this.preCalculateRoutes(stations);
@@ -140,6 +156,7 @@ export class RouteCalculator {
     console.log(`🛤️ Calculating route pattern for ${route.id}`);
 
     const allSegments: PathSegment[] = [];
+    const legs: StationLeg[] = [];
     let totalDistance = 0;
     let totalTravelTime = 0;
 
@@ -148,15 +165,27 @@ export class RouteCalculator {
       const fromStationId = route.stations[i];
       const toStationId = route.stations[i + 1];
 
+      // Gaps in the track geometry leave a straight line between the stations
       const segmentRoute = this.calculateStationRoute(fromStationId, toStationId);
       if (!segmentRoute) {
-        console.warn(`Failed to calculate segment ${fromStationId} -> ${toStationId} for route ${route.id}`);
-        return null;
+        console.warn(`No track for segment ${fromStationId} -> ${toStationId} of route ${route.id}, using a straight line`);
       }
-
-      allSegments.push(...segmentRoute.segments);
-      totalDistance += segmentRoute.totalDistance;
-      totalTravelTime += segmentRoute.totalTravelTime;
+      const distance = segmentRoute ? segmentRoute.totalDistance : this.calculateStationDistance(fromStationId, toStationId);
+
+      // Trains run to the timetable, not at line speed
+      const travelTime = this.getInterStationTime(fromStationId, toStationId);
+      legs.push({
+        fromStationId,
+        toStationId,
+        distance,
+        travelTime,
+        maxSpeed: segmentRoute ? this.calculateLineSpeed(segmentRoute.segments) : DEFAULT_MAX_SPEED_KMH / 3.6,
+        segments: segmentRoute?.segments ?? []
+      });
+
+      allSegments.push(...(segmentRoute?.segments ?? []));
+      totalDistance += distance;
+      totalTravelTime += travelTime;
     }
 
     const routeInfo: RouteInfo = {
@@ -164,7 +193,8 @@ export class RouteCalculator {
       stations: route.stations,
       totalDistance,
       totalTravelTime,
-      segments: allSegments
+      segments: allSegments,
+      legs
     };
 
     this.routeCache.set(cacheKey, routeInfo);
@@ -188,7 +218,19 @@ export class RouteCalculator {
       return null;
     }
 
-    // Get ordered segments based on direction
+    // Route patterns run station to station with a motion profile
+    if (routeInfo.legs) {
+      const { leg, progress: legProgress, speed } = this.locateOnLegs(routeInfo.legs, direction, progress);
+      return {
+        ...this.positionOnLeg(leg, legProgress, direction === 'backward'),
+        progress,
+        speed,
+        distanceProgress: legProgress,
+        currentSegment: this.getLegSegmentInfo(leg, direction, stations)
+      };
+    }
+
+    // Other routes move at constant speed
     const segments = direction === 'forward' ? 
       routeInfo.segments : 
       [...routeInfo.segments].reverse();
@@ -224,6 +266,8 @@ export class RouteCalculator {
           coordinate,
           bearing,
           progress,
+          speed: 0,
+          distanceProgress: progress, // station-to-station routes have a single leg
           currentSegment
         };
       }
@@ -241,10 +285,41 @@ export class RouteCalculator {
       coordinate,
       bearing,
       progress: 1.0,
+      speed: 0,
+      distanceProgress: 1.0,
       currentSegment
     };
   }
 
+  /**
+   * Calculate train position between two adjacent stations of a route pattern
+   */
+  calculateSegmentPosition(
+    routeId: string,
+    fromStationId: string,
+    toStationId: string,
+    progress: number, // 0-1 of the running time between the stations
+    duration?: number // seconds, defaults to the inter-station time
+  ): SegmentPosition | null {
+    const leg = this.routeCache.get(`pattern-${routeId}`)?.legs?.find(candidate =>
+      (candidate.fromStationId === fromStationId && candidate.toStationId === toStationId) ||
+      (candidate.fromStationId === toStationId && candidate.toStationId === fromStationId)
+    );
+    if (!leg) return null;
+
+    const travelTime = duration ?? this.getInterStationTime(fromStationId, toStationId);
+    const motion = getDistanceProgress(
+      createMotionProfile(leg.distance, travelTime, leg.maxSpeed),
+      Math.max(0, Math.min(1, progress))
+    );
+
+    return {
+      ...this.positionOnLeg(leg, motion.progress, leg.fromStationId !== fromStationId),
+      speed: motion.speed,
+      distanceProgress: motion.progress
+    };
+  }
+
   /**
    * Get bearing along a route path
    */
@@ -306,10 +381,34 @@ export class RouteCalculator {
   /**
    * Get network statistics
    */
-  getNetworkStats() {
+  getNetworkStats(): NetworkStats {
     return this.graph.getNetworkStats();
   }
 
+  /**
+   * Leave railway features out of the track; takes effect on reinitialize
+   */
+  setExclusions(exclusions: RailwayExclusions): void {
+    this.excludedFeatureIds = new Set(exclusions.ids);
+    this.excludedFeatureNames = new Set(exclusions.names);
+  }
+
+  getExclusions(): RailwayExclusions {
+    return { ids: Array.from(this.excludedFeatureIds), names: Array.from(this.excludedFeatureNames) };
+  }
+
+  /**
+   * Build the railway network again, e.g. after changing the excluded features
+   */
+  async reinitialize(): Promise<void> {
+    this.graph = new RailwayGraph();
+    this.pathfinder = new PathfindingEngine(this.graph);
+    this.trackProcessor = new TrackProcessor(this.graph);
+    this.routeCache.clear();
+    this.isInitialized = false;
+    await this.initialize(this.stations);
+  }
+
   // Private helper methods
 
   private async preCalculateRoutes(_stations: Station[]): Promise<void> {
@@ -317,6 +416,135 @@ export class RouteCalculator {
     console.log('📋 Pre-calculating common routes...');
   }
 
+  /**
+   * Turn a share of the running time into a leg and the share of its distance covered
+   */
+  private locateOnLegs(
+    legs: StationLeg[],
+    direction: 'forward' | 'backward',
+    progress: number
+  ): { leg: StationLeg; progress: number; speed: number } {
+    const orderedLegs = direction === 'forward' ? legs : [...legs].reverse();
+    // Running times differ per direction
+    const travelTimes = orderedLegs.map(leg => direction === 'forward'
+      ? leg.travelTime
+      : this.getInterStationTime(leg.toStationId, leg.fromStationId));
+    const totalTime = travelTimes.reduce((sum, time) => sum + time, 0);
+    const targetTime = totalTime * Math.max(0, Math.min(1, progress));
+
+    let currentTime = 0;
+
+    for (let i = 0; i < orderedLegs.length; i++) {
+      const leg = orderedLegs[i];
+      const travelTime = travelTimes[i];
+
+      if (currentTime + travelTime >= targetTime) {
+        const timeProgress = travelTime > 0 ? (targetTime - currentTime) / travelTime : 0;
+        const motion = getDistanceProgress(
+          createMotionProfile(leg.distance, travelTime, leg.maxSpeed),
+          timeProgress
+        );
+        return { leg, progress: motion.progress, speed: motion.speed };
+      }
+
+      currentTime += travelTime;
+    }
+
+    return { leg: orderedLegs[orderedLegs.length - 1], progress: 1, speed: 0 };
+  }
+
+  /**
+   * Coordinate and bearing at a share of a leg's distance, travelling from its end when reversed
+   */
+  private positionOnLeg(leg: StationLeg, progress: number, reversed: boolean): { coordinate: Coordinate; bearing: number } {
+    const coordinate = this.interpolateAlongLeg(leg, progress, reversed);
+    // At the end of the leg there is nothing ahead, so look back instead
+    if (progress >= 0.99) {
+      const behind = this.interpolateAlongLeg(leg, progress - 0.01, reversed);
+      return { coordinate, bearing: this.graph.calculateBearing(behind, coordinate) };
+    }
+    const lookAhead = this.interpolateAlongLeg(leg, progress + 0.01, reversed);
+    return { coordinate, bearing: this.graph.calculateBearing(coordinate, lookAhead) };
+  }
+
+  private interpolateAlongLeg(leg: StationLeg, progress: number, reversed: boolean): Coordinate {
+    // Legs over a gap in the geometry are a straight line
+    if (leg.segments.length === 0) {
+      const from = this.getStationCoordinate(reversed ? leg.toStationId : leg.fromStationId);
+      const to = this.getStationCoordinate(reversed ? leg.fromStationId : leg.toStationId);
+      return {
+        lng: from.lng + (to.lng - from.lng) * progress,
+        lat: from.lat + (to.lat - from.lat) * progress
+      };
+    }
+
+    const segments = reversed ? [...leg.segments].reverse() : leg.segments;
+    const targetDistance = leg.distance * progress;
+    let currentDistance = 0;
+
+    for (const segment of segments) {
+      if (currentDistance + segment.distance >= targetDistance) {
+        const segmentProgress = segment.distance > 0 ? (targetDistance - currentDistance) / segment.distance : 0;
+        return this.graph.interpolateAlongEdge(segment.edgeId, segmentProgress, this.getTravelDirection(segment, reversed));
+      }
+      currentDistance += segment.distance;
+    }
+
+    const lastSegment = segments[segments.length - 1];
+    return this.graph.interpolateAlongEdge(lastSegment.edgeId, 1.0, this.getTravelDirection(lastSegment, reversed));
+  }
+
+  private getTravelDirection(segment: PathSegment, reversed: boolean): 'forward' | 'backward' {
+    if (!reversed) return segment.direction;
+    return segment.direction === 'forward' ? 'backward' : 'forward';
+  }
+
+  private getStationCoordinate(stationId: string): Coordinate {
+    const station = this.stations.find(s => s.id === stationId);
+    return station
+      ? { lng: station.coordinates[0], lat: station.coordinates[1] }
+      : { lng: 29.0, lat: 41.0 };
+  }
+
+  private calculateStationDistance(fromStationId: string, toStationId: string): number {
+    return this.graph.calculateDistance(this.getStationCoordinate(fromStationId), this.getStationCoordinate(toStationId));
+  }
+
+  private calculateLineSpeed(segments: PathSegment[]): number {
+    let weightedSpeed = 0;
+    let totalDistance = 0;
+
+    for (const segment of segments) {
+      const maxSpeed = this.graph.getEdge(segment.edgeId)?.properties.maxSpeed;
+      if (!maxSpeed) continue;
+      weightedSpeed += maxSpeed * segment.distance;
+      totalDistance += segment.distance;
+    }
+
+    const maxSpeedKmh = totalDistance > 0 ? weightedSpeed / totalDistance : 80;
+    return maxSpeedKmh / 3.6;
+  }
+
+  private getInterStationTime(fromStationId: string, toStationId: string): number {
+    const timeData = interStationTimes.find(
+      t => t.fromStationId === fromStationId && t.toStationId === toStationId
+    );
+    return timeData ? timeData.time : 120; // Default 2 minutes if not found
+  }
+
+  private getLegSegmentInfo(leg: StationLeg, direction: 'forward' | 'backward', stations: Station[]) {
+    const fromStationId = direction === 'forward' ? leg.fromStationId : leg.toStationId;
+    const toStationId = direction === 'forward' ? leg.toStationId : leg.fromStationId;
+    const fallback = (id: string): Station => ({ id, name: id, coordinates: [0, 0], distanceFromStart: 0 });
+
+    return {
+      fromStationId,
+      toStationId,
+      fromStation: stations.find(s => s.id === fromStationId) ?? fallback(fromStationId),
+      toStation: stations.find(s => s.id === toStationId) ?? fallback(toStationId)
+    };
+  }
+
   private findStationNode(stationId: string) {
     const allNodes = this.graph.getAllNodes();
     return allNodes.find(node => node.stationId === stationId);
@@ -0,0 +1,155 @@
+/**
+ * Route Geometry Artifact - Compact track geometry for each route, generated at build time by
+ * scripts/build-route-geometry.js so the app doesn't match the raw track data on every load
+ */
+
+import type { Coordinate } from './positionEngine';
+import { decodeValues, encodePolyline, encodeValues } from './polylineCodec';
+import { calculateDistance } from './railwayGraph';
+
+// Bump when the file layout changes, so an old file fails loudly instead of misplacing trains
+export const ROUTE_GEOMETRY_VERSION = 1;
+
+const COORDINATE_PRECISION = 6; // about 0.1 m
+const DISTANCE_PRECISION = 1; // decimeters
+
+export interface RouteGeometryLeg {
+  fromStationId: string;
+  toStationId: string;
+  start: number; // index of the leg's first track point
+  end: number; // index of the leg's last track point
+  lineDistance: number; // meters between the stations along the line, used for speeds
+  maxSpeed: number; // m/s
+}
+
+export interface EncodedRouteGeometry {
+  routeId: string;
+  stations: string[];
+  polyline: string; // track points of all legs in order, precision 6
+  distances: string; // cumulative meters at each track point, precision 1
+  stationOffsets: number[]; // meters along the polyline at each station, aligned with stations
+  legs: RouteGeometryLeg[];
+}
+
+export interface RouteGeometryFile {
+  version: number;
+  excludedFeatures: string[]; // railway features left out when the track was matched
+  routes: EncodedRouteGeometry[];
+}
+
+export interface RouteGeometry {
+  routeId: string;
+  stations: string[];
+  lngs: Float64Array;
+  lats: Float64Array;
+  distances: Float64Array;
+  stationOffsets: number[];
+  legs: RouteGeometryLeg[];
+}
+
+export interface LoadedRouteGeometry {
+  excludedFeatures: string[];
+  routes: RouteGeometry[];
+}
+
+// Track matched between two adjacent stations, as the route calculators produce it
+export interface TrackLeg {
+  fromStationId: string;
+  toStationId: string;
+  trackPath: Coordinate[];
+  lineDistance: number;
+  maxSpeed: number;
+}
+
+let loadedGeometry: Promise<LoadedRouteGeometry> | null = null;
+
+const round = (value: number, precision: number) => Math.round(value * 10 ** precision) / 10 ** precision;
+
+/**
+ * Encode the legs of a route. Distances are measured on the rounded points, so they match
+ * the geometry the app decodes. Consecutive legs can be separate track pieces; the gap
+ * between them counts towards the distances but belongs to neither leg
+ */
+export function encodeRouteGeometry(routeId: string, stations: string[], trackLegs: TrackLeg[]): EncodedRouteGeometry {
+  const points: Coordinate[] = [];
+  const distances: number[] = [];
+  const legs: RouteGeometryLeg[] = [];
+
+  for (const trackLeg of trackLegs) {
+    const start = points.length;
+    for (const { lng, lat } of trackLeg.trackPath) {
+      const point = { lng: round(lng, COORDINATE_PRECISION), lat: round(lat, COORDINATE_PRECISION) };
+      const previous = points[points.length - 1];
+      distances.push(previous ? distances[distances.length - 1] + calculateDistance(previous, point) : 0);
+      points.push(point);
+    }
+
+    legs.push({
+      fromStationId: trackLeg.fromStationId,
+      toStationId: trackLeg.toStationId,
+      start,
+      end: points.length - 1,
+      lineDistance: round(trackLeg.lineDistance, 1),
+      maxSpeed: round(trackLeg.maxSpeed, 3)
+    });
+  }
+
+  // Stations sit where their leg starts, and the last one where the last leg ends
+  const stationOffsets = legs.map(leg => distances[leg.start]);
+  if (legs.length > 0) stationOffsets.push(distances[legs[legs.length - 1].end]);
+
+  return {
+    routeId,
+    stations,
+    polyline: encodePolyline(points, COORDINATE_PRECISION),
+    distances: encodeValues(distances, DISTANCE_PRECISION),
+    stationOffsets: stationOffsets.map(offset => round(offset, DISTANCE_PRECISION)),
+    legs
+  };
+}
+
+export function decodeRouteGeometry(encoded: EncodedRouteGeometry): RouteGeometry {
+  // Polylines alternate latitude and longitude
+  const values = decodeValues(encoded.polyline, COORDINATE_PRECISION, 2);
+  const lats = new Float64Array(values.length / 2);
+  const lngs = new Float64Array(values.length / 2);
+  for (let i = 0; i < lats.length; i++) {
+    lats[i] = values[i * 2];
+    lngs[i] = values[i * 2 + 1];
+  }
+
+  const distances = decodeValues(encoded.distances, DISTANCE_PRECISION);
+  if (distances.length !== lats.length) {
+    throw new Error(`Route geometry for ${encoded.routeId} has ${lats.length} points but ${distances.length} distances`);
+  }
+
+  return {
+    routeId: encoded.routeId,
+    stations: encoded.stations,
+    lngs,
+    lats,
+    distances,
+    stationOffsets: encoded.stationOffsets,
+    legs: encoded.legs
+  };
+}
+
+/**
+ * Load and decode the generated file once for the whole app. It is kept out of the main
+ * bundle and written by npm run data:build-route-geometry
+ */
+export function loadRouteGeometry(): Promise<LoadedRouteGeometry> {
+  loadedGeometry ??= import('../data/route-geometry.json')
+    .then(module => {
+      const file = module.default as RouteGeometryFile;
+      if (file.version !== ROUTE_GEOMETRY_VERSION) {
+        throw new Error(`Route geometry version ${file.version} is not supported, run npm run data:build-route-geometry`);
+      }
+      return { excludedFeatures: file.excludedFeatures, routes: file.routes.map(decodeRouteGeometry) };
+    })
+    .catch(error => {
+      loadedGeometry = null;
+      throw error;
+    });
+  return loadedGeometry;
+}
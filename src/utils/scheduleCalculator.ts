@@ -1,5 +1,12 @@
 import { routes } from '../data/routes';
 import type { Route } from '../types';
+import { getServiceDay, getServiceDayLabel } from './serviceCalendar';
+import {
+  getScheduledTrips,
+  getServiceDate,
+  getTripsForServiceDate,
+  tripTimeToDate
+} from './timetableEngine';
 
 export interface ServiceSchedule {
   routeId: string;
@@ -11,14 +18,34 @@ export interface ServiceSchedule {
   nextServiceStart?: Date; // If service is not currently active
 }
 
-export interface ScheduledDeparture {
-  routeId: string;
-  departureTime: Date;
-  direction: 'forward' | 'backward';
-  trainNumber: string;
-  estimatedArrival: Date;
-  totalJourneyMinutes: number;
-  waitingMinutes: number;
+export interface ServiceWindow {
+  startMinutes: number; // first departure, minutes after midnight of the service day
+  endMinutes: number; // last departure from the origin, may pass 24:00
+  lastArrivalMinutes: number; // last train reaches its terminus, may pass 24:00
+}
+
+// How far ahead to look for the next day with service
+const MAX_DAYS_WITHOUT_SERVICE = 14;
+
+/**
+ * Get the service window of a route on a service day, from the first departure to the last arrival
+ * Without a date the weekday service is used. Returns null if the route does not run
+ */
+export function getRouteServiceWindow(routeId: string, serviceDate?: Date): ServiceWindow | null {
+  const trips = (serviceDate
+    ? getTripsForServiceDate(serviceDate)
+    : getScheduledTrips().filter(trip => trip.serviceId === 'weekday')
+  ).filter(trip => trip.routeId === routeId);
+
+  if (trips.length === 0) return null;
+
+  const departures = trips.map(trip => trip.stops[0].departureTime);
+  const arrivals = trips.map(trip => trip.stops[trip.stops.length - 1].arrivalTime);
+  return {
+    startMinutes: Math.min(...departures) / 60,
+    endMinutes: Math.max(...departures) / 60,
+    lastArrivalMinutes: Math.max(...arrivals) / 60
+  };
 }
 
 /**
@@ -45,37 +72,24 @@ function getRouteSchedule(route: Route, currentTime: Date): {
   isActive: boolean;
   nextServiceStart?: Date;
 } {
-  const today = new Date(currentTime);
-  today.setSeconds(0, 0); // Reset to start of minute
-  
-  let serviceStart: Date;
-  let serviceEnd: Date;
-  
-  if (route.id === 'marmaray-evening') {
-    // Evening service: 20:50 - 23:30
-    serviceStart = new Date(today);
-    serviceStart.setHours(20, 50, 0, 0);
-    serviceEnd = new Date(today);
-    serviceEnd.setHours(23, 30, 0, 0);
-  } else {
-    // Regular services: 6:00 AM - 22:30
-    serviceStart = new Date(today);
-    serviceStart.setHours(6, 0, 0, 0);
-    serviceEnd = new Date(today);
-    serviceEnd.setHours(22, 30, 0, 0);
-  }
+  // Before 04:00 we are still in yesterday's service day
+  const serviceDate = getServiceDate(currentTime);
+
+  // The service calendar decides which trips run today; service lasts until the last train arrives
+  const window = getRouteServiceWindow(route.id, serviceDate);
+  const serviceStart = window ? tripTimeToDate(serviceDate, window.startMinutes * 60) : serviceDate;
+  const serviceEnd = window ? tripTimeToDate(serviceDate, window.lastArrivalMinutes * 60) : serviceDate;
   
-  const isActive = currentTime >= serviceStart && currentTime <= serviceEnd;
+  const isActive = window !== null && currentTime >= serviceStart && currentTime <= serviceEnd;
   let nextServiceStart: Date | undefined;
   
   if (!isActive) {
-    if (currentTime < serviceStart) {
+    if (window && currentTime < serviceStart) {
       // Before service starts today
       nextServiceStart = serviceStart;
     } else {
-      // After service ends, next service is tomorrow
-      nextServiceStart = new Date(serviceStart);
-      nextServiceStart.setDate(nextServiceStart.getDate() + 1);
+      // After service ends (or no service today), find the next day the route runs
+      nextServiceStart = findNextServiceStart(route.id, serviceDate);
     }
   }
   
@@ -89,148 +103,20 @@ function getRouteSchedule(route: Route, currentTime: Date): {
 }
 
 /**
- * Calculate next scheduled departure for a journey
+ * First departure of a route on the following service days
  */
-export function calculateScheduledDeparture(
-  fromStationId: string,
-  _toStationId: string,
-  routeId: string,
-  direction: 'forward' | 'backward',
-  journeyTime: number, // in seconds
-  currentTime: Date = new Date()
-): ScheduledDeparture | null {
-  const route = routes.find(r => r.id === routeId);
-  if (!route) return null;
+function findNextServiceStart(routeId: string, serviceDate: Date): Date | undefined {
+  for (let dayOffset = 1; dayOffset <= MAX_DAYS_WITHOUT_SERVICE; dayOffset++) {
+    const nextDate = new Date(serviceDate);
+    nextDate.setDate(nextDate.getDate() + dayOffset);
 
-  const schedule = getRouteSchedule(route, currentTime);
-  
-  let nextDeparture: Date;
-  let waitingMinutes: number;
-  
-  if (schedule.isActive) {
-    // Service is running, find next departure based on frequency
-    nextDeparture = calculateNextFrequencyDeparture(
-      fromStationId,
-      route,
-      direction,
-      schedule.serviceStart,
-      schedule.frequency,
-      currentTime
-    );
-    waitingMinutes = Math.max(0, Math.ceil((nextDeparture.getTime() - currentTime.getTime()) / (1000 * 60)));
-  } else if (schedule.nextServiceStart) {
-    // Service not running, use next service start
-    nextDeparture = calculateServiceStartDeparture(
-      fromStationId,
-      route,
-      direction,
-      schedule.nextServiceStart
-    );
-    waitingMinutes = Math.ceil((nextDeparture.getTime() - currentTime.getTime()) / (1000 * 60));
-  } else {
-    return null;
-  }
-  
-  const estimatedArrival = new Date(nextDeparture.getTime() + journeyTime * 1000);
-  const totalJourneyMinutes = Math.ceil((estimatedArrival.getTime() - currentTime.getTime()) / (1000 * 60));
-  
-  return {
-    routeId,
-    departureTime: nextDeparture,
-    direction,
-    trainNumber: generateScheduledTrainNumber(routeId, nextDeparture),
-    estimatedArrival,
-    totalJourneyMinutes,
-    waitingMinutes
-  };
-}
-
-/**
- * Calculate next departure based on service frequency
- */
-function calculateNextFrequencyDeparture(
-  fromStationId: string,
-  route: Route,
-  direction: 'forward' | 'backward',
-  serviceStart: Date,
-  frequency: number,
-  currentTime: Date
-): Date {
-  // Calculate travel time from route start to the departure station
-  const stationOffset = calculateStationOffset(fromStationId, route, direction);
-  
-  // Find the next scheduled departure
-  const minutesSinceStart = Math.floor((currentTime.getTime() - serviceStart.getTime()) / (1000 * 60));
-  const nextSlot = Math.ceil(minutesSinceStart / frequency) * frequency;
-  
-  const nextDeparture = new Date(serviceStart);
-  nextDeparture.setMinutes(nextDeparture.getMinutes() + nextSlot + stationOffset);
-  
-  // If this departure is in the past, get the next one
-  if (nextDeparture <= currentTime) {
-    nextDeparture.setMinutes(nextDeparture.getMinutes() + frequency);
+    const window = getRouteServiceWindow(routeId, nextDate);
+    if (window) {
+      return tripTimeToDate(nextDate, window.startMinutes * 60);
+    }
   }
-  
-  return nextDeparture;
-}
 
-/**
- * Calculate departure time when service starts
- */
-function calculateServiceStartDeparture(
-  fromStationId: string,
-  route: Route,
-  direction: 'forward' | 'backward',
-  serviceStart: Date
-): Date {
-  const stationOffset = calculateStationOffset(fromStationId, route, direction);
-  
-  const departure = new Date(serviceStart);
-  departure.setMinutes(departure.getMinutes() + stationOffset);
-  
-  return departure;
-}
-
-/**
- * Calculate time offset for a station from route start
- */
-function calculateStationOffset(
-  stationId: string,
-  route: Route,
-  direction: 'forward' | 'backward'
-): number {
-  const stationIndex = route.stations.indexOf(stationId);
-  if (stationIndex === -1) return 0;
-  
-  // For backward direction, trains start from the end
-  const startIndex = direction === 'forward' ? 0 : route.stations.length - 1;
-  
-  if (stationIndex === startIndex) return 0;
-  
-  // Estimate 2 minutes per station as average inter-station time
-  const stationsFromStart = direction === 'forward' 
-    ? stationIndex 
-    : route.stations.length - 1 - stationIndex;
-  
-  return stationsFromStart * 2; // 2 minutes per station
-}
-
-/**
- * Generate a train number for scheduled departures
- */
-function generateScheduledTrainNumber(routeId: string, departureTime: Date): string {
-  const hour = departureTime.getHours();
-  const minute = departureTime.getMinutes();
-  
-  let prefix: string;
-  switch (routeId) {
-    case 'marmaray-full': prefix = 'M'; break;
-    case 'marmaray-short': prefix = 'S'; break;
-    case 'marmaray-evening': prefix = 'E'; break;
-    default: prefix = 'T';
-  }
-  
-  return `${prefix}${hour.toString().padStart(2, '0')}${Math.floor(minute / 10)}0`;
+  return undefined;
 }
 
 /**
@@ -304,18 +190,22 @@ export function getServiceStatus(currentTime: Date = new Date(), t?: (key: strin
   const isActive = isAnyServiceActive(currentTime);
   
   if (isActive) {
-    return t ? t('serviceIsCurrentlyRunning') : 'Service is currently running';
+    const runningText = t ? t('serviceIsCurrentlyRunning') : 'Service is currently running';
+    return `${runningText} • ${getServiceDayLabel(getServiceDay(getServiceDate(currentTime)), t)}`;
   }
   
   const nextService = getTimeUntilNextService(currentTime);
   if (nextService) {
+    // Describe the timetable of the day the next service belongs to
+    const dayLabel = getServiceDayLabel(getServiceDay(getServiceDate(nextService.nextStart)), t);
+
     if (nextService.hoursUntil === 0) {
       const serviceStartsText = t ? t('serviceStartsIn') : 'Service starts in';
       const minutesText = t ? t('minutes') : 'minutes';
-      return `${serviceStartsText} ${nextService.minutesUntil} ${minutesText}`;
+      return `${serviceStartsText} ${nextService.minutesUntil} ${minutesText} • ${dayLabel}`;
     } else {
       const serviceStartsText = t ? t('serviceStartsIn') : 'Service starts in';
-      return `${serviceStartsText} ${formatWaitingTime(nextService.hoursUntil * 60 + nextService.minutesUntil, t)}`;
+      return `${serviceStartsText} ${formatWaitingTime(nextService.hoursUntil * 60 + nextService.minutesUntil, t)} • ${dayLabel}`;
     }
   }
   
@@ -0,0 +1,136 @@
+/**
+ * Service Calendar - Decides which timetable runs on a given service day
+ * Combines the weekly pattern with public holidays, bayrams, special nights and one-off overrides
+ */
+
+import type { CalendarException, DayServiceId, DayType } from '../types';
+import {
+  publicHolidays,
+  religiousHolidays,
+  specialServiceNights,
+  serviceDateOverrides
+} from '../data/serviceCalendar';
+
+export type ServiceId = DayServiceId | 'late-night';
+
+export interface ServiceDay {
+  date: Date; // midnight of the service day
+  dayType: DayType;
+  lateNight: boolean; // late-night service runs after the last trains of the day service
+  noService: boolean;
+  name?: string; // holiday or override name
+  services: ServiceId[];
+}
+
+// Each day type runs its own day service; holidays run the Sunday one
+const DAY_TYPE_SERVICES: Record<DayType, DayServiceId> = {
+  weekday: 'weekday',
+  saturday: 'saturday',
+  sunday: 'sunday',
+  holiday: 'sunday'
+};
+
+// Weekend late-night service runs on Friday and Saturday nights
+const LATE_NIGHT_WEEKDAYS = [5, 6];
+
+/**
+ * Resolve the timetable for a service day
+ */
+export function getServiceDay(date: Date): ServiceDay {
+  const serviceDate = new Date(date);
+  serviceDate.setHours(0, 0, 0, 0);
+
+  const weekday = serviceDate.getDay();
+  let dayType: DayType = weekday === 0 ? 'sunday' : weekday === 6 ? 'saturday' : 'weekday';
+  let lateNight = LATE_NIGHT_WEEKDAYS.includes(weekday);
+  let noService = false;
+  let name: string | undefined;
+
+  // Later rules win: yearly holidays, dated holidays, special nights, then one-off overrides
+  for (const exception of getExceptionsForDate(serviceDate)) {
+    if (exception.dayType) dayType = exception.dayType;
+    if (exception.lateNight !== undefined) lateNight = exception.lateNight;
+    if (exception.noService !== undefined) noService = exception.noService;
+    name = exception.name;
+  }
+
+  const services: ServiceId[] = noService
+    ? []
+    : [DAY_TYPE_SERVICES[dayType], ...(lateNight ? ['late-night' as const] : [])];
+
+  return { date: serviceDate, dayType, lateNight, noService, name, services };
+}
+
+/**
+ * The first service day on or after a date that matches, looking up to maxDays ahead
+ */
+export function findServiceDay(
+  from: Date,
+  matches: (serviceDay: ServiceDay) => boolean,
+  maxDays = 28
+): ServiceDay | undefined {
+  for (let dayOffset = 0; dayOffset < maxDays; dayOffset++) {
+    const date = new Date(from);
+    date.setDate(date.getDate() + dayOffset);
+
+    const serviceDay = getServiceDay(date);
+    if (matches(serviceDay)) return serviceDay;
+  }
+  return undefined;
+}
+
+/**
+ * Calendar exceptions that apply to a date, in rule order
+ */
+export function getExceptionsForDate(date: Date): CalendarException[] {
+  const dateKey = formatDateKey(date);
+  const monthDay = dateKey.slice(5);
+
+  return [...publicHolidays, ...religiousHolidays, ...specialServiceNights, ...serviceDateOverrides].filter(
+    exception => exception.date === dateKey || exception.date === monthDay
+  );
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function formatDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Describe the timetable of a service day for status displays
+ */
+export function getServiceDayLabel(serviceDay: ServiceDay, t?: (key: string) => string): string {
+  if (serviceDay.noService) {
+    const closedText = t ? t('noServiceToday') : 'No service today';
+    return serviceDay.name ? `${closedText} (${serviceDay.name})` : closedText;
+  }
+
+  let label: string;
+  switch (serviceDay.dayType) {
+    case 'holiday':
+      label = t ? t('holidayTimetable') : 'Holiday timetable';
+      break;
+    case 'saturday':
+      label = t ? t('saturdayTimetable') : 'Saturday timetable';
+      break;
+    case 'sunday':
+      label = t ? t('sundayTimetable') : 'Sunday timetable';
+      break;
+    default:
+      label = t ? t('weekdayTimetable') : 'Weekday timetable';
+  }
+
+  if (serviceDay.name) {
+    label = `${label} (${serviceDay.name})`;
+  }
+
+  if (serviceDay.lateNight) {
+    label = `${label} • ${t ? t('lateNightService') : 'Late-night service'}`;
+  }
+
+  return label;
+}
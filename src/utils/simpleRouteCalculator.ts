@@ -6,16 +6,22 @@ import type { Station, Route } from '../types';
 import marmarayTrackGeometry from '../data/marmaray-track-geometry.json';
 import { interStationTimes } from '../data/interStationTimes';
 import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
-
-interface Coordinate {
-  lng: number;
-  lat: number;
-}
+import { createMotionProfile, getDistanceProgress } from './motionProfile';
+import { getChainageDistance } from './linearReferencing';
+import type {
+  Coordinate,
+  NetworkStats,
+  PositionEngine,
+  RailwayExclusions,
+  SegmentPosition,
+  TrainPositionResult
+} from './positionEngine';
 
 interface TrackSegment {
   id: string;
   coordinates: Coordinate[];
   length: number;
+  maxSpeed: number; // m/s
 }
 
 interface RouteSegment {
@@ -23,9 +29,14 @@ interface RouteSegment {
   toStationId: string;
   trackPath: Coordinate[];
   distance: number;
+  lineDistance: number; // meters between the stations along the line, used for speeds
   travelTime: number;
+  maxSpeed: number; // m/s
 }
 
+// Line speed for track without a maxspeed tag, same default as the track processor
+const DEFAULT_MAX_SPEED_KMH = 80;
+
 interface RouteInfo {
   routeId: string;
   segments: RouteSegment[];
@@ -33,32 +44,19 @@ interface RouteInfo {
   totalTravelTime: number;
 }
 
-export interface TrainPositionResult {
-  coordinate: Coordinate;
-  bearing: number;
-  progress: number;
-  currentSegment: {
-    fromStationId: string;
-    toStationId: string;
-    fromStation: Station;
-    toStation: Station;
-  };
-}
-
-export class SimpleRouteCalculator {
+export class SimpleRouteCalculator implements PositionEngine {
+  readonly type = 'simple' as const;
   private trackSegments: TrackSegment[] = [];
   private routeCache = new Map<string, RouteInfo>();
   private stations: Station[] = [];
-  private excludedFeatureNames = new Set<string>();
-
+  private excludedFeatureIds = new Set<number>(excludedRailwayIds);
+  private excludedFeatureNames = new Set<string>(excludedRailwayNames);
 
   async initialize(stations: Station[]): Promise<void> {
     console.log('🚂 Initializing Simple Route Calculator...');
     this.stations = stations;
     
-    // Add default excluded features by name
-    excludedRailwayNames.forEach(name => this.excludedFeatureNames.add(name));
-    console.log(`🚫 Auto-excluding ${excludedRailwayNames.length} non-Marmaray features by name`);
+    console.log(`🚫 Excluding ${this.excludedFeatureIds.size} railway features by ID and ${this.excludedFeatureNames.size} by name`);
     
     // Process track geometry into segments
     this.processTrackGeometry();
@@ -78,7 +76,7 @@ export class SimpleRouteCalculator {
       }
       
       // Skip excluded features by ID
-      if (feature.properties.id && excludedRailwayIds.includes(feature.properties.id)) {
+      if (feature.properties.id && this.excludedFeatureIds.has(feature.properties.id)) {
         console.log(`⏭️ Skipping excluded railway feature ID: ${feature.properties.id}`);
         continue;
       }
@@ -90,10 +88,12 @@ export class SimpleRouteCalculator {
         }));
         
         if (coordinates.length >= 2) {
+          const maxSpeedKmh = parseInt(String(feature.properties.maxspeed ?? '').replace(/\D/g, '')) || DEFAULT_MAX_SPEED_KMH;
           const segment: TrackSegment = {
             id: `track_${feature.properties.id || Math.random()}`,
             coordinates,
-            length: this.calculatePathLength(coordinates)
+            length: this.calculatePathLength(coordinates),
+            maxSpeed: maxSpeedKmh / 3.6
           };
           
           this.trackSegments.push(segment);
@@ -123,16 +123,23 @@ export class SimpleRouteCalculator {
       }
 
       // Find track path between these stations
-      const trackPath = this.findTrackPath(fromStation, toStation);
+      const { trackPath, maxSpeed } = this.findTrackPath(fromStation, toStation);
       const distance = this.calculatePathLength(trackPath);
       const travelTime = this.getInterStationTime(fromStationId, toStationId);
 
+      // The matched track pieces can be shorter or longer than the real line, so speeds
+      // come from the station chainage and the drawn path only places the train
+      const chainageDistance = getChainageDistance(fromStationId, toStationId);
+      const lineDistance = chainageDistance ? chainageDistance * 1000 : distance;
+
       segments.push({
         fromStationId,
         toStationId,
         trackPath,
         distance,
-        travelTime
+        lineDistance,
+        travelTime,
+        maxSpeed
       });
 
       totalDistance += distance;
@@ -152,13 +159,14 @@ export class SimpleRouteCalculator {
     return routeInfo;
   }
 
-  private findTrackPath(fromStation: Station, toStation: Station): Coordinate[] {
+  private findTrackPath(fromStation: Station, toStation: Station): { trackPath: Coordinate[]; maxSpeed: number } {
     const fromCoord: Coordinate = { lng: fromStation.coordinates[0], lat: fromStation.coordinates[1] };
     const toCoord: Coordinate = { lng: toStation.coordinates[0], lat: toStation.coordinates[1] };
 
     // Simple approach: find track segments that are roughly in the right direction
     // and close to both stations
     let bestPath: Coordinate[] = [];
+    let bestMaxSpeed = DEFAULT_MAX_SPEED_KMH / 3.6;
     let bestScore = -1;
 
     for (const segment of this.trackSegments) {
@@ -176,21 +184,36 @@ export class SimpleRouteCalculator {
       if (score1 > bestScore) {
         bestScore = score1;
         bestPath = segment.coordinates;
+        bestMaxSpeed = segment.maxSpeed;
       }
       
       if (score2 > bestScore) {
         bestScore = score2;
         bestPath = [...segment.coordinates].reverse();
+        bestMaxSpeed = segment.maxSpeed;
       }
     }
 
     // If no good track found, use straight line
     if (bestPath.length === 0 || bestScore < 0.00001) {
       console.log(`📏 Using straight line for ${fromStation.name} -> ${toStation.name}`);
-      return [fromCoord, toCoord];
+      return { trackPath: [fromCoord, toCoord], maxSpeed: DEFAULT_MAX_SPEED_KMH / 3.6 };
     }
 
-    return bestPath;
+    return { trackPath: bestPath, maxSpeed: bestMaxSpeed };
+  }
+
+  /**
+   * Progress is a share of the running time between the two stops. The train accelerates, cruises
+   * and brakes along the track, and covers the segment in exactly that time
+   */
+  private applyMotionProfile(
+    segment: RouteSegment,
+    timeProgress: number,
+    duration: number = segment.travelTime
+  ): { progress: number; speed: number } {
+    const profile = createMotionProfile(segment.lineDistance, duration, segment.maxSpeed);
+    return getDistanceProgress(profile, Math.max(0, Math.min(1, timeProgress)));
   }
 
   calculateTrainPosition(
@@ -214,24 +237,28 @@ export class SimpleRouteCalculator {
         fromStationId: segment.toStationId,
         toStationId: segment.fromStationId,
         // Reverse the track path coordinates
-        trackPath: [...segment.trackPath].reverse()
+        trackPath: [...segment.trackPath].reverse(),
+        // Running times differ per direction
+        travelTime: this.getInterStationTime(segment.toStationId, segment.fromStationId)
       }));
     } else {
       segments = routeInfo.segments;
     }
 
-    const targetDistance = routeInfo.totalDistance * progress;
+    // Progress is a share of the running time; each segment takes its inter-station time
+    const targetTime = segments.reduce((sum, segment) => sum + segment.travelTime, 0) * progress;
     
-    let currentDistance = 0;
+    let currentTime = 0;
     
     // Find which segment contains the target position
     for (let i = 0; i < segments.length; i++) {
       const segment = segments[i];
       
-      if (currentDistance + segment.distance >= targetDistance) {
+      if (currentTime + segment.travelTime >= targetTime) {
         // Calculate progress within this segment
-        const segmentProgress = segment.distance > 0 ? 
-          (targetDistance - currentDistance) / segment.distance : 0;
+        const timeProgress = segment.travelTime > 0 ?
+          (targetTime - currentTime) / segment.travelTime : 0;
+        const { progress: segmentProgress, speed } = this.applyMotionProfile(segment, timeProgress);
         
         // Interpolate along track path
         const coordinate = this.interpolateAlongPath(segment.trackPath, segmentProgress);
@@ -247,6 +274,8 @@ export class SimpleRouteCalculator {
           coordinate,
           bearing,
           progress,
+          speed,
+          distanceProgress: segmentProgress,
           currentSegment: {
             fromStationId: segment.fromStationId,
             toStationId: segment.toStationId,
@@ -256,7 +285,7 @@ export class SimpleRouteCalculator {
         };
       }
 
-      currentDistance += segment.distance;
+      currentTime += segment.travelTime;
     }
 
     // Fallback to end position
@@ -265,6 +294,8 @@ export class SimpleRouteCalculator {
       coordinate: lastSegment.trackPath[lastSegment.trackPath.length - 1],
       bearing: 0,
       progress: 1,
+      speed: 0,
+      distanceProgress: 1,
       currentSegment: {
         fromStationId: lastSegment.fromStationId,
         toStationId: lastSegment.toStationId,
@@ -274,6 +305,38 @@ export class SimpleRouteCalculator {
     };
   }
 
+  /**
+   * Position between two adjacent stations of a route, with progress 0-1 of the running time between them
+   * The running time defaults to the inter-station time; trips pass their scheduled time instead
+   */
+  calculateSegmentPosition(
+    routeId: string,
+    fromStationId: string,
+    toStationId: string,
+    progress: number,
+    duration?: number
+  ): SegmentPosition | null {
+    const routeInfo = this.routeCache.get(routeId);
+    if (!routeInfo) return null;
+
+    const segment = routeInfo.segments.find(s =>
+      (s.fromStationId === fromStationId && s.toStationId === toStationId) ||
+      (s.fromStationId === toStationId && s.toStationId === fromStationId)
+    );
+    if (!segment) return null;
+
+    // Segments are stored in forward direction
+    const path = segment.fromStationId === fromStationId ? segment.trackPath : [...segment.trackPath].reverse();
+    const { progress: distanceProgress, speed } = this.applyMotionProfile(segment, progress, duration);
+
+    return {
+      coordinate: this.interpolateAlongPath(path, distanceProgress),
+      bearing: this.calculateBearing(path, distanceProgress),
+      speed,
+      distanceProgress
+    };
+  }
+
   private interpolateAlongPath(path: Coordinate[], progress: number): Coordinate {
     if (path.length === 0) return { lng: 29.0, lat: 41.0 };
     if (path.length === 1) return path[0];
@@ -370,7 +433,7 @@ export class SimpleRouteCalculator {
     return this.routeCache.get(routeId) || null;
   }
 
-  getNetworkStats() {
+  getNetworkStats(): NetworkStats {
     return {
       totalNodes: 0,
       totalEdges: this.trackSegments.length,
@@ -381,11 +444,12 @@ export class SimpleRouteCalculator {
   }
 
   /**
-   * Exclude railway features by name
+   * Replace the excluded railway features
    */
-  excludeFeatures(featureNames: string[]): void {
-    featureNames.forEach(name => this.excludedFeatureNames.add(name));
-    console.log(`🚫 Excluded ${featureNames.length} railway features: ${featureNames.join(', ')}`);
+  setExclusions(exclusions: RailwayExclusions): void {
+    this.excludedFeatureIds = new Set(exclusions.ids);
+    this.excludedFeatureNames = new Set(exclusions.names);
+    console.log(`🚫 Excluding ${exclusions.ids.length} railway features by ID and ${exclusions.names.length} by name`);
   }
 
   /**
@@ -399,13 +463,13 @@ export class SimpleRouteCalculator {
     // Reprocess with exclusions
     this.processTrackGeometry();
     
-    console.log(`🔄 Reinitialized with ${this.trackSegments.length} track segments (${this.excludedFeatureNames.size} features excluded)`);
+    console.log(`🔄 Reinitialized with ${this.trackSegments.length} track segments (${this.excludedFeatureIds.size + this.excludedFeatureNames.size} features excluded)`);
   }
 
   /**
-   * Get list of excluded feature names
+   * Get the excluded railway features
    */
-  getExcludedFeatures(): string[] {
-    return Array.from(this.excludedFeatureNames);
+  getExclusions(): RailwayExclusions {
+    return { ids: Array.from(this.excludedFeatureIds), names: Array.from(this.excludedFeatureNames) };
   }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * Station Timetable - A full day of departures from one station in one direction, grouped by
+ * hour like the printed posters on the platforms, with weekday and weekend columns
+ */
+
+import type { Station } from '../types';
+import { stations } from '../data/stations';
+import { getScheduledTrips, SERVICE_DAY_START_HOUR, type ScheduledTrip } from './timetableEngine';
+import { findServiceDay, type ServiceDay } from './serviceCalendar';
+import { getTravelDirection } from './timetableCalculations';
+import { formatGtfsTime, serializeCsv } from './gtfsExporter';
+import { getStationChainage } from './linearReferencing';
+
+export type TimetableColumn = 'weekday' | 'weekend';
+
+// Each column shows what runs on a real date: an ordinary weekday without late-night service,
+// and an ordinary Saturday with the late-night trains that follow it
+const COLUMN_DAYS: Record<TimetableColumn, (serviceDay: ServiceDay) => boolean> = {
+  weekday: day => day.dayType === 'weekday' && !day.lateNight && !day.name,
+  weekend: day => day.dayType === 'saturday' && !day.name
+};
+
+export interface TimetableDeparture {
+  time: number; // seconds after midnight of the service day, may exceed 24h
+  destinationId: string;
+  routeId: string;
+  lateNight: boolean;
+}
+
+export interface TimetableHour {
+  hour: number; // of the service day, so 24 and later are after midnight
+  weekday: TimetableDeparture[];
+  weekend: TimetableDeparture[];
+}
+
+export interface StationTimetable {
+  station: Station;
+  direction: 'forward' | 'backward';
+  terminusId: string; // the furthest destination, shown as the direction of travel
+  destinationIds: string[]; // other destinations, in order of first departure
+  hours: TimetableHour[];
+}
+
+/**
+ * Build the timetable for a station and direction from the planned trips, without disruptions.
+ * The columns follow the service calendar for the next ordinary weekday and Saturday from the date.
+ * Returns null for an unknown station; a terminus has no hours in the direction it ends
+ */
+export function buildStationTimetable(
+  stationId: string,
+  direction: 'forward' | 'backward',
+  date: Date = new Date()
+): StationTimetable | null {
+  const station = stations.find(s => s.id === stationId);
+  if (!station) return null;
+
+  const serviceDays = {
+    weekday: findServiceDay(date, COLUMN_DAYS.weekday),
+    weekend: findServiceDay(date, COLUMN_DAYS.weekend)
+  };
+
+  const departures = (column: TimetableColumn) => getScheduledTrips()
+    .filter(trip => serviceDays[column]?.services.includes(trip.serviceId))
+    .flatMap(trip => {
+      const stopIndex = trip.stops.findIndex(stop => stop.stationId === stationId);
+      if (stopIndex === -1 || stopIndex === trip.stops.length - 1) return [];
+      if (getTravelDirection(trip, stopIndex) !== direction) return [];
+      return [toDeparture(trip, stopIndex)];
+    })
+    .sort((a, b) => a.time - b.time);
+
+  const weekday = departures('weekday');
+  const weekend = departures('weekend');
+
+  const hours: TimetableHour[] = [];
+  for (let hour = SERVICE_DAY_START_HOUR; hour < SERVICE_DAY_START_HOUR + 24; hour++) {
+    const inHour = (departure: TimetableDeparture) => Math.floor(departure.time / 3600) === hour;
+    const row = { hour, weekday: weekday.filter(inHour), weekend: weekend.filter(inHour) };
+    if (row.weekday.length > 0 || row.weekend.length > 0) hours.push(row);
+  }
+
+  // The furthest destination names the direction; shorter workings get footnotes
+  const chainageAt = (id: string) => getStationChainage(id) ?? 0;
+  const destinations = [...new Set(weekend.map(departure => departure.destinationId))];
+  const byDistance = [...destinations].sort((a, b) => chainageAt(a) - chainageAt(b));
+  const terminusId = (direction === 'forward' ? byDistance[byDistance.length - 1] : byDistance[0]) ?? stationId;
+
+  return {
+    station,
+    direction,
+    terminusId,
+    destinationIds: destinations.filter(id => id !== terminusId),
+    hours
+  };
+}
+
+function toDeparture(trip: ScheduledTrip, stopIndex: number): TimetableDeparture {
+  return {
+    time: trip.stops[stopIndex].departureTime,
+    destinationId: trip.stops[trip.stops.length - 1].stationId,
+    routeId: trip.routeId,
+    lateNight: trip.serviceId === 'late-night'
+  };
+}
+
+/**
+ * Format a service-day time as HH:MM on the clock, so 24:10 is shown as 00:10
+ */
+export function formatTimetableTime(time: number): string {
+  return formatGtfsTime(time % (24 * 3600)).slice(0, 5);
+}
+
+/**
+ * One CSV row per departure; labels come from the caller so the file can be in either language
+ */
+export function serializeTimetableCsv(
+  timetable: StationTimetable,
+  labels: { column: string; time: string; destination: string; lateNight: string; yes: string } & Record<TimetableColumn, string>
+): string {
+  const stationName = (id: string) => stations.find(s => s.id === id)?.name ?? id;
+
+  const columns = [labels.column, labels.time, labels.destination, labels.lateNight];
+
+  const records = (['weekday', 'weekend'] as const).flatMap(column =>
+    timetable.hours.flatMap(hour => hour[column].map(departure => ({
+      [labels.column]: labels[column],
+      [labels.time]: formatTimetableTime(departure.time),
+      [labels.destination]: stationName(departure.destinationId),
+      [labels.lateNight]: departure.lateNight ? labels.yes : ''
+    })))
+  );
+
+  return serializeCsv(records, columns);
+}
@@ -2,13 +2,15 @@ import type { Route } from '../types';
 import type { TrainPosition } from './trainSimulation';
 import { stations } from '../data/stations';
 import { routes } from '../data/routes';
-import { interStationTimes } from '../data/interStationTimes';
-import { getRouteDisplayName } from './trainNaming';
+import { getRouteDisplayName, getTrainDisplayName } from './trainNaming';
+import { getStationCalls, type ScheduledTrip, type StationCall } from './timetableEngine';
+import { getStationChainage } from './linearReferencing';
 
 export interface ArrivalPrediction {
   trainId: string;
   displayName: string; // Short, user-friendly train name
   arrivalTime: Date;
+  departureTime: Date; // later than arrivalTime by the dwell time; equal at the terminus
   minutesAway: number;
   direction: 'forward' | 'backward';
   routeId: string;
@@ -16,27 +18,37 @@ export interface ArrivalPrediction {
   finalDestination: string;
   color: string;
   confidence: number; // 0-1 confidence score
+  delay: number; // seconds late against the timetable, already included in the times
 }
 
+// Predictions further ahead than this are left to the timetable view
+const MAX_PREDICTION_SECONDS = 45 * 60;
+
 /**
  * Calculate arrival predictions for a specific station
+ * Arrivals come from the scheduled trips; trains already on the map report their live position
  */
 export function calculateStationArrivals(
   stationId: string, 
   trainPositions: TrainPosition[],
-  maxArrivals: number = 4
+  maxArrivals: number = 4,
+  currentTime: Date = new Date()
 ): ArrivalPrediction[] {
   const station = stations.find(s => s.id === stationId);
   if (!station) return [];
 
+  const liveTrains = new Map(trainPositions.map(position => [position.trainId, position]));
+  const horizon = new Date(currentTime.getTime() + MAX_PREDICTION_SECONDS * 1000);
+  const calls = getStationCalls(stationId, currentTime, { untilTime: horizon, includeTerminating: true });
+
   const arrivals: ArrivalPrediction[] = [];
-  const now = new Date();
 
-  for (const trainPos of trainPositions) {
-    const route = routes.find(r => r.id === trainPos.routeId);
+  for (const call of calls) {
+    const route = routes.find(r => r.id === call.trip.routeId);
     if (!route) continue;
 
-    const arrivalPrediction = calculateTrainArrival(stationId, trainPos, route, now);
+    const liveTrain = liveTrains.get(call.trip.id);
+    const arrivalPrediction = calculateTripArrival(call, route, liveTrain, currentTime);
     if (arrivalPrediction) {
       arrivals.push(arrivalPrediction);
     }
@@ -48,130 +60,157 @@ export function calculateStationArrivals(
     .slice(0, maxArrivals);
 }
 
+export interface ReachableDeparture {
+  direction: 'forward' | 'backward';
+  next: ArrivalPrediction; // the next train to leave in this direction
+  canMakeIt: boolean; // whether a walk to the platform gets there before it leaves
+  spareMinutes: number; // between reaching the platform and the train leaving, negative when missed
+  nextReachable: ArrivalPrediction | null; // the first train that can be made, when it is not the next
+}
+
 /**
- * Calculate when a specific train will arrive at a station
+ * The next departure in each direction for someone a walk away from the station, and whether
+ * they can still make it. Directions without a departure in the prediction window are left out
  */
-function calculateTrainArrival(
+export function getReachableDepartures(
   stationId: string,
-  trainPos: TrainPosition,
-  route: Route,
-  currentTime: Date
-): ArrivalPrediction | null {
-  // Check if this train visits the requested station
-  const stationIndex = route.stations.indexOf(stationId);
-  if (stationIndex === -1) return null;
+  trainPositions: TrainPosition[],
+  walkTime: number, // seconds
+  currentTime: Date = new Date()
+): ReachableDeparture[] {
+  const liveTrains = new Map(trainPositions.map(position => [position.trainId, position]));
+  const platformTime = new Date(currentTime.getTime() + walkTime * 1000);
+  const horizon = new Date(platformTime.getTime() + MAX_PREDICTION_SECONDS * 1000);
 
-  // Get train's current position in the route
-  const currentFromIndex = route.stations.indexOf(trainPos.currentSegment.fromStationId);
-  const currentToIndex = route.stations.indexOf(trainPos.currentSegment.toStationId);
-  
-  if (currentFromIndex === -1 || currentToIndex === -1) return null;
+  const departures = getStationCalls(stationId, currentTime, { untilTime: horizon })
+    .flatMap(call => {
+      const route = routes.find(r => r.id === call.trip.routeId);
+      const prediction = route && calculateTripArrival(call, route, liveTrains.get(call.trip.id), currentTime);
+      return prediction ? [prediction] : [];
+    })
+    .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime());
 
-  // Calculate travel time to the target station
-  const travelTimeResult = calculateTravelTime(
-    trainPos, 
-    route, 
-    currentFromIndex, 
-    currentToIndex, 
-    stationIndex
-  );
+  return (['forward', 'backward'] as const).flatMap(direction => {
+    const inDirection = departures.filter(departure => departure.direction === direction);
+    if (inDirection.length === 0) return [];
 
-  if (!travelTimeResult) return null;
+    const next = inDirection[0];
+    const spareMinutes = Math.floor((next.departureTime.getTime() - platformTime.getTime()) / 60000);
+    const canMakeIt = next.departureTime >= platformTime;
+    return [{
+      direction,
+      next,
+      canMakeIt,
+      spareMinutes,
+      nextReachable: canMakeIt ? null : inDirection.find(departure => departure.departureTime >= platformTime) ?? null
+    }];
+  });
+}
 
-  const { timeToStation, confidence } = travelTimeResult;
+export interface BoardDeparture extends ArrivalPrediction {
+  callingAt: string[]; // names of the stations still ahead, ending with the destination
+}
 
-  // Skip if arrival time is too far in the future (over 45 minutes)
-  if (timeToStation > 2700) return null;
+export interface DirectionBoard {
+  direction: 'forward' | 'backward';
+  departures: BoardDeparture[];
+}
 
-  const arrivalTime = new Date(currentTime.getTime() + timeToStation * 1000);
-  const minutesAway = Math.max(0, Math.round(timeToStation / 60));
+/**
+ * Departures in both directions for a platform display, with the stations each train calls
+ * at afterwards. Trains terminating at the station are left out; after the last train the
+ * next morning's first trains are shown
+ */
+export function getDepartureBoard(
+  stationId: string,
+  trainPositions: TrainPosition[],
+  perDirection: number = 6,
+  currentTime: Date = new Date()
+): DirectionBoard[] {
+  const liveTrains = new Map(trainPositions.map(position => [position.trainId, position]));
+  const calls = getStationCalls(stationId, currentTime, { limit: perDirection * 4 });
+
+  const departures = calls.flatMap(call => {
+    const route = routes.find(r => r.id === call.trip.routeId);
+    const prediction = route && calculateTripArrival(call, route, liveTrains.get(call.trip.id), currentTime);
+    if (!prediction) return [];
 
-  // Get final destination
-  const finalDestinationId = trainPos.direction === 'forward' 
-    ? route.termini[1] 
-    : route.termini[0];
+    const callingAt = call.trip.stops
+      .slice(call.stopIndex + 1)
+      .map(stop => stations.find(s => s.id === stop.stationId)?.name ?? stop.stationId);
+    return [{ call, departure: { ...prediction, callingAt } }];
+  });
+
+  return (['forward', 'backward'] as const).map(direction => ({
+    direction,
+    departures: departures
+      .filter(({ call }) => getTravelDirection(call.trip, call.stopIndex) === direction)
+      .map(({ departure }) => departure)
+      .slice(0, perDirection)
+  }));
+}
+
+/**
+ * Which way a train leaves the station: forward is towards Gebze. Evening short-workings run
+ * Pendik to Zeytinburnu as their route's forward direction, so the trip direction alone is not enough
+ */
+export function getTravelDirection(trip: ScheduledTrip, stopIndex: number): 'forward' | 'backward' {
+  const here = getStationChainage(trip.stops[stopIndex].stationId) ?? 0;
+  const destination = getStationChainage(trip.stops[trip.stops.length - 1].stationId) ?? 0;
+  return destination > here ? 'forward' : 'backward';
+}
+
+/**
+ * Build the prediction for one scheduled call at the station
+ */
+function calculateTripArrival(
+  call: StationCall,
+  route: Route,
+  liveTrain: TrainPosition | undefined,
+  currentTime: Date
+): ArrivalPrediction | null {
+  const { trip } = call;
+  // Call times come from the trips as they run, so disruptions are already in them
+  const { arrivalTime, departureTime } = call;
+  const timeToStation = (arrivalTime.getTime() - currentTime.getTime()) / 1000;
+
+  // Train already left; a train still at the platform is shown as arriving now
+  if (departureTime < currentTime) return null;
+
+  const minutesAway = Math.max(0, Math.round(timeToStation / 60));
+  const finalDestinationId = trip.stops[trip.stops.length - 1].stationId;
   const finalDestination = stations.find(s => s.id === finalDestinationId)?.name || 'Unknown';
 
   return {
-    trainId: trainPos.trainId,
-    displayName: trainPos.displayName,
+    trainId: trip.id,
+    displayName: liveTrain?.displayName ?? getTrainDisplayName(trip.id, trip.routeId, trip.direction),
     arrivalTime,
+    departureTime,
     minutesAway,
-    direction: trainPos.direction,
-    routeId: trainPos.routeId,
+    direction: trip.direction,
+    routeId: trip.routeId,
     routeName: getRouteDisplayName(route.id),
     finalDestination,
     color: route.color,
-    confidence
+    confidence: calculateConfidence(call, liveTrain),
+    delay: trip.stops[call.stopIndex].delay ?? 0
   };
 }
 
 /**
- * Calculate travel time from current train position to target station
+ * Trains already running are tracked, so confidence only decays with the stops still ahead.
+ * Trains that have not left their first station yet are a timetable promise.
+ * Delayed trains are less certain: a 10-minute delay halves the confidence
  */
-function calculateTravelTime(
-  trainPos: TrainPosition,
-  route: Route,
-  currentFromIndex: number,
-  currentToIndex: number,
-  targetStationIndex: number
-): { timeToStation: number; confidence: number } | null {
-  const trainDirection = trainPos.direction === 'forward' ? 1 : -1;
-  
-  // Check if train is moving toward the target station
-  if (trainDirection === 1 && currentFromIndex >= targetStationIndex) return null;
-  if (trainDirection === -1 && currentFromIndex <= targetStationIndex) return null;
-
-  let timeToStation = 0;
-  let confidence = 0.9; // Start with high confidence
-
-  if (trainDirection === 1) {
-    // Forward direction
-    const remainingInCurrentSegment = (1 - trainPos.progress) * getInterStationTime(
-      route.stations[currentFromIndex], 
-      route.stations[currentToIndex]
-    );
-    
-    timeToStation += remainingInCurrentSegment;
-    
-    // Add time for complete segments between current and target
-    for (let i = currentToIndex; i < targetStationIndex; i++) {
-      const segmentTime = getInterStationTime(route.stations[i], route.stations[i + 1]);
-      timeToStation += segmentTime;
-      
-      // Reduce confidence for longer predictions
-      confidence *= 0.95;
-    }
-  } else {
-    // Backward direction (reverse route)
-    const remainingInCurrentSegment = trainPos.progress * getInterStationTime(
-      route.stations[currentFromIndex], 
-      route.stations[currentToIndex]
-    );
-    
-    timeToStation += remainingInCurrentSegment;
-    
-    // Add time for complete segments (going backward)
-    for (let i = currentFromIndex - 1; i >= targetStationIndex; i--) {
-      const segmentTime = getInterStationTime(route.stations[i + 1], route.stations[i]);
-      timeToStation += segmentTime;
-      
-      // Reduce confidence for longer predictions
-      confidence *= 0.95;
-    }
-  }
+function calculateConfidence(call: StationCall, liveTrain: TrainPosition | undefined): number {
+  const delay = call.trip.stops[call.stopIndex].delay ?? 0;
+  const delayFactor = 1 / (1 + delay / 600);
 
-  return { timeToStation, confidence };
-}
+  if (!liveTrain) return 0.7 * delayFactor;
 
-/**
- * Get inter-station travel time with fallback
- */
-function getInterStationTime(fromStationId: string, toStationId: string): number {
-  const timeData = interStationTimes.find(
-    t => t.fromStationId === fromStationId && t.toStationId === toStationId
-  );
-  return timeData ? timeData.time : 120; // Default 2 minutes if not found
+  const currentIndex = call.trip.stops.findIndex(stop => stop.stationId === liveTrain.currentSegment.fromStationId);
+  const stopsAhead = Math.max(0, call.stopIndex - currentIndex);
+  return 0.9 * Math.pow(0.95, stopsAhead) * delayFactor;
 }
 
 
@@ -219,7 +258,7 @@ export function getRoutesForStation(stationId: string): Route[] {
 }
 
 /**
- * Calculate the next arrival time for a station based on route frequency
+ * Calculate the next scheduled arrival of a route at a station
  * (Used as fallback when no trains are currently simulated)
  */
 export function calculateScheduledArrival(
@@ -230,17 +269,8 @@ export function calculateScheduledArrival(
   const route = routes.find(r => r.id === routeId);
   if (!route || !route.stations.includes(stationId)) return null;
 
-  // Simple calculation based on frequency
-  const baseTime = new Date(currentTime);
-  baseTime.setSeconds(0, 0); // Round to nearest minute
-  
-  // Find the next departure time based on frequency
-  const minutesSinceHour = baseTime.getMinutes();
-  const nextDeparture = minutesSinceHour % route.frequency;
-  const minutesToAdd = nextDeparture === 0 ? 0 : route.frequency - nextDeparture;
-  
-  const scheduledTime = new Date(baseTime);
-  scheduledTime.setMinutes(scheduledTime.getMinutes() + minutesToAdd);
-  
-  return scheduledTime;
-}
\ No newline at end of file
+  const nextCall = getStationCalls(stationId, currentTime, { includeTerminating: true })
+    .find(call => call.trip.routeId === routeId);
+
+  return nextCall ? nextCall.arrivalTime : null;
+}
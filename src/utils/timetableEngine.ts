@@ -0,0 +1,500 @@
+/**
+ * Timetable Engine - Builds concrete trips from the official Marmaray timetable
+ * Every trip carries its scheduled time at each station, so the map simulation,
+ * station arrival predictions and the journey planner all read the same schedule
+ */
+
+import { routes } from '../data/routes';
+import { stations } from '../data/stations';
+import { interStationTimes } from '../data/interStationTimes';
+import { DEFAULT_DWELL_TIME, stationDwellTimes, peakDwellPeriods } from '../data/dwellTimes';
+import { dayServicePatterns } from '../data/serviceCalendar';
+import officialTimetables from '../data/official-timetables.json';
+import stationNameMapping from '../data/station-name-mapping.json';
+import { getServiceDay, type ServiceId } from './serviceCalendar';
+import { dispatchTrips } from './delayModel';
+import type { DayServiceId } from '../types';
+
+export interface TripStop {
+  stationId: string;
+  arrivalTime: number; // seconds after midnight of the service day, may exceed 24h
+  departureTime: number; // seconds after midnight of the service day, may exceed 24h
+  delay?: number; // seconds late (arrival, or departure at the first stop) when disrupted
+}
+
+export interface ScheduledTrip {
+  id: string;
+  routeId: string;
+  direction: 'forward' | 'backward';
+  serviceId: ServiceId; // which calendar service the trip belongs to
+  stops: TripStop[]; // in travel order; depot starts begin mid-route
+}
+
+export interface TripPosition {
+  fromIndex: number; // index into trip.stops
+  toIndex: number;
+  progress: number; // 0-1 between the two stops
+  tripProgress: number; // 0-1 over the whole trip
+  dwelling: boolean; // standing at the platform of the from stop
+}
+
+export interface StationCall {
+  trip: ScheduledTrip;
+  stopIndex: number;
+  serviceDate: Date; // midnight of the day the trip belongs to
+  arrivalTime: Date;
+  departureTime: Date;
+}
+
+export interface TripConnection {
+  trip: ScheduledTrip;
+  serviceDate: Date;
+  fromIndex: number;
+  toIndex: number;
+  departureTime: Date;
+  arrivalTime: Date;
+}
+
+interface OfficialRow {
+  station: string;
+  train_1?: string;
+  train_2?: string;
+  first_train?: string;
+  last_train: string;
+  weekend?: string; // last train of the late-night service
+}
+
+interface TimetableSource {
+  routeId: string;
+  direction: 'forward' | 'backward';
+  rows: OfficialRow[];
+  firstDeparture?: string; // when the source has no first-train column
+}
+
+// Which official table describes which route direction
+const TIMETABLE_SOURCES: TimetableSource[] = [
+  { routeId: 'marmaray-full', direction: 'forward', rows: officialTimetables.halkali_to_gebze },
+  { routeId: 'marmaray-full', direction: 'backward', rows: officialTimetables.gebze_to_halkali },
+  { routeId: 'marmaray-short', direction: 'forward', rows: officialTimetables.atakoy_pendik_service.pendik_yonune },
+  { routeId: 'marmaray-short', direction: 'backward', rows: officialTimetables.atakoy_pendik_service.atakoy_yonune },
+  // Only the last train is published; the timetable notes start the Zeytinburnu short-workings at 20:50
+  {
+    routeId: 'marmaray-evening',
+    direction: 'forward',
+    rows: officialTimetables.evening_service_pendik_zeytinburnu.zeytinburnu_yonune,
+    firstDeparture: '20:50'
+  }
+];
+
+const DEFAULT_INTER_STATION_TIME = 120; // seconds
+const SAME_TRAIN_TOLERANCE = 60; // seconds between a published time and a trip for them to match
+const DAY_SECONDS = 24 * 3600;
+
+// A service day runs from 04:00 until 04:00 the next morning, so trip times go up to 28:00
+// and trains that leave at 23:50 or run the late-night service stay on the day they started
+export const SERVICE_DAY_START_HOUR = 4;
+
+let tripCache: ScheduledTrip[] | null = null;
+let tripIndex: Map<string, ScheduledTrip> | null = null;
+
+/**
+ * Trips of every service, built once from the official timetable
+ */
+export function getScheduledTrips(): ScheduledTrip[] {
+  if (!tripCache) {
+    tripCache = TIMETABLE_SOURCES.flatMap(source => buildTripsForSource(source));
+    tripIndex = new Map(tripCache.map(trip => [trip.id, trip]));
+  }
+  return tripCache;
+}
+
+/**
+ * Trips running on a service day according to the service calendar, as dispatched through the block sections
+ */
+export function getTripsForServiceDate(serviceDate: Date): ScheduledTrip[] {
+  const { services } = getServiceDay(serviceDate);
+  return dispatchTrips(getScheduledTrips().filter(trip => services.includes(trip.serviceId)), serviceDate);
+}
+
+/**
+ * Look up a trip by id
+ */
+export function getTripById(tripId: string): ScheduledTrip | undefined {
+  getScheduledTrips();
+  return tripIndex!.get(tripId);
+}
+
+/**
+ * Midnight of the service day a time belongs to (times before 04:00 belong to the previous day)
+ */
+export function getServiceDate(time: Date): Date {
+  const serviceDate = new Date(time);
+  if (serviceDate.getHours() < SERVICE_DAY_START_HOUR) {
+    serviceDate.setDate(serviceDate.getDate() - 1);
+  }
+  serviceDate.setHours(0, 0, 0, 0);
+  return serviceDate;
+}
+
+/**
+ * Convert a trip time (seconds after midnight of the service day) to a Date
+ */
+export function tripTimeToDate(serviceDate: Date, seconds: number): Date {
+  const date = new Date(serviceDate);
+  date.setHours(0, 0, seconds, 0);
+  return date;
+}
+
+/**
+ * Seconds elapsed since midnight of the service day
+ */
+export function toServiceSeconds(time: Date, serviceDate: Date): number {
+  return (time.getTime() - serviceDate.getTime()) / 1000;
+}
+
+/**
+ * Where a trip is at the given number of seconds into its service day, or null if it is not running
+ */
+export function locateTrip(trip: ScheduledTrip, seconds: number): TripPosition | null {
+  const { stops } = trip;
+  // A train held at its first stop is already standing at the platform
+  const start = stops[0].arrivalTime;
+  const end = stops[stops.length - 1].arrivalTime;
+  if (seconds < start || seconds >= end) return null;
+
+  const tripProgress = (seconds - start) / (end - start);
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const stop = stops[i];
+    const next = stops[i + 1];
+
+    // Dwelling at a station
+    if (seconds < stop.departureTime) {
+      return { fromIndex: i, toIndex: i + 1, progress: 0, tripProgress, dwelling: true };
+    }
+
+    if (seconds < next.arrivalTime) {
+      const segmentTime = next.arrivalTime - stop.departureTime;
+      const progress = segmentTime > 0 ? (seconds - stop.departureTime) / segmentTime : 0;
+      return { fromIndex: i, toIndex: i + 1, progress, tripProgress, dwelling: false };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Trips running at the given time, with their position
+ */
+export function getActiveTrips(currentTime: Date): { trip: ScheduledTrip; serviceDate: Date; position: TripPosition }[] {
+  const serviceDate = getServiceDate(currentTime);
+  const seconds = toServiceSeconds(currentTime, serviceDate);
+  const active: { trip: ScheduledTrip; serviceDate: Date; position: TripPosition }[] = [];
+
+  for (const trip of getTripsForServiceDate(serviceDate)) {
+    const position = locateTrip(trip, seconds);
+    if (position) active.push({ trip, serviceDate, position });
+  }
+
+  return active;
+}
+
+/**
+ * Scheduled calls at a station from a given time, ordered by departure
+ * Looks into the next service day so the next morning's trains are found after the last train
+ */
+export function getStationCalls(
+  stationId: string,
+  fromTime: Date,
+  options: { untilTime?: Date; limit?: number; includeTerminating?: boolean } = {}
+): StationCall[] {
+  const { untilTime, limit = Infinity, includeTerminating = false } = options;
+  const calls: StationCall[] = [];
+  const today = getServiceDate(fromTime);
+
+  for (const dayOffset of [0, 1]) {
+    const serviceDate = new Date(today);
+    serviceDate.setDate(serviceDate.getDate() + dayOffset);
+
+    for (const trip of getTripsForServiceDate(serviceDate)) {
+      const stopIndex = trip.stops.findIndex(stop => stop.stationId === stationId);
+      if (stopIndex === -1) continue;
+      if (!includeTerminating && stopIndex === trip.stops.length - 1) continue;
+
+      const stop = trip.stops[stopIndex];
+      const departureTime = tripTimeToDate(serviceDate, stop.departureTime);
+      if (departureTime < fromTime || (untilTime && departureTime > untilTime)) continue;
+
+      calls.push({
+        trip,
+        stopIndex,
+        serviceDate,
+        arrivalTime: tripTimeToDate(serviceDate, stop.arrivalTime),
+        departureTime
+      });
+    }
+
+    if (calls.length >= limit) break;
+  }
+
+  return calls
+    .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Trips that call at both stations in travel order, departing after the given time
+ * Ordered by arrival at the destination
+ */
+export function findTripConnections(
+  fromStationId: string,
+  toStationId: string,
+  fromTime: Date,
+  limit: number = 3
+): TripConnection[] {
+  const connections: TripConnection[] = [];
+
+  for (const call of getStationCalls(fromStationId, fromTime)) {
+    const toIndex = call.trip.stops.findIndex(
+      (stop, index) => index > call.stopIndex && stop.stationId === toStationId
+    );
+    if (toIndex === -1) continue;
+
+    connections.push({
+      trip: call.trip,
+      serviceDate: call.serviceDate,
+      fromIndex: call.stopIndex,
+      toIndex,
+      departureTime: call.departureTime,
+      arrivalTime: tripTimeToDate(call.serviceDate, call.trip.stops[toIndex].arrivalTime)
+    });
+  }
+
+  return connections
+    .sort((a, b) => a.arrivalTime.getTime() - b.arrivalTime.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Expand one official table into trips. Each day service runs from the origin at its route
+ * headway, with the trains that enter service mid-route (the staggered morning starts), and the
+ * late-night extension runs on at the published headway up to the published weekend last train
+ */
+function buildTripsForSource(source: TimetableSource): ScheduledTrip[] {
+  const route = routes.find(r => r.id === source.routeId);
+  if (!route) {
+    console.warn(`⚠️ Official timetable refers to unknown route ${source.routeId}`);
+    return [];
+  }
+
+  const stationIds = source.direction === 'forward' ? route.stations : [...route.stations].reverse();
+  const rowsByStation = mapRowsToStations(source.rows);
+  const offsets = calculateRunningOffsets(stationIds, rowsByStation);
+
+  const originRow = rowsByStation.get(stationIds[0]);
+  const firstDeparture = parseOfficialTime(source.firstDeparture ?? originRow?.train_1 ?? originRow?.first_train);
+  const secondDeparture = parseOfficialTime(originRow?.train_2);
+  const lastDeparture = parseOfficialTime(originRow?.last_train);
+  let lateNightLastDeparture = parseOfficialTime(originRow?.weekend);
+
+  if (firstDeparture === null || lastDeparture === null) {
+    console.warn(`⚠️ No first or last departure for ${route.id} ${source.direction}`);
+    return [];
+  }
+
+  const publishedHeadway = secondDeparture !== null && secondDeparture > firstDeparture
+    ? secondDeparture - firstDeparture
+    : route.frequency * 60;
+
+  const buildStops = (startIndex: number, departure: number) => buildTripStops(
+    stationIds.slice(startIndex),
+    offsets.slice(startIndex).map(offset => departure + offset - offsets[startIndex])
+  );
+
+  const getOriginDepartures = (headway: number) => {
+    const departures: number[] = [];
+    for (let departure = firstDeparture; departure <= lastDeparture; departure += headway) {
+      departures.push(departure);
+    }
+    if ((lastDeparture - firstDeparture) % headway !== 0) {
+      departures.push(lastDeparture);
+    }
+    return departures;
+  };
+
+  // Published first trains that no departure from the origin explains start at that station
+  const publishedStops = getOriginDepartures(publishedHeadway).map(departure => buildStops(0, departure));
+  const midRouteStarts: { startIndex: number; departure: number }[] = [];
+  stationIds.forEach((stationId, index) => {
+    if (index === 0 || index === stationIds.length - 1) return;
+    const row = rowsByStation.get(stationId);
+    if (!row) return;
+
+    for (const published of [row.train_1, row.train_2, row.first_train].map(parseOfficialTime)) {
+      if (published === null) continue;
+      const explained = publishedStops.some(stops => {
+        const stop = stops.find(s => s.stationId === stationId);
+        return stop && Math.abs(stop.departureTime - published) <= SAME_TRAIN_TOLERANCE;
+      });
+      if (!explained) {
+        midRouteStarts.push({ startIndex: index, departure: published });
+        publishedStops.push(buildStops(index, published));
+      }
+    }
+  });
+
+  const trips: ScheduledTrip[] = [];
+  const addTrip = (serviceId: ServiceId, startIndex: number, departure: number) => {
+    const startStationId = stationIds[startIndex];
+    const suffix = startIndex === 0 ? '' : `${startStationId}-`;
+    trips.push({
+      id: `${route.id}-${source.direction}-${serviceId}-${suffix}${formatTripNumber(departure)}`,
+      routeId: route.id,
+      direction: source.direction,
+      serviceId,
+      stops: buildStops(startIndex, departure)
+    });
+  };
+
+  (Object.keys(dayServicePatterns) as DayServiceId[]).forEach(serviceId => {
+    const routeHeadway = dayServicePatterns[serviceId].routeHeadways?.[route.id];
+    getOriginDepartures(routeHeadway ? routeHeadway * 60 : publishedHeadway)
+      .forEach(departure => addTrip(serviceId, 0, departure));
+    midRouteStarts.forEach(({ startIndex, departure }) => addTrip(serviceId, startIndex, departure));
+  });
+
+  // Late-night service keeps the published headway after the last train
+  if (lateNightLastDeparture !== null) {
+    if (lateNightLastDeparture < lastDeparture) lateNightLastDeparture += DAY_SECONDS;
+    for (
+      let departure = lastDeparture + publishedHeadway;
+      departure <= lateNightLastDeparture;
+      departure += publishedHeadway
+    ) {
+      addTrip('late-night', 0, departure);
+    }
+  }
+
+  return trips.sort((a, b) => a.stops[0].departureTime - b.stops[0].departureTime);
+}
+
+/**
+ * Turn published station times into stops: the published time is the departure and the train
+ * arrives one dwell time earlier. The origin has no arrival and the terminus no departure
+ */
+function buildTripStops(stationIds: string[], times: number[]): TripStop[] {
+  return stationIds.map((stationId, index) => {
+    const departureTime = times[index];
+    if (index === 0 || index === stationIds.length - 1) {
+      return { stationId, arrivalTime: departureTime, departureTime };
+    }
+
+    // Keep at least half of the published gap for running between the stations
+    const runningGap = departureTime - times[index - 1];
+    const dwell = Math.min(getDwellTime(stationId, departureTime), runningGap / 2);
+    return { stationId, arrivalTime: departureTime - Math.round(dwell), departureTime };
+  });
+}
+
+/**
+ * Dwell time at a station for a train departing at the given trip time
+ */
+function getDwellTime(stationId: string, departureTime: number): number {
+  const dwell = stationDwellTimes[stationId] ?? DEFAULT_DWELL_TIME;
+  const timeOfDay = departureTime % DAY_SECONDS;
+
+  const peak = peakDwellPeriods.find(period => {
+    const start = parseOfficialTime(period.start);
+    const end = parseOfficialTime(period.end);
+    return start !== null && end !== null && timeOfDay >= start && timeOfDay < end;
+  });
+
+  return peak ? dwell * peak.multiplier : dwell;
+}
+
+/**
+ * Running time from the first station to each station, taken from the published last train
+ * (the only column that follows one train end to end). Gaps fall back to inter-station times
+ */
+function calculateRunningOffsets(stationIds: string[], rowsByStation: Map<string, OfficialRow>): number[] {
+  const published = stationIds.map(id => parseOfficialTime(rowsByStation.get(id)?.last_train));
+  const offsets: number[] = [0];
+
+  for (let i = 1; i < stationIds.length; i++) {
+    const previous = published[i - 1];
+    let current = published[i];
+
+    if (previous !== null && current !== null) {
+      // Times after midnight continue the same trip
+      if (current < previous - DAY_SECONDS / 2) current += DAY_SECONDS;
+      published[i] = current;
+      offsets.push(offsets[i - 1] + (current - previous));
+    } else {
+      offsets.push(offsets[i - 1] + getInterStationTime(stationIds[i - 1], stationIds[i]));
+    }
+  }
+
+  return offsets;
+}
+
+/**
+ * Match official station names (which vary between tables) to station ids
+ */
+function mapRowsToStations(rows: OfficialRow[]): Map<string, OfficialRow> {
+  const result = new Map<string, OfficialRow>();
+
+  for (const row of rows) {
+    const stationId = resolveStationId(row.station);
+    if (stationId) {
+      result.set(stationId, row);
+    } else {
+      console.warn(`⚠️ Unknown station in official timetable: "${row.station}"`);
+    }
+  }
+
+  return result;
+}
+
+let stationNameIndex: Map<string, string> | null = null;
+
+function resolveStationId(name: string): string | undefined {
+  if (!stationNameIndex) {
+    stationNameIndex = new Map(stations.map(station => [normalizeName(station.name), station.id]));
+
+    for (const { official_name, variations } of Object.values(stationNameMapping.name_variations)) {
+      const stationId = stationNameIndex.get(normalizeName(official_name));
+      if (!stationId) continue;
+      variations.forEach(variation => stationNameIndex!.set(normalizeName(variation), stationId));
+    }
+  }
+
+  return stationNameIndex.get(normalizeName(name));
+}
+
+function normalizeName(name: string): string {
+  return name.toLocaleLowerCase('tr-TR').replace(/\s+/g, '');
+}
+
+/**
+ * Parse "HH:MM" into seconds after midnight; dashes mark stations without departures
+ */
+function parseOfficialTime(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60;
+}
+
+function formatTripNumber(seconds: number): string {
+  const hours = Math.floor(seconds / 3600) % 24;
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours.toString().padStart(2, '0')}${minutes.toString().padStart(2, '0')}`;
+}
+
+function getInterStationTime(fromStationId: string, toStationId: string): number {
+  const timeData = interStationTimes.find(
+    t => t.fromStationId === fromStationId && t.toStationId === toStationId
+  );
+  return timeData ? timeData.time : DEFAULT_INTER_STATION_TIME;
+}
+
@@ -0,0 +1,132 @@
+/**
+ * Track Display - Picks the railway features drawn as the Marmaray line on the map
+ * Runs at build time; the map draws the result from src/data/track-display.json, or
+ * a track rebuilt while the debug tools preview an edited exclusion list
+ */
+
+import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
+import type { RailwayExclusions } from './positionEngine';
+
+// OpenStreetMap tags of a railway way, with its way id
+export interface TrackProperties {
+  id?: number;
+  name?: string;
+  railway?: string;
+  operator?: string;
+  service?: string;
+  usage?: string;
+  electrified?: string;
+  gauge?: string;
+  tunnel?: string;
+  bridge?: string;
+  [tag: string]: unknown;
+}
+
+export interface TrackFeature {
+  type: 'Feature';
+  properties: TrackProperties;
+  geometry: {
+    type: 'LineString';
+    coordinates: number[][];
+  };
+}
+
+export interface TrackFeatureCollection {
+  type: 'FeatureCollection';
+  features: TrackFeature[];
+}
+
+// Properties used by the map's layer filters and railway info panel
+const DISPLAY_PROPERTIES = ['id', 'name', 'railway', 'operator', 'service', 'electrified', 'gauge', 'tunnel', 'bridge'];
+
+// About 0.1 m, well below what the map can show
+const COORDINATE_DECIMALS = 6;
+
+const COMMITTED_EXCLUSIONS: RailwayExclusions = { ids: excludedRailwayIds, names: excludedRailwayNames };
+
+/**
+ * Only the main Marmaray passenger line: no maintenance facilities, freight lines
+ * or extensions beyond the service area
+ */
+export function isDisplayedTrack(feature: TrackFeature, exclusions: RailwayExclusions = COMMITTED_EXCLUSIONS): boolean {
+  const props = feature.properties;
+  const coords = feature.geometry.coordinates;
+
+  // Skip if no coordinates
+  if (!coords || coords.length === 0) return false;
+
+  // Skip excluded railway lines by name (non-Marmaray lines)
+  if (props.name && exclusions.names.includes(props.name)) return false;
+
+  // Exclude by specific IDs that are known to be problematic
+  if (props.id && exclusions.ids.includes(props.id)) return false;
+
+  // Get approximate bounds of the feature
+  const lngs = coords.map(c => c[0]);
+  const lats = coords.map(c => c[1]);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+
+  // Filter out tracks beyond Marmaray service area
+  // Halkalı: 28.766, Gebze: 29.409 - need wider bounds for full service area
+  if (minLng < 28.70 || maxLng > 29.50) return false;
+
+  // Filter out tracks beyond the Marmaray corridor
+  // Gebze is at 40.784, so we need to allow southern sections
+  // But filter out unrelated lines north and south
+  if (maxLat < 40.70 || minLat > 41.10) return false;
+
+  // Filter out obvious maintenance/freight facilities
+  if (props.railway === 'rail') {
+    // Keep main passenger lines
+    if (props.name === 'Marmaray') return true;
+
+    // Keep electrified passenger lines with standard gauge
+    if (props.electrified && props.gauge === '1435' &&
+        (props.usage === 'main' || !props.usage)) {
+      return true;
+    }
+
+    // Skip service tracks, sidings, freight lines
+    if (props.service || props.usage === 'freight' ||
+        props.usage === 'industrial' || props.usage === 'branch') {
+      return false;
+    }
+
+    // Skip tracks with very few coordinate points (likely connectors/sidings)
+    if (coords.length < 3) return false;
+
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * The displayed features with only the properties the map uses and rounded coordinates
+ */
+export function buildTrackDisplay(
+  geometry: TrackFeatureCollection,
+  exclusions: RailwayExclusions = COMMITTED_EXCLUSIONS
+): TrackFeatureCollection {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  const round = (value: number) => Math.round(value * factor) / factor;
+
+  return {
+    type: 'FeatureCollection',
+    features: geometry.features.filter(feature => isDisplayedTrack(feature, exclusions)).map(feature => ({
+      type: 'Feature',
+      properties: Object.fromEntries(
+        DISPLAY_PROPERTIES
+          .filter(key => feature.properties[key] !== undefined)
+          .map(key => [key, feature.properties[key]])
+      ),
+      geometry: {
+        type: 'LineString',
+        coordinates: feature.geometry.coordinates.map(([lng, lat]) => [round(lng), round(lat)])
+      }
+    }))
+  };
+}
@@ -6,7 +6,7 @@
 import { RailwayGraph, type RailwayNode, type RailwayEdge, type Coordinate } from './railwayGraph';
 import type { Station } from '../types';
 
-interface GeoJSONFeature {
+export interface GeoJSONFeature {
   type: 'Feature';
   properties: {
     id?: number;
@@ -24,7 +24,7 @@ interface GeoJSONFeature {
   };
 }
 
-interface GeoJSONFeatureCollection {
+export interface GeoJSONFeatureCollection {
   type: 'FeatureCollection';
   features: GeoJSONFeature[];
 }
@@ -174,7 +174,9 @@ export class TrackProcessor {
         gauge: feature.properties.gauge || '1435',
         maxSpeed,
         usage: feature.properties.usage || 'main',
-        direction: 'both' // Default to bidirectional
+        direction: 'both', // Default to bidirectional
+        featureId: feature.properties.id,
+        name: feature.properties.name
       },
       travelTime
     };
@@ -0,0 +1,462 @@
+/**
+ * Track Validation - Checks the raw railway geometry and the excluded segments the way the
+ * graph engine uses them: builds the RailwayGraph and reports where the network is broken
+ * Run with npm run data:validate-track
+ */
+
+import type { Station, Route } from '../types';
+import { excludedRailwayIds, excludedRailwayNames } from '../data/excludedRailwaySegments';
+import { RailwayGraph, type Coordinate, type RailwayEdge, type RailwayNode } from './railwayGraph';
+import { TrackProcessor, type GeoJSONFeatureCollection } from './trackProcessor';
+
+export interface TrackValidationOptions {
+  connectionTolerance: number; // meters, track ends closer than this are joined as in the graph engine
+  gapTolerance: number; // meters, larger gaps between consecutive stations are errors
+  maxStationOffset: number; // meters a station may be from the nearest track
+  duplicateTolerance: number; // meters, ways closer than this along most of their length are duplicates
+  terminusRadius: number; // meters, dead ends this close to a route's first or last station are buffer stops
+  excludedIds: number[];
+  excludedNames: string[];
+}
+
+export interface TrackComponent {
+  nodes: number;
+  edges: number;
+  length: number; // km
+  stations: string[]; // stations whose nearest track is in this component
+  featureIds: number[];
+}
+
+export interface StationGap {
+  routeId: string;
+  fromStationId: string;
+  toStationId: string;
+  gap: number; // meters between the closest track ends of the two stations' components
+  severity: 'error' | 'warning';
+}
+
+export interface StationOffTrack {
+  stationId: string;
+  name: string;
+  distance: number; // meters to the nearest track
+  featureId?: number;
+}
+
+export interface DuplicateWay {
+  featureIds: [number, number];
+  overlap: number; // meters of the shorter way that lie on the other one
+  share: number; // 0-1, part of the shorter way that lies on the other one
+}
+
+export interface DeadEnd {
+  coordinate: [number, number];
+  featureId?: number;
+  nearestStationId: string;
+  stationDistance: number; // meters
+}
+
+export interface TrackValidationReport {
+  summary: {
+    features: number;
+    excludedFeatures: number;
+    nodes: number;
+    edges: number;
+    length: number; // km
+    components: number;
+  };
+  components: TrackComponent[]; // most stations first, the first one is the main line
+  stationGaps: StationGap[];
+  stationsOffTrack: StationOffTrack[];
+  duplicateWays: DuplicateWay[];
+  deadEnds: DeadEnd[];
+  errors: string[];
+  warnings: string[];
+}
+
+const DEFAULT_OPTIONS: TrackValidationOptions = {
+  connectionTolerance: 10,
+  gapTolerance: 50,
+  maxStationOffset: 200,
+  duplicateTolerance: 2,
+  terminusRadius: 1000,
+  excludedIds: excludedRailwayIds,
+  excludedNames: excludedRailwayNames
+};
+
+const METERS_PER_DEGREE = 111320;
+const GRID_SIZE = 0.0005; // about 50 m, for finding ways near each other
+const SAMPLE_SPACING = 10; // meters between the points compared when looking for duplicates
+const MIN_DUPLICATE_SHARE = 0.5;
+const MIN_DUPLICATE_OVERLAP = 50; // meters, so ways that only touch at a joint aren't duplicates
+
+// Individual problems are capped per check in the messages, the report keeps all of them
+const MAX_MESSAGES_PER_CHECK = 20;
+
+/**
+ * Build the railway network from the geometry after exclusions and check it
+ */
+export async function validateTrackGeometry(
+  geometry: GeoJSONFeatureCollection,
+  stations: Station[],
+  routes: Route[],
+  options: Partial<TrackValidationOptions> = {}
+): Promise<TrackValidationReport> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const excludedIds = new Set(settings.excludedIds);
+  const excludedNames = new Set(settings.excludedNames);
+
+  // Same exclusions as the route calculators
+  const features = geometry.features.filter(feature =>
+    !(feature.properties.name && excludedNames.has(feature.properties.name)) &&
+    !(feature.properties.id && excludedIds.has(feature.properties.id))
+  );
+
+  const graph = new RailwayGraph();
+  await new TrackProcessor(graph, { connectionTolerance: settings.connectionTolerance })
+    .processTrackData({ ...geometry, features }, stations);
+
+  const edges = graph.getAllEdges();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // Components and the track nearest to each station
+  const nearestTrack = new Map(stations.map(station => [station.id, findNearestEdge(toCoordinate(station.coordinates), edges)]));
+  const componentOf = findComponents(edges, Array.from(nearestTrack.values()));
+  const components = summarizeComponents(edges, componentOf, stations, nearestTrack);
+  const componentIndex = (stationId: string): number | undefined => {
+    const nearest = nearestTrack.get(stationId);
+    return nearest ? componentOf.get(nearest.edge.startNodeId) : undefined;
+  };
+
+  // Stations far from any track
+  const stationsOffTrack: StationOffTrack[] = [];
+  for (const station of stations) {
+    const nearest = nearestTrack.get(station.id);
+    const distance = nearest?.distance ?? Infinity;
+    if (distance > settings.maxStationOffset) {
+      stationsOffTrack.push({
+        stationId: station.id,
+        name: station.name,
+        distance: Math.round(distance),
+        featureId: nearest?.edge.properties.featureId
+      });
+    }
+  }
+  const offTrackMessages = limitedList(warnings);
+  stationsOffTrack.forEach(station => offTrackMessages.push(
+    `Station ${station.name} (${station.stationId}) is ${station.distance} m from the nearest track`));
+
+  // Consecutive stations on tracks that don't connect
+  const deadEndNodes = graph.getAllNodes().filter(node => node.connectedEdges.length === 1);
+  const stationGaps: StationGap[] = [];
+  const gapMessages = limitedList(errors);
+  const stationName = (id: string) => stations.find(station => station.id === id)?.name ?? id;
+  for (const route of routes) {
+    for (let i = 1; i < route.stations.length; i++) {
+      const fromStationId = route.stations[i - 1];
+      const toStationId = route.stations[i];
+      const fromComponent = componentIndex(fromStationId);
+      const toComponent = componentIndex(toStationId);
+      if (fromComponent === undefined || toComponent === undefined || fromComponent === toComponent) continue;
+
+      const gap = measureGap(graph, componentOf, fromComponent, toComponent, deadEndNodes);
+      const severity = gap > settings.gapTolerance ? 'error' : 'warning';
+      stationGaps.push({ routeId: route.id, fromStationId, toStationId, gap: Math.round(gap), severity });
+
+      const message = `${route.id}: no track between ${stationName(fromStationId)} and ${stationName(toStationId)}, ${Math.round(gap)} m gap`;
+      if (severity === 'error') gapMessages.push(message);
+      else warnings.push(message);
+    }
+  }
+
+  const strayComponents = components.slice(1).filter(component => component.stations.length === 0);
+  if (strayComponents.length > 0) {
+    warnings.push(`${strayComponents.length} track pieces (${sum(strayComponents.map(c => c.length)).toFixed(1)} km) connect to no station`);
+  }
+
+  // The same track mapped twice
+  const duplicateWays = findDuplicateWays(edges, settings.duplicateTolerance);
+  const duplicateMessages = limitedList(warnings);
+  duplicateWays.forEach(duplicate => duplicateMessages.push(
+    `Ways ${duplicate.featureIds[0]} and ${duplicate.featureIds[1]} overlap for ${duplicate.overlap} m`));
+
+  // Track ends away from the termini, on the track the stations are on
+  const termini = new Set(routes.flatMap(route => [route.stations[0], route.stations[route.stations.length - 1]]));
+  const deadEnds: DeadEnd[] = [];
+  for (const node of deadEndNodes) {
+    if (components[componentOf.get(node.id)!].stations.length === 0) continue;
+    const nearestStation = findNearestStation(node.coordinate, stations);
+    if (!nearestStation) continue;
+    if (termini.has(nearestStation.station.id) && nearestStation.distance <= settings.terminusRadius) continue;
+
+    deadEnds.push({
+      coordinate: [round(node.coordinate.lng, 6), round(node.coordinate.lat, 6)],
+      featureId: graph.getEdge(node.connectedEdges[0])?.properties.featureId,
+      nearestStationId: nearestStation.station.id,
+      stationDistance: Math.round(nearestStation.distance)
+    });
+  }
+  const deadEndMessages = limitedList(warnings);
+  deadEnds.forEach(deadEnd => deadEndMessages.push(
+    `Track ends ${deadEnd.stationDistance} m from ${stationName(deadEnd.nearestStationId)}` +
+    (deadEnd.featureId ? ` (way ${deadEnd.featureId})` : '')));
+
+  const stats = graph.getNetworkStats();
+  return {
+    summary: {
+      features: geometry.features.length,
+      excludedFeatures: geometry.features.length - features.length,
+      nodes: stats.totalNodes,
+      edges: stats.totalEdges,
+      length: round(stats.totalLength, 2),
+      components: components.length
+    },
+    components,
+    stationGaps,
+    stationsOffTrack,
+    duplicateWays,
+    deadEnds,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Component index of every node, the ones with the most stations first and then by length
+ */
+function findComponents(edges: RailwayEdge[], stationTracks: (NearestEdge | null)[]): Map<string, number> {
+  const parent = new Map<string, string>();
+  const find = (nodeId: string): string => {
+    let root = nodeId;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(nodeId, root);
+    return root;
+  };
+
+  for (const edge of edges) {
+    if (!parent.has(edge.startNodeId)) parent.set(edge.startNodeId, edge.startNodeId);
+    if (!parent.has(edge.endNodeId)) parent.set(edge.endNodeId, edge.endNodeId);
+    parent.set(find(edge.startNodeId), find(edge.endNodeId));
+  }
+
+  const lengths = new Map<string, number>();
+  for (const edge of edges) {
+    const root = find(edge.startNodeId);
+    lengths.set(root, (lengths.get(root) ?? 0) + edge.length);
+  }
+  const stationCounts = new Map<string, number>();
+  for (const track of stationTracks) {
+    if (!track) continue;
+    const root = find(track.edge.startNodeId);
+    stationCounts.set(root, (stationCounts.get(root) ?? 0) + 1);
+  }
+
+  const order = new Map(
+    Array.from(lengths.keys())
+      .sort((a, b) =>
+        (stationCounts.get(b) ?? 0) - (stationCounts.get(a) ?? 0) ||
+        lengths.get(b)! - lengths.get(a)! ||
+        a.localeCompare(b))
+      .map((root, index) => [root, index])
+  );
+
+  return new Map(Array.from(parent.keys()).map(nodeId => [nodeId, order.get(find(nodeId))!]));
+}
+
+function summarizeComponents(
+  edges: RailwayEdge[],
+  componentOf: Map<string, number>,
+  stations: Station[],
+  nearestTrack: Map<string, NearestEdge | null>
+): TrackComponent[] {
+  const count = Math.max(-1, ...componentOf.values()) + 1;
+  const components: TrackComponent[] = Array.from({ length: count }, () =>
+    ({ nodes: 0, edges: 0, length: 0, stations: [], featureIds: [] }));
+
+  componentOf.forEach(index => components[index].nodes++);
+  for (const edge of edges) {
+    const component = components[componentOf.get(edge.startNodeId)!];
+    component.edges++;
+    component.length += edge.length / 1000;
+    if (edge.properties.featureId) component.featureIds.push(edge.properties.featureId);
+  }
+  for (const station of stations) {
+    const nearest = nearestTrack.get(station.id);
+    if (nearest) components[componentOf.get(nearest.edge.startNodeId)!].stations.push(station.id);
+  }
+
+  components.forEach(component => {
+    component.length = round(component.length, 2);
+    component.featureIds.sort((a, b) => a - b);
+  });
+  return components;
+}
+
+/**
+ * Shortest distance between two components, measured between their track ends
+ * since that is where a missing piece of track would join them
+ */
+function measureGap(
+  graph: RailwayGraph,
+  componentOf: Map<string, number>,
+  fromComponent: number,
+  toComponent: number,
+  deadEndNodes: RailwayNode[]
+): number {
+  const nodesOf = (component: number): RailwayNode[] => {
+    const ends = deadEndNodes.filter(node => componentOf.get(node.id) === component);
+    // A loop has no ends, fall back to all of its nodes
+    return ends.length > 0 ? ends : graph.getAllNodes().filter(node => componentOf.get(node.id) === component);
+  };
+
+  const toNodes = nodesOf(toComponent);
+  let gap = Infinity;
+  for (const from of nodesOf(fromComponent)) {
+    for (const to of toNodes) {
+      gap = Math.min(gap, graph.calculateDistance(from.coordinate, to.coordinate));
+    }
+  }
+  return gap;
+}
+
+interface NearestEdge {
+  edge: RailwayEdge;
+  distance: number; // meters
+}
+
+function findNearestEdge(coordinate: Coordinate, edges: RailwayEdge[]): NearestEdge | null {
+  let nearest: NearestEdge | null = null;
+  for (const edge of edges) {
+    const distance = distanceToLine(coordinate, edge.geometry);
+    if (!nearest || distance < nearest.distance) nearest = { edge, distance };
+  }
+  return nearest;
+}
+
+function findNearestStation(coordinate: Coordinate, stations: Station[]): { station: Station; distance: number } | null {
+  let nearest: { station: Station; distance: number } | null = null;
+  for (const station of stations) {
+    const distance = distanceToLine(coordinate, [toCoordinate(station.coordinates)]);
+    if (!nearest || distance < nearest.distance) nearest = { station, distance };
+  }
+  return nearest;
+}
+
+/**
+ * Pairs of ways that run on top of each other. Double track runs a few meters apart,
+ * so the tolerance has to stay below the track spacing
+ */
+function findDuplicateWays(edges: RailwayEdge[], tolerance: number): DuplicateWay[] {
+  const ways = edges.filter(edge => edge.properties.featureId);
+
+  // Ways by the grid cells their points fall in
+  const grid = new Map<string, number[]>();
+  ways.forEach((way, index) => {
+    const cells = new Set(sampleLine(way.geometry, SAMPLE_SPACING).map(getGridCell));
+    cells.forEach(cell => {
+      const entries = grid.get(cell);
+      if (entries) entries.push(index);
+      else grid.set(cell, [index]);
+    });
+  });
+
+  const candidates = new Set<string>();
+  grid.forEach(entries => {
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) candidates.add(`${entries[i]}:${entries[j]}`);
+    }
+  });
+
+  const duplicates: DuplicateWay[] = [];
+  for (const pair of candidates) {
+    const [a, b] = pair.split(':').map(Number);
+    const [shorter, longer] = ways[a].length <= ways[b].length ? [ways[a], ways[b]] : [ways[b], ways[a]];
+    if (shorter.properties.featureId === longer.properties.featureId) continue;
+
+    const samples = sampleLine(shorter.geometry, SAMPLE_SPACING);
+    const onOther = samples.filter(point => distanceToLine(point, longer.geometry) <= tolerance).length;
+    const share = onOther / samples.length;
+    const overlap = shorter.length * share;
+    if (share >= MIN_DUPLICATE_SHARE && overlap >= MIN_DUPLICATE_OVERLAP) {
+      const featureIds = [shorter.properties.featureId!, longer.properties.featureId!].sort((x, y) => x - y) as [number, number];
+      duplicates.push({ featureIds, overlap: Math.round(overlap), share: round(share, 2) });
+    }
+  }
+
+  return duplicates.sort((a, b) => b.overlap - a.overlap || a.featureIds[0] - b.featureIds[0]);
+}
+
+/**
+ * Points along a line at most the spacing apart, including its vertices
+ */
+function sampleLine(line: Coordinate[], spacing: number): Coordinate[] {
+  const samples: Coordinate[] = [line[0]];
+  for (let i = 1; i < line.length; i++) {
+    const from = line[i - 1];
+    const to = line[i];
+    const steps = Math.max(1, Math.ceil(distanceToLine(from, [to]) / spacing));
+    for (let step = 1; step <= steps; step++) {
+      samples.push({
+        lng: from.lng + (to.lng - from.lng) * step / steps,
+        lat: from.lat + (to.lat - from.lat) * step / steps
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Flat-earth distance in meters from a point to a polyline, or to a single point
+ */
+function distanceToLine(point: Coordinate, line: Coordinate[]): number {
+  const scale = Math.cos(point.lat * Math.PI / 180) * METERS_PER_DEGREE;
+  const toMeters = (coordinate: Coordinate): [number, number] =>
+    [(coordinate.lng - point.lng) * scale, (coordinate.lat - point.lat) * METERS_PER_DEGREE];
+
+  if (line.length === 1) return Math.hypot(...toMeters(line[0]));
+
+  let distance = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const [ax, ay] = toMeters(line[i - 1]);
+    const [bx, by] = toMeters(line[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    distance = Math.min(distance, Math.hypot(ax + dx * t, ay + dy * t));
+  }
+  return distance;
+}
+
+function getGridCell(coordinate: Coordinate): string {
+  return `${Math.floor(coordinate.lng / GRID_SIZE)}:${Math.floor(coordinate.lat / GRID_SIZE)}`;
+}
+
+function toCoordinate([lng, lat]: [number, number]): Coordinate {
+  return { lng, lat };
+}
+
+/**
+ * A list that keeps the first few messages and then notes how many were left out
+ */
+function limitedList(target: string[]): { push: (message: string) => void } {
+  let count = 0;
+  return {
+    push(message: string) {
+      count++;
+      if (count <= MAX_MESSAGES_PER_CHECK) {
+        target.push(message);
+      } else if (count === MAX_MESSAGES_PER_CHECK + 1) {
+        target.push('... more of the same left out, see the report');
+      }
+    }
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
@@ -1,9 +1,17 @@
-import type { Train, Route, Station } from '../types';
+import type { Station } from '../types';
 import { routes } from '../data/routes';
 import { stations } from '../data/stations';
-import { interStationTimes } from '../data/interStationTimes';
-import { SimpleRouteCalculator } from './simpleRouteCalculator';
+import { createPositionEngine, type PositionEngine, type PositionEngineType, type RailwayExclusions } from './positionEngine';
 import { generateTrainName, getTrainDisplayName } from './trainNaming';
+import { createMotionProfile, getDistanceProgress } from './motionProfile';
+import { getChainageDistance, interpolateChainage } from './linearReferencing';
+import {
+  getActiveTrips,
+  getScheduledTrips,
+  tripTimeToDate,
+  type ScheduledTrip,
+  type TripPosition
+} from './timetableEngine';
 
 export interface TrainPosition {
   trainId: string;
@@ -11,7 +19,8 @@ export interface TrainPosition {
   fullName: string; // Full descriptive name
   routeId: string;
   coordinates: [number, number]; // [longitude, latitude]
-  progress: number; // 0-1 progress between current segment
+  progress: number; // 0-1 progress along the whole trip
+  chainage: number | null; // km from Halkalı, see linearReferencing
   currentSegment: {
     fromStationId: string;
     toStationId: string;
@@ -21,29 +30,33 @@ export interface TrainPosition {
   direction: 'forward' | 'backward';
   bearing: number; // Track direction in degrees
   nextArrivalTime?: Date;
+  speed: number; // km/h
+  isDwelling: boolean; // standing at the platform of currentSegment.fromStation
   delay: number; // in seconds
   departureTime: Date; // When the train started its journey
 }
 
 export class TrainSimulationEngine {
-  private trains: Train[] = [];
-  private routeCalculator: SimpleRouteCalculator;
+  private routeCalculator: PositionEngine | null = null;
+  private engineType: PositionEngineType;
   private isInitialized = false;
 
-  constructor() {
-    this.routeCalculator = new SimpleRouteCalculator();
+  constructor(engineType: PositionEngineType = 'precomputed') {
+    this.engineType = engineType;
     this.initializeAsync();
   }
 
   private async initializeAsync(): Promise<void> {
     try {
       console.log('🚂 Initializing Train Simulation Engine...');
-      await this.routeCalculator.initialize(stations);
+      const routeCalculator = await createPositionEngine(this.engineType);
+      this.routeCalculator = routeCalculator;
+      await routeCalculator.initialize(stations);
       
       console.log('📊 Pre-calculating route patterns...');
       // Pre-calculate all route patterns
       for (const route of routes) {
-        const routeInfo = this.routeCalculator.calculateRoutePattern(route);
+        const routeInfo = routeCalculator.calculateRoutePattern(route);
         if (routeInfo) {
           console.log(`✅ Route ${route.id}: ${(routeInfo.totalDistance/1000).toFixed(1)}km, ${Math.round(routeInfo.totalTravelTime/60)}min`);
         } else {
@@ -51,130 +64,17 @@ export class TrainSimulationEngine {
         }
       }
       
-      this.isInitialized = true;
-      this.initializeTrains();
-      
-      const stats = this.routeCalculator.getNetworkStats();
+      const trips = getScheduledTrips();
+      console.log(`🚂 Loaded ${trips.length} scheduled trips from the official timetable`);
+
+      const stats = routeCalculator.getNetworkStats();
       console.log(`✅ Train Simulation Engine initialized: ${stats.totalNodes} nodes, ${stats.totalEdges} edges, ${stats.totalLength.toFixed(1)}km network`);
     } catch (error) {
       console.error('❌ Failed to initialize Train Simulation Engine:', error);
-      // Fall back to simple mode
-      this.isInitialized = false;
-      this.initializeTrains();
-    }
-  }
-
-  private initializeTrains(): void {
-    // Clear existing trains
-    this.trains = [];
-    
-    console.log(`🚂 Creating trains (system initialized: ${this.isInitialized})`);
-    
-    // Initialize trains for each route based on frequency
-    routes.forEach(route => {
-      this.createTrainsForRoute(route);
-    });
-    
-    console.log(`🚂 Created ${this.trains.length} trains total`);
-  }
-
-  private createTrainsForRoute(route: Route): void {
-    const now = new Date();
-    
-    // Define service hours for each route type
-    let serviceStart: Date;
-    let serviceEnd: Date;
-    
-    if (route.id === 'marmaray-evening') {
-      // Evening service: 20:50 - 23:30 (last train departure)
-      serviceStart = new Date(now);
-      serviceStart.setHours(20, 50, 0, 0);
-      serviceEnd = new Date(now);
-      serviceEnd.setHours(23, 30, 0, 0);
-    } else if (route.id === 'marmaray-short') {
-      // Ataköy-Pendik service: 6:00 AM - 20:50 (stops when evening service starts)
-      serviceStart = new Date(now);
-      serviceStart.setHours(6, 0, 0, 0);
-      serviceEnd = new Date(now);
-      serviceEnd.setHours(20, 50, 0, 0);
-    } else {
-      // Full route service: 6:00 AM - 23:59 (runs all day)
-      serviceStart = new Date(now);
-      serviceStart.setHours(6, 0, 0, 0);
-      serviceEnd = new Date(now);
-      serviceEnd.setHours(23, 59, 0, 0);
-    }
-
-    // Skip if outside service hours
-    if (now < serviceStart || now > serviceEnd) {
-      return;
-    }
-
-    // Calculate how many trains should be running based on frequency
-    const minutesSinceStart = Math.floor((now.getTime() - serviceStart.getTime()) / (1000 * 60));
-    const trainCount = Math.ceil(minutesSinceStart / route.frequency);
-
-    // Create trains in both directions
-    for (let i = 0; i < trainCount; i++) {
-      // Forward direction train
-      const forwardDepartureTime = new Date(serviceStart);
-      forwardDepartureTime.setMinutes(forwardDepartureTime.getMinutes() + (i * route.frequency));
-      
-      if (forwardDepartureTime <= now) {
-        const train = this.createTrain(
-          `${route.id}-forward-${i}`,
-          route.id,
-          'forward',
-          forwardDepartureTime
-        );
-        this.trains.push(train);
-      }
-
-      // Backward direction train (offset by half frequency for better spacing)
-      const backwardDepartureTime = new Date(serviceStart);
-      backwardDepartureTime.setMinutes(
-        backwardDepartureTime.getMinutes() + (i * route.frequency) + Math.floor(route.frequency / 2)
-      );
-      
-      if (backwardDepartureTime <= now) {
-        const train = this.createTrain(
-          `${route.id}-backward-${i}`,
-          route.id,
-          'backward',
-          backwardDepartureTime
-        );
-        this.trains.push(train);
-      }
+      // Fall back to straight lines between stations
     }
-  }
 
-  private createTrain(
-    trainId: string,
-    routeId: string,
-    direction: 'forward' | 'backward',
-    departureTime: Date
-  ): Train {
-    const route = routes.find(r => r.id === routeId)!;
-    const startStationId = direction === 'forward' ? route.termini[0] : route.termini[1];
-    const endStationId = direction === 'forward' ? route.termini[1] : route.termini[0];
-    
-    return {
-      id: trainId,
-      routeId,
-      direction,
-      departureTime,
-      currentPosition: {
-        fromStationId: startStationId,
-        toStationId: endStationId,
-        progress: 0,
-        coordinates: this.getStationCoordinates(startStationId)
-      }
-    };
-  }
-
-  private getStationCoordinates(stationId: string): [number, number] {
-    const station = stations.find(s => s.id === stationId);
-    return station ? station.coordinates : [29.0, 41.0]; // Default to Istanbul center
+    this.isInitialized = true;
   }
 
   public calculateTrainPositions(currentTime: Date = new Date()): TrainPosition[] {
@@ -184,171 +84,85 @@ export class TrainSimulationEngine {
 
     const positions: TrainPosition[] = [];
 
-    for (const train of this.trains) {
-      const position = this.calculateSingleTrainPosition(train, currentTime);
-      if (position) {
-        positions.push(position);
+    for (const { trip, serviceDate, position } of getActiveTrips(currentTime)) {
+      const trainPosition = this.calculateTripPosition(trip, serviceDate, position);
+      if (trainPosition) {
+        positions.push(trainPosition);
       }
     }
 
-
     return positions;
   }
 
-  private calculateSingleTrainPosition(train: Train, currentTime: Date): TrainPosition | null {
-    const route = routes.find(r => r.id === train.routeId);
-    if (!route) {
-      return null;
-    }
-
-    const elapsedTime = Math.floor((currentTime.getTime() - train.departureTime.getTime()) / 1000);
-    
-    // If train hasn't departed yet
-    if (elapsedTime < 0) {
-      return null;
-    }
-
-    // Get the route information from the route calculator
-    const routeInfo = this.routeCalculator.getRouteInfo(train.routeId);
-    if (!routeInfo) {
-      // Fallback to simple station-to-station interpolation
-      return this.calculateTrainPositionFallback(train, currentTime, route, elapsedTime);
-    }
-
-    // Use the route's pre-calculated travel time or fall back to station-based calculation
-    const totalJourneyTime = routeInfo.totalTravelTime || this.calculateJourneyTime(route, train.direction);
-
-    // If train has completed the journey, remove it
-    if (elapsedTime >= totalJourneyTime) {
-      return null;
-    }
-
-    // Calculate progress along the entire route (0-1)
-    const routeProgress = Math.max(0, Math.min(elapsedTime / totalJourneyTime, 1));
-
-    // Use the new route calculator system
-    const positionResult = this.routeCalculator.calculateTrainPosition(
-      train.routeId,
-      train.direction,
-      routeProgress,
-      stations
-    );
+  private calculateTripPosition(
+    trip: ScheduledTrip,
+    serviceDate: Date,
+    position: TripPosition
+  ): TrainPosition | null {
+    const fromStop = trip.stops[position.fromIndex];
+    const toStop = trip.stops[position.toIndex];
+    const fromStation = stations.find(s => s.id === fromStop.stationId);
+    const toStation = stations.find(s => s.id === toStop.stationId);
 
-    if (!positionResult) {
+    if (!fromStation || !toStation) {
       return null;
     }
 
-    const coordinates: [number, number] = [positionResult.coordinate.lng, positionResult.coordinate.lat];
-    const bearing = positionResult.bearing;
-    const currentSegment = positionResult.currentSegment;
+    // Follow the track between the two stations, or a straight line if no geometry is available
+    const runningTime = toStop.arrivalTime - fromStop.departureTime;
+    const trackPosition = this.routeCalculator?.calculateSegmentPosition(
+      trip.routeId,
+      fromStation.id,
+      toStation.id,
+      position.progress,
+      runningTime
+    ) ?? null;
+
+    // The straight line uses the same motion profile over the distance between the stations
+    const lineDistance = (getChainageDistance(fromStation.id, toStation.id) ?? 0) * 1000;
+    const lineMotion = getDistanceProgress(createMotionProfile(lineDistance, runningTime), position.progress);
+
+    const coordinates: [number, number] = trackPosition
+      ? [trackPosition.coordinate.lng, trackPosition.coordinate.lat]
+      : [
+          fromStation.coordinates[0] + (toStation.coordinates[0] - fromStation.coordinates[0]) * lineMotion.progress,
+          fromStation.coordinates[1] + (toStation.coordinates[1] - fromStation.coordinates[1]) * lineMotion.progress
+        ];
+    const speed = position.dwelling ? 0 : (trackPosition ? trackPosition.speed : lineMotion.speed);
+    const bearing = trackPosition
+      ? trackPosition.bearing
+      : this.calculateSimpleBearing(fromStation.coordinates, toStation.coordinates);
+
+    const departureTime = tripTimeToDate(serviceDate, trip.stops[0].departureTime);
 
     return {
-      trainId: train.id,
-      displayName: getTrainDisplayName(train.id, train.routeId, train.direction),
-      fullName: generateTrainName(train.routeId, train.direction, train.departureTime),
-      routeId: train.routeId,
+      trainId: trip.id,
+      displayName: getTrainDisplayName(trip.id, trip.routeId, trip.direction),
+      fullName: generateTrainName(trip.routeId, trip.direction, departureTime),
+      routeId: trip.routeId,
       coordinates,
-      progress: routeProgress,
-      currentSegment,
-      direction: train.direction,
-      bearing: bearing,
-      delay: 0, // No delay simulation for now
-      departureTime: train.departureTime
+      progress: position.tripProgress,
+      chainage: interpolateChainage(
+        fromStation.id,
+        toStation.id,
+        trackPosition ? trackPosition.distanceProgress : lineMotion.progress
+      ),
+      currentSegment: {
+        fromStationId: fromStation.id,
+        toStationId: toStation.id,
+        fromStation,
+        toStation
+      },
+      direction: trip.direction,
+      bearing,
+      nextArrivalTime: tripTimeToDate(serviceDate, toStop.arrivalTime),
+      speed: Math.round(speed * 3.6),
+      isDwelling: position.dwelling,
+      delay: toStop.delay ?? 0,
+      departureTime
     };
   }
 
-  private getInterStationTime(fromStationId: string, toStationId: string): number {
-    const timeData = interStationTimes.find(
-      t => t.fromStationId === fromStationId && t.toStationId === toStationId
-    );
-    return timeData ? timeData.time : 120; // Default 2 minutes if not found
-  }
-
-  private calculateJourneyTime(route: Route, direction: 'forward' | 'backward'): number {
-    const orderedStations = direction === 'forward' 
-      ? route.stations 
-      : [...route.stations].reverse();
-
-    let totalJourneyTime = 0;
-    for (let i = 0; i < orderedStations.length - 1; i++) {
-      const fromStationId = orderedStations[i];
-      const toStationId = orderedStations[i + 1];
-      totalJourneyTime += this.getInterStationTime(fromStationId, toStationId);
-    }
-    
-    return totalJourneyTime;
-  }
-
-  private calculateTrainPositionFallback(
-    train: Train, 
-    _currentTime: Date, 
-    route: Route, 
-    elapsedTime: number
-  ): TrainPosition | null {
-    // Simple fallback using station-to-station linear interpolation
-    const orderedStations = train.direction === 'forward' 
-      ? route.stations 
-      : [...route.stations].reverse();
-
-    // Calculate total journey time
-    let totalJourneyTime = 0;
-    for (let i = 0; i < orderedStations.length - 1; i++) {
-      const fromStationId = orderedStations[i];
-      const toStationId = orderedStations[i + 1];
-      totalJourneyTime += this.getInterStationTime(fromStationId, toStationId);
-    }
-
-    // If train has completed the journey
-    if (elapsedTime >= totalJourneyTime) {
-      return null;
-    }
-
-    // Find which station segment we're in
-    let currentSegmentTime = 0;
-    for (let i = 0; i < orderedStations.length - 1; i++) {
-      const fromStationId = orderedStations[i];
-      const toStationId = orderedStations[i + 1];
-      const segmentTime = this.getInterStationTime(fromStationId, toStationId);
-
-      if (elapsedTime < currentSegmentTime + segmentTime) {
-        // Train is in this segment
-        const segmentProgress = (elapsedTime - currentSegmentTime) / segmentTime;
-        const fromStation = stations.find(s => s.id === fromStationId)!;
-        const toStation = stations.find(s => s.id === toStationId)!;
-        
-        // Linear interpolation between stations
-        const lng = fromStation.coordinates[0] + (toStation.coordinates[0] - fromStation.coordinates[0]) * segmentProgress;
-        const lat = fromStation.coordinates[1] + (toStation.coordinates[1] - fromStation.coordinates[1]) * segmentProgress;
-        
-        // Calculate bearing
-        const bearing = this.calculateSimpleBearing(fromStation.coordinates, toStation.coordinates);
-        
-        return {
-          trainId: train.id,
-          displayName: getTrainDisplayName(train.id, train.routeId, train.direction),
-          fullName: generateTrainName(train.routeId, train.direction, train.departureTime),
-          routeId: train.routeId,
-          coordinates: [lng, lat],
-          progress: elapsedTime / totalJourneyTime,
-          currentSegment: {
-            fromStationId,
-            toStationId,
-            fromStation,
-            toStation
-          },
-          direction: train.direction,
-          bearing: bearing,
-          delay: 0,
-          departureTime: train.departureTime
-        };
-      }
-
-      currentSegmentTime += segmentTime;
-    }
-
-    return null;
-  }
-
   private calculateSimpleBearing(from: [number, number], to: [number, number]): number {
     const [fromLng, fromLat] = from;
     const [toLng, toLat] = to;
@@ -377,25 +191,27 @@ export class TrainSimulationEngine {
     return this.calculateTrainPositions(currentTime).filter(pos => pos.routeId === routeId);
   }
 
-  // Clean up old trains that have completed their journey
-  public cleanup(currentTime: Date = new Date()): void {
-    const maxJourneyTime = 120 * 60; // 2 hours max journey time
-    this.trains = this.trains.filter(train => {
-      const elapsedTime = Math.floor((currentTime.getTime() - train.departureTime.getTime()) / 1000);
-      return elapsedTime < maxJourneyTime;
-    });
-  }
-
   /**
    * Exclude railway features by name and reinitialize
    */
   public async excludeRailwayFeatures(featureNames: string[]): Promise<void> {
-    this.routeCalculator.excludeFeatures(featureNames);
-    await this.routeCalculator.reinitialize();
+    const { ids, names } = this.getRailwayExclusions();
+    await this.setRailwayExclusions({ ids, names: Array.from(new Set([...names, ...featureNames])) });
+  }
+
+  /**
+   * Replace the excluded railway features and reinitialize, e.g. to preview an edited exclusion list
+   */
+  public async setRailwayExclusions(exclusions: RailwayExclusions): Promise<void> {
+    const routeCalculator = this.routeCalculator;
+    if (!routeCalculator) return;
+
+    routeCalculator.setExclusions(exclusions);
+    await routeCalculator.reinitialize();
     
     // Recalculate all route patterns
     for (const route of routes) {
-      this.routeCalculator.calculateRoutePattern(route);
+      routeCalculator.calculateRoutePattern(route);
     }
     
     console.log('✅ Railway features excluded and system reinitialized');
@@ -404,7 +220,32 @@ export class TrainSimulationEngine {
   /**
    * Get excluded features
    */
-  public getExcludedFeatures(): string[] {
-    return this.routeCalculator.getExcludedFeatures();
+  public getRailwayExclusions(): RailwayExclusions {
+    return this.routeCalculator?.getExclusions() ?? { ids: [], names: [] };
+  }
+
+  /**
+   * Switch position engine, keeping the excluded features. Trains stay on the current
+   * engine until the new one has calculated its route patterns
+   */
+  public async setPositionEngine(type: PositionEngineType): Promise<void> {
+    this.engineType = type;
+    if (type === this.routeCalculator?.type) return;
+
+    const engine = await createPositionEngine(type);
+    if (this.routeCalculator) engine.setExclusions(this.getRailwayExclusions());
+    await engine.initialize(stations);
+    for (const route of routes) {
+      engine.calculateRoutePattern(route);
+    }
+
+    // Another engine may have been asked for in the meantime
+    if (this.engineType !== type) return;
+    this.routeCalculator = engine;
+    console.log(`🔀 Switched to the ${type} position engine`);
+  }
+
+  public getPositionEngineType(): PositionEngineType {
+    return this.engineType;
   }
 }
\ No newline at end of file
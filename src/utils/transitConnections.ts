@@ -0,0 +1,181 @@
+/**
+ * Transit Connections - Metro, tram, ferry and Metrobüs lines at Marmaray interchanges
+ * Plans the first and last mile of a journey on a connecting line from its static timetable:
+ * vehicles leave the interchange every headway between the first and last departure, and
+ * vehicles towards the interchange arrive there on the same times
+ */
+
+import { stationConnections } from '../data/connections';
+import type { TransitConnection } from '../types';
+import { getServiceDate, tripTimeToDate } from './timetableEngine';
+
+export interface AccessLeg {
+  connection: TransitConnection;
+  stationId: string; // the Marmaray interchange
+  stopName: string; // the other end of the leg on the connecting line
+  toStation: boolean; // first mile (stop to station) or last mile (station to stop)
+  departureTime: Date; // leaving the stop, or stepping off the train at the station
+  lineDepartureTime: Date; // when the connecting vehicle leaves
+  arrivalTime: Date; // on the Marmaray platform, or at the stop
+}
+
+/**
+ * Lines passengers can change to at a station
+ */
+export function getStationConnections(stationId: string): TransitConnection[] {
+  return stationConnections[stationId] ?? [];
+}
+
+/**
+ * Find a line at a station by its id and one of its stops (line ids repeat, e.g. ferries)
+ */
+export function findConnection(stationId: string, lineId: string, stopName: string): TransitConnection | undefined {
+  return getStationConnections(stationId).find(connection =>
+    connection.lineId === lineId && connection.stops.some(stop => stop.name === stopName)
+  );
+}
+
+/**
+ * Earliest first mile: take the line from the stop to the station and walk to the platform
+ */
+export function planFirstMile(
+  stationId: string,
+  connection: TransitConnection,
+  stopName: string,
+  leaveAfter: Date
+): AccessLeg | null {
+  const travelTime = getTravelTime(connection, stopName);
+  if (travelTime === null) return null;
+
+  const slot = findSlot(connection, new Date(leaveAfter.getTime() + travelTime), 'after');
+  return slot && firstMileAt(stationId, connection, stopName, slot, travelTime);
+}
+
+/**
+ * Latest first mile that is on the platform for a train leaving at the given time
+ */
+export function planFirstMileBy(
+  stationId: string,
+  connection: TransitConnection,
+  stopName: string,
+  trainDeparture: Date
+): AccessLeg | null {
+  const travelTime = getTravelTime(connection, stopName);
+  if (travelTime === null) return null;
+
+  const slot = findSlot(connection, new Date(trainDeparture.getTime() - connection.walkTime * 1000), 'before');
+  return slot && firstMileAt(stationId, connection, stopName, slot, travelTime);
+}
+
+/**
+ * Earliest last mile after a train arrives: walk to the line and take it to the stop
+ */
+export function planLastMile(
+  stationId: string,
+  connection: TransitConnection,
+  stopName: string,
+  trainArrival: Date
+): AccessLeg | null {
+  const travelTime = getTravelTime(connection, stopName);
+  if (travelTime === null) return null;
+
+  const slot = findSlot(connection, new Date(trainArrival.getTime() + connection.walkTime * 1000), 'after');
+  return slot && {
+    connection,
+    stationId,
+    stopName,
+    toStation: false,
+    departureTime: trainArrival,
+    lineDepartureTime: slot,
+    arrivalTime: new Date(slot.getTime() + travelTime)
+  };
+}
+
+/**
+ * Latest last mile that reaches the stop by the given time; the train has to arrive by its departure time
+ */
+export function planLastMileBy(
+  stationId: string,
+  connection: TransitConnection,
+  stopName: string,
+  arriveBy: Date
+): AccessLeg | null {
+  const travelTime = getTravelTime(connection, stopName);
+  if (travelTime === null) return null;
+
+  const slot = findSlot(connection, new Date(arriveBy.getTime() - travelTime), 'before');
+  return slot && {
+    connection,
+    stationId,
+    stopName,
+    toStation: false,
+    departureTime: new Date(slot.getTime() - connection.walkTime * 1000),
+    lineDepartureTime: slot,
+    arrivalTime: new Date(slot.getTime() + travelTime)
+  };
+}
+
+function firstMileAt(
+  stationId: string,
+  connection: TransitConnection,
+  stopName: string,
+  slot: Date,
+  travelTime: number
+): AccessLeg {
+  const lineDepartureTime = new Date(slot.getTime() - travelTime);
+  return {
+    connection,
+    stationId,
+    stopName,
+    toStation: true,
+    departureTime: lineDepartureTime,
+    lineDepartureTime,
+    arrivalTime: new Date(slot.getTime() + connection.walkTime * 1000)
+  };
+}
+
+/**
+ * Travel time in ms between the interchange and a stop of the line
+ */
+function getTravelTime(connection: TransitConnection, stopName: string): number | null {
+  const stop = connection.stops.find(s => s.name === stopName);
+  return stop ? stop.travelTime * 60 * 1000 : null;
+}
+
+/**
+ * The first timetable slot at the interchange at or after a time, or the last one at or before it
+ */
+function findSlot(connection: TransitConnection, time: Date, search: 'after' | 'before'): Date | null {
+  const first = parseClock(connection.firstDeparture);
+  let last = parseClock(connection.lastDeparture);
+  if (last < first) last += 24 * 3600;
+  const headway = connection.headway * 60;
+
+  // The slots of the day before may still be running after midnight
+  const today = getServiceDate(time);
+  const candidates: Date[] = [];
+  for (const dayOffset of [-1, 0, 1]) {
+    const serviceDate = new Date(today);
+    serviceDate.setDate(serviceDate.getDate() + dayOffset);
+    const seconds = (time.getTime() - serviceDate.getTime()) / 1000;
+
+    const index = search === 'after'
+      ? Math.max(0, Math.ceil((seconds - first) / headway))
+      : Math.floor((seconds - first) / headway);
+    const slot = first + Math.min(index, Math.floor((last - first) / headway)) * headway;
+    if (index < 0 || (search === 'after' && slot < seconds)) continue;
+
+    candidates.push(tripTimeToDate(serviceDate, slot));
+  }
+
+  const valid = candidates.filter(slot => search === 'after' ? slot >= time : slot <= time);
+  if (valid.length === 0) return null;
+  return valid.reduce((best, slot) =>
+    (search === 'after' ? slot < best : slot > best) ? slot : best
+  );
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 3600 + minutes * 60;
+}
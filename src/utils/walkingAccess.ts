@@ -0,0 +1,92 @@
+/**
+ * Walking Access - Walk between a point on the map and the nearest stations
+ * Walks are estimated from the straight-line distance, lengthened for the street network,
+ * at an average walking pace
+ */
+
+import { stations } from '../data/stations';
+import type { MapPoint, Station } from '../types';
+import { calculateDistance } from './railwayGraph';
+
+export const WALKING_SPEED = 1.25; // m/s, about 4.5 km/h
+export const WALK_DETOUR_FACTOR = 1.3; // streets are longer than the straight line
+export const NEAREST_STATION_COUNT = 3;
+
+export interface StationAccess {
+  station: Station;
+  distance: number; // meters, along the streets
+  walkTime: number; // seconds
+}
+
+export interface WalkingLeg {
+  point: MapPoint;
+  station: Station;
+  toStation: boolean; // access walk (point to station) or egress walk (station to point)
+  distance: number; // meters, along the streets
+  departureTime: Date;
+  arrivalTime: Date;
+}
+
+/**
+ * The stations closest to a point, nearest first
+ */
+export function findNearestStations(
+  coordinates: [number, number],
+  count: number = NEAREST_STATION_COUNT
+): StationAccess[] {
+  return stations
+    .map(station => {
+      const distance = getDistance(coordinates, station.coordinates) * WALK_DETOUR_FACTOR;
+      return { station, distance, walkTime: distance / WALKING_SPEED };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+}
+
+/**
+ * Walk from a point to catch a train, leaving just in time
+ */
+export function walkToStation(point: MapPoint, access: StationAccess, arriveAt: Date): WalkingLeg {
+  return {
+    point,
+    station: access.station,
+    toStation: true,
+    distance: access.distance,
+    departureTime: new Date(arriveAt.getTime() - access.walkTime * 1000),
+    arrivalTime: arriveAt
+  };
+}
+
+/**
+ * Walk from a station to a point after stepping off the train
+ */
+export function walkFromStation(point: MapPoint, access: StationAccess, leaveAt: Date): WalkingLeg {
+  return {
+    point,
+    station: access.station,
+    toStation: false,
+    distance: access.distance,
+    departureTime: leaveAt,
+    arrivalTime: new Date(leaveAt.getTime() + access.walkTime * 1000)
+  };
+}
+
+/**
+ * Parse coordinates typed as "latitude, longitude" into [longitude, latitude]
+ */
+export function parseCoordinates(value: string): [number, number] | null {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return [longitude, latitude];
+}
+
+/**
+ * Great-circle distance in meters between two [longitude, latitude] points
+ */
+function getDistance([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number {
+  return calculateDistance({ lng: lng1, lat: lat1 }, { lng: lng2, lat: lat2 });
+}
@@ -0,0 +1,201 @@
+/**
+ * Minimal ZIP archive reader and writer
+ * Supports the two compression methods used by GTFS publishers (stored and deflate)
+ * and runs unchanged in the browser and in Node 18+ (both ship DecompressionStream)
+ */
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Read every file in a ZIP archive into memory, keyed by its path inside the archive
+ */
+export async function readZipArchive(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const files = new Map<string, Uint8Array>();
+
+  for (const entry of listZipEntries(data)) {
+    // Skip directory entries
+    if (entry.name.endsWith('/')) continue;
+    files.set(entry.name, await extractZipEntry(data, entry));
+  }
+
+  return files;
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ */
+export function listZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocdOffset = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+
+  const entries: ZipEntry[] = [];
+  const decoder = new TextDecoder('utf-8');
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`Corrupt ZIP archive: bad central directory entry at offset ${offset}`);
+    }
+
+    const compressionMethod = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.push({ name, compressionMethod, compressedSize, uncompressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract and decompress a single entry
+ */
+async function extractZipEntry(data: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerOffset = entry.localHeaderOffset;
+
+  if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP archive: bad local header for "${entry.name}"`);
+  }
+
+  // The local header repeats name/extra lengths, which may differ from the central directory
+  const nameLength = view.getUint16(headerOffset + 26, true);
+  const extraLength = view.getUint16(headerOffset + 28, true);
+  const dataStart = headerOffset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case COMPRESSION_STORED:
+      return compressed.slice();
+    case COMPRESSION_DEFLATE:
+      return inflateRaw(compressed);
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for "${entry.name}"`);
+  }
+}
+
+/**
+ * Locate the end-of-central-directory record by scanning backwards past the optional comment
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  throw new Error('Not a ZIP archive: end of central directory record not found');
+}
+
+async function inflateRaw(compressed: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Create a ZIP archive from in-memory files (entries are stored uncompressed)
+ */
+export function createZipArchive(files: Record<string, string | Uint8Array>): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    const crc = crc32(data);
+
+    const localHeader = new Uint8Array(30 + nameBytes.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, COMPRESSION_STORED, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localHeader.set(nameBytes, 30);
+
+    const centralHeader = new Uint8Array(46 + nameBytes.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed to extract
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, COMPRESSION_STORED, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(nameBytes, 46);
+
+    localParts.push(localHeader, data);
+    centralParts.push(centralHeader);
+    offset += localHeader.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+
+  return archive;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}